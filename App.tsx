@@ -1,10 +1,35 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { Product, AdminNotification } from './types';
-import { generateProducts, generateNotifications } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Product, AdminNotification, AssistantCartAction, Banner, CheckoutDetails, ContactSubmission, Coupon, CurrencyCode, CurrencySettings, Order, OrderStatus, PricingSettings, ReviewStatus, TicketStatus, UserStatus } from './types';
+import { getProductSource, loadCatalog, saveCatalog } from './services/productSource';
+import { AppRoute, View, parseRoute } from './services/routeService';
+import { buildSearchIndex, countFacet, searchProducts } from './services/searchService';
+import { Permission, assertCan, can, diffProducts, permissionsForProductChange } from './services/permissions';
+import { selectBanners } from './services/bannerService';
+import { applyReviewRatings, getApprovedReviews, getReviewEligibilityError } from './services/reviewService';
+import { decrementStock, findNewLowStock, findUnrestockableLines, restock, validateCartStock } from './services/inventoryService';
+import { isInPriceRange } from './services/priceService';
+import { calculatePriceBreakdown, detectRegion, findCoupon, getCouponError } from './services/pricingService';
+import { getPriceRange, getPurchasablePrices, hasVariants, isInStock } from './services/variantService';
+import { NotificationEvent } from './services/notificationService';
+import { NewAuditEntry } from './services/auditService';
+import { getOrderCurrency, planReorder } from './services/orderService';
+import { LOCALES, MessageKey, isLocale, translate } from './services/i18nService';
 import { useWishlist } from './hooks/useWishlist';
 import { useAuth } from './hooks/useAuth';
 import { useCart } from './hooks/useCart';
 import { useDarkMode } from './hooks/useDarkMode';
+import { useOrders } from './hooks/useOrders';
+import { useUrlRoute } from './hooks/useUrlRoute';
+import { useCustomerAuth } from './hooks/useCustomerAuth';
+import { useUsers } from './hooks/useUsers';
+import { useAuditLog } from './hooks/useAuditLog';
+import { useTickets } from './hooks/useTickets';
+import { usePricing } from './hooks/usePricing';
+import { useReviews } from './hooks/useReviews';
+import { useBanners } from './hooks/useBanners';
+import { useNotifications } from './hooks/useNotifications';
+import { useI18n } from './hooks/useI18n';
+import { useProductCopy } from './hooks/useProductCopy';
 import { ProductCard } from './components/ProductCard';
 import { ProductModal } from './components/ProductModal';
 import { AdminView } from './components/AdminView';
@@ -16,55 +41,133 @@ import { CheckoutView } from './components/CheckoutView';
 import { OrderConfirmationView } from './components/OrderConfirmationView';
 import { LoginModal } from './components/LoginModal';
 import { Footer } from './components/Footer';
+import { AdminSectionNav } from './components/AdminSectionNav';
+import { AdminOrdersPanel } from './components/AdminOrdersPanel';
+import { AdminCustomersPanel } from './components/AdminCustomersPanel';
+import { AdminAuditLogPanel } from './components/AdminAuditLogPanel';
+import { AdminAnalyticsPanel } from './components/AdminAnalyticsPanel';
+import { AdminInboxPanel } from './components/AdminInboxPanel';
+import { AdminPricingPanel } from './components/AdminPricingPanel';
+import { AdminReviewsPanel } from './components/AdminReviewsPanel';
+import { AdminCatalogTransferPanel } from './components/AdminCatalogTransferPanel';
+import { AdminBannersPanel } from './components/AdminBannersPanel';
+import { BannerCarousel } from './components/BannerCarousel';
+import { CartNotices } from './components/CartNotices';
+import { AdminNotificationsPanel } from './components/AdminNotificationsPanel';
+import { SavedForLater } from './components/SavedForLater';
+import { ProductReviews } from './components/ProductReviews';
+import { OrderSummary } from './components/OrderSummary';
+import { ContactForm } from './components/ContactForm';
+import { CustomerAuthModal } from './components/CustomerAuthModal';
+import { HighlightedText } from './components/HighlightedText';
+import { PriceRangeFilter } from './components/PriceRangeFilter';
+import { VariantPicker } from './components/VariantPicker';
+import { CustomerOrders } from './components/CustomerOrders';
+import { ProductRecommendations } from './components/ProductRecommendations';
+import { ShoppingAssistant } from './components/ShoppingAssistant';
+import { OrderTimeline } from './components/OrderTimeline';
 
 
-type View = 'store' | 'admin' | 'dashboard' | 'checkout' | 'confirmation' | 'contact';
+const productSource = getProductSource();
+const initialRoute = parseRoute(window.location.search);
+
+type AdminSectionId = 'notifications' | 'catalog' | 'import' | 'orders' | 'customers' | 'inbox' | 'reviews' | 'banners' | 'pricing' | 'analytics' | 'audit';
+
+// Sections with a permission are hidden from roles that lack it.
+const ADMIN_SECTIONS: { id: AdminSectionId; permission?: Permission }[] = [
+  { id: 'catalog' },
+  { id: 'notifications' },
+  { id: 'import' },
+  { id: 'orders', permission: 'order:view' },
+  { id: 'customers', permission: 'user:view' },
+  { id: 'inbox', permission: 'ticket:manage' },
+  { id: 'reviews', permission: 'review:moderate' },
+  { id: 'banners', permission: 'banner:manage' },
+  { id: 'pricing', permission: 'pricing:manage' },
+  { id: 'analytics', permission: 'analytics:view' },
+  { id: 'audit', permission: 'audit:view' },
+];
 
 const App: React.FC = () => {
   // Core State
   const [products, setProducts] = useState<Product[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
-  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
-  const [view, setView] = useState<View>('store');
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [selectedProductId, setSelectedProductId] = useState<string | null>(initialRoute.productId);
+  const [view, setView] = useState<View>(initialRoute.view);
   const [isCartOpen, setIsCartOpen] = useState(false);
   const [isLoginModalOpen, setLoginModalOpen] = useState(false);
-  const [lastOrderId, setLastOrderId] = useState<string | null>(null);
+  const [isCustomerAuthOpen, setCustomerAuthOpen] = useState(false);
+  // The order on the confirmation page, or the one open in the account's order history.
+  const [activeOrderId, setActiveOrderId] = useState<string | null>(initialRoute.orderId);
+  // Orders placed in this session; a guest can see their own confirmation details without an account.
+  const [placedOrderIds, setPlacedOrderIds] = useState<string[]>([]);
   const [isMobileMenuOpen, setMobileMenuOpen] = useState(false);
-  const [adminNotifications, setAdminNotifications] = useState<AdminNotification[]>([]);
+  const [adminSection, setAdminSection] = useState<AdminSectionId>('catalog');
+  const [checkoutErrors, setCheckoutErrors] = useState<string[]>([]);
+  const [adminError, setAdminError] = useState<string | null>(null);
+  // null once the shopper picks "other regions"; undefined until they pick anything.
+  const [checkoutRegion, setCheckoutRegion] = useState<string | null | undefined>(undefined);
+  const [appliedCouponCode, setAppliedCouponCode] = useState<string | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
 
   // Hooks
-  const { wishlist, toggleWishlist, isWishlisted } = useWishlist();
+  const { t, locale, setLocale, formatCurrency, displayCurrency, displayCurrencies, setDisplayCurrency, updateCurrencySettings } = useI18n();
+  const customerAuth = useCustomerAuth();
+  const { wishlist, toggleWishlist, isWishlisted } = useWishlist(customerAuth.customer?.id ?? null);
   const auth = useAuth();
-  const { itemCount, clearCart } = useCart();
+  const isSignedIn = auth.isLoggedIn || customerAuth.isSignedIn;
+  const { cartItems, itemCount, clearCart, addToCart, syncCatalog, setCartOwner, notices: cartNotices } = useCart();
   const [theme, toggleTheme] = useDarkMode();
+  const { orders, placeOrder, changeOrderStatus, cancelOrder, requestReturn, resolveReturn } = useOrders();
+  const { users, reloadUsers, changeUserStatus, recordOrder } = useUsers();
+  const { auditLog, record: recordAudit } = useAuditLog();
+  const { tickets, submit: submitTicket, reply: replyToTicket, changeStatus: changeTicketStatus } = useTickets();
+  const { reviews, submit: submitReview, moderate: moderateReview } = useReviews();
+  const notificationCenter = useNotifications(auth.isLoggedIn ? auth.user : null, auth.role);
+  const { banners, stats: bannerStats, save: saveBanner, remove: removeBanner, trackImpression, trackClick } = useBanners();
+  const { settings: pricingSettings, updateSettings: updatePricingSettings, coupons, saveCoupon, deleteCoupon, redeem: redeemCoupon } = usePricing();
 
   // Filter and Sort State
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
-  const [selectedBrands, setSelectedBrands] = useState<string[]>([]);
-  const [priceRange, setPriceRange] = useState<[number, number]>([0, Infinity]);
-  const [minRating, setMinRating] = useState(0);
-  const [sortBy, setSortBy] = useState('relevance');
-  
-  // Fetch notifications for header badge
+  const [searchTerm, setSearchTerm] = useState(initialRoute.filters.searchTerm);
+  const [selectedCategories, setSelectedCategories] = useState<string[]>(initialRoute.filters.selectedCategories);
+  const [selectedBrands, setSelectedBrands] = useState<string[]>(initialRoute.filters.selectedBrands);
+  const [priceRange, setPriceRange] = useState<[number, number]>(initialRoute.filters.priceRange);
+  const [minRating, setMinRating] = useState(initialRoute.filters.minRating);
+  const [sortBy, setSortBy] = useState(initialRoute.filters.sortBy);
+  const [inStockOnly, setInStockOnly] = useState(initialRoute.filters.inStockOnly);
+
+  // URL sync: filters, view and the open product all round-trip through the query string.
+  const applyRoute = useCallback((route: AppRoute) => {
+    setView(route.view);
+    setSelectedProductId(route.productId);
+    setActiveOrderId(route.orderId);
+    setSearchTerm(route.filters.searchTerm);
+    setSelectedCategories(route.filters.selectedCategories);
+    setSelectedBrands(route.filters.selectedBrands);
+    setPriceRange(route.filters.priceRange);
+    setMinRating(route.filters.minRating);
+    setSortBy(route.filters.sortBy);
+    setInStockOnly(route.filters.inStockOnly);
+  }, []);
+
+  useUrlRoute({
+    view,
+    filters: { searchTerm, selectedCategories, selectedBrands, priceRange, minRating, sortBy, inStockOnly },
+    productId: selectedProductId,
+    orderId: activeOrderId,
+  }, applyRoute);
+
+  // Admin links only resolve for staff; everyone else is sent to the store and asked to log in.
   useEffect(() => {
-    if (auth.isLoggedIn && auth.role) {
-      const fetchNotifs = async () => {
-        try {
-          const notifs = await generateNotifications();
-          setAdminNotifications(notifs);
-        } catch (err) {
-          console.error("Failed to fetch admin notifications for header", err);
-        }
-      };
-      fetchNotifs();
-    } else {
-      setAdminNotifications([]);
+    if (view === 'admin' && !(auth.isLoggedIn && auth.role)) {
+      setView('store');
+      setLoginModalOpen(true);
     }
-  }, [auth.isLoggedIn, auth.role]);
-
-  const unreadNotifCount = useMemo(() => adminNotifications.filter(n => !n.isRead).length, [adminNotifications]);
+  }, [view, auth.isLoggedIn, auth.role]);
+  
+  // Header badge: unread notifications raised by real store events, per admin.
+  const unreadNotifCount = notificationCenter.unreadCount;
 
   // Fetch initial products
   useEffect(() => {
@@ -73,10 +176,10 @@ const App: React.FC = () => {
         try {
           setIsLoading(true);
           setError(null);
-          const generatedProducts = await generateProducts();
-          setProducts(generatedProducts);
+          const loadedProducts = await loadCatalog(productSource);
+          setProducts(loadedProducts);
         } catch (err) {
-          setError("Failed to load products. Please check your API key and network connection.");
+          setError(productSource.id === 'gemini' ? 'store.loadErrorGemini' : 'store.loadErrorLocal');
           console.error(err);
         } finally {
           setIsLoading(false);
@@ -85,7 +188,29 @@ const App: React.FC = () => {
       fetchProducts();
     }
   }, [products.length]);
+
+  // Keep the cached catalog in step with stock and admin edits so a reload restores them.
+  useEffect(() => {
+    if (products.length > 0) {
+      saveCatalog(productSource, products);
+    }
+  }, [products]);
   
+  // The cart stores only ids and quantities; it prices and stock-checks itself against this catalog.
+  useEffect(() => {
+    syncCatalog(products);
+  }, [products, syncCatalog]);
+
+  // Each customer has their own cart; signing in brings the guest cart along.
+  useEffect(() => {
+    setCartOwner(customerAuth.customer?.id ?? null);
+  }, [customerAuth.customer?.id, setCartOwner]);
+
+  // Pick up sign-ups and order counts from the storefront each time the admin area opens.
+  useEffect(() => {
+    if (view === 'admin') reloadUsers();
+  }, [view, reloadUsers]);
+
   // Close cart and mobile menu when view changes
   useEffect(() => {
     setIsCartOpen(false);
@@ -96,9 +221,15 @@ const App: React.FC = () => {
   const categories = useMemo(() => Array.from(new Set(products.map(p => p.category))), [products]);
   const brands = useMemo(() => Array.from(new Set(products.map(p => p.brand))), [products]);
 
+  // Shoppers see ratings averaged from approved reviews; the stored catalog keeps its own rating as the fallback.
+  const ratedProducts = useMemo(() => applyReviewRatings(products, reviews), [products, reviews]);
+  // Names and descriptions in the shopper's language, for display and search only; the cart and orders keep the catalog's own text.
+  const { localizedProducts, isTranslating } = useProductCopy(ratedProducts, locale);
+  const selectedProduct = useMemo(() => localizedProducts.find(p => p.id === selectedProductId) ?? null, [localizedProducts, selectedProductId]);
+
   // Event Handlers
-  const handleSelectProduct = useCallback((product: Product) => setSelectedProduct(product), []);
-  const handleCloseModal = useCallback(() => setSelectedProduct(null), []);
+  const handleSelectProduct = useCallback((product: Product) => setSelectedProductId(product.id), []);
+  const handleCloseModal = useCallback(() => setSelectedProductId(null), []);
   const handleToggleWishlist = useCallback((productId: string) => toggleWishlist(productId), [toggleWishlist]);
   
   const handleCategoryChange = (category: string) => {
@@ -110,66 +241,394 @@ const App: React.FC = () => {
   
   const handleCheckout = () => setView('checkout');
 
-  const handlePlaceOrder = () => {
-      const orderId = `ORD-${Date.now()}-${Math.random().toString(36).substr(2, 5).toUpperCase()}`;
-      setLastOrderId(orderId);
-      clearCart();
-      setView('confirmation');
+  // Pricing: the applied coupon is re-checked whenever the cart changes, so a
+  // coupon whose minimum order is no longer met simply stops applying.
+  const cartSubtotal = cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const appliedCoupon = appliedCouponCode ? findCoupon(coupons, appliedCouponCode) : undefined;
+  const appliedCouponError = appliedCouponCode ? getCouponError(appliedCoupon, cartSubtotal) : null;
+  const checkoutBreakdown = useMemo(
+      () => calculatePriceBreakdown(cartItems, pricingSettings, { region: checkoutRegion ?? undefined, coupon: appliedCouponError ? undefined : appliedCoupon }),
+      [cartItems, pricingSettings, checkoutRegion, appliedCoupon, appliedCouponError]
+  );
+
+  const handleApplyCoupon = (code: string) => {
+      const message = getCouponError(findCoupon(coupons, code), cartSubtotal);
+      setCouponError(message);
+      setAppliedCouponCode(message ? null : findCoupon(coupons, code)!.code);
+  };
+
+  const handleRemoveCoupon = () => {
+      setAppliedCouponCode(null);
+      setCouponError(null);
+  };
+
+  // Each admin reads notifications in their own language; the English text is stored as a fallback.
+  const notify = (event: Omit<NotificationEvent, 'message' | 'messageKey'> & { messageKey: MessageKey }) =>
+      notificationCenter.emit({ ...event, message: translate('en', event.messageKey, event.messageParams) });
+
+  const notifyLowStock = (before: Product[], after: Product[]) => {
+      findNewLowStock(before, after).forEach(line => notify({
+          type: 'stock',
+          groupKey: `stock:${line.key}`,
+          link: 'catalog',
+          messageKey: line.stock === 0 ? 'notifications.event.outOfStock' : 'notifications.event.lowStock',
+          messageParams: { name: line.name, stock: line.stock },
+      }));
+  };
+
+  // CheckoutView may hand back the customer's details; fall back to the signed-in name.
+  // The order is charged exactly the breakdown the summary shows, so a region
+  // that only turns up now (e.g. from the address) is shown first, not charged.
+  const handlePlaceOrder = (details?: CheckoutDetails) => {
+      const customer = customerAuth.customer ? customerAuth.refreshCustomer() : null;
+      if (customerAuth.customer && !customer) {
+          setCheckoutErrors([t('checkout.blocked')]);
+          return;
+      }
+      // A changed price has to be acknowledged before the order goes through at it.
+      if (cartNotices.some(notice => notice.type === 'price_changed')) {
+          setCheckoutErrors([t('checkout.priceChangesPending')]);
+          return;
+      }
+      const shippingAddress = details?.shippingAddress ?? '';
+      // A region picked in the summary wins over the one from the shopper's details.
+      const region = checkoutRegion !== undefined ? checkoutRegion ?? undefined : details?.region ?? detectRegion(pricingSettings, shippingAddress);
+      if (region !== checkoutBreakdown.taxRegion) {
+          setCheckoutRegion(region ?? null);
+          setCheckoutErrors([t('checkout.regionChanged', { region: region ?? t('summary.otherRegion') })]);
+          return;
+      }
+      const stockIssues = validateCartStock(cartItems, products);
+      if (stockIssues.length > 0) {
+          setCheckoutErrors(stockIssues.map(issue => issue.message));
+          return;
+      }
+      try {
+          setCheckoutErrors([]);
+          const nextProducts = decrementStock(products, cartItems.map(item => ({ productId: item.id, quantity: item.quantity, variantId: item.variantId })));
+          const breakdown = checkoutBreakdown;
+          const order = placeOrder(cartItems, {
+              customerName: details?.customerName || customer?.name || auth.user || t('checkout.guestName'),
+              shippingAddress,
+              customerId: customer?.id,
+              region,
+          }, breakdown);
+          if (breakdown.couponCode) redeemCoupon(breakdown.couponCode);
+          notify({ type: 'order', groupKey: 'order:new', link: 'orders', messageKey: 'notifications.event.newOrder', messageParams: { id: order.id, customer: order.customerName, total: formatCurrency(order.total, getOrderCurrency(order)) } });
+          notifyLowStock(products, nextProducts);
+          setAppliedCouponCode(null);
+          setProducts(nextProducts);
+          if (customer) recordOrder(customer.id);
+          setPlacedOrderIds(prev => [...prev, order.id]);
+          setActiveOrderId(order.id);
+          clearCart();
+          setView('confirmation');
+      } catch (err) {
+          setCheckoutErrors([err instanceof Error ? err.message : t('checkout.failed')]);
+          console.error(err);
+      }
+  };
+
+  // Cancelled and refunded orders put their items back on the shelf. Every way an
+  // order gets there (admin status change, customer cancel, approved return) comes
+  // through here; `change` is the stored update, defaulting to a plain status change.
+  const handleChangeOrderStatus = (orderId: string, status: OrderStatus, change = () => changeOrderStatus(orderId, status)) => {
+      const order = orders.find(o => o.id === orderId);
+      change();
+      if (order && (status === 'cancelled' || status === 'refunded')) {
+          const skipped = findUnrestockableLines(products, order.itemsList);
+          if (skipped.length > 0) {
+              notify({ type: 'stock', groupKey: `stock:restock:${order.id}`, link: 'catalog', messageKey: 'notifications.event.restockSkipped', messageParams: { id: order.id, items: skipped.map(item => item.productName).join(', ') } });
+          }
+          setProducts(prev => restock(prev, order.itemsList));
+      }
+  };
+
+  // Customer order actions throw with a message the order history shows in place.
+  const customerOrders = useMemo(() => customerAuth.customer ? orders.filter(o => o.customerId === customerAuth.customer!.id) : [], [orders, customerAuth.customer]);
+
+  const requireCustomer = () => {
+      if (!customerAuth.customer) throw new Error(t('account.signInRequired'));
+      return customerAuth.customer;
+  };
+
+  const handleCustomerCancelOrder = (orderId: string) => {
+      const customer = requireCustomer();
+      const order = customerOrders.find(o => o.id === orderId);
+      handleChangeOrderStatus(orderId, 'cancelled', () => cancelOrder(orderId, customer.id));
+      if (order) notify({ type: 'order', groupKey: 'order:cancelled', link: 'orders', messageKey: 'notifications.event.orderCancelled', messageParams: { id: order.id, customer: order.customerName } });
+  };
+
+  const handleCustomerRequestReturn = (orderId: string, reason: string) => {
+      const customer = requireCustomer();
+      requestReturn(orderId, customer.id, reason);
+      notify({ type: 'order', groupKey: 'order:return', link: 'orders', messageKey: 'notifications.event.returnRequested', messageParams: { id: orderId, customer: customer.name, reason: reason.trim() } });
+  };
+
+  // Reordered items go in at today's price, limited to what's in stock.
+  const handleReorder = (order: Order) => {
+      const plan = planReorder(order, products, cartItems);
+      plan.lines.forEach(line => addToCart(line.product, line.quantity, line.variantId));
+      if (plan.lines.length > 0) setIsCartOpen(true);
+      return plan;
+  };
+
+  // The assistant works on the localized catalog; the cart takes the stored product.
+  const handleAssistantAddToCart = (action: AssistantCartAction) => {
+      const product = products.find(p => p.id === action.productId);
+      return product ? addToCart(product, action.quantity, action.variantId) : 0;
+  };
+
+  // Admin mutations: every change is checked against the role's permissions and written to the audit log.
+  const productsRef = useRef(products);
+  productsRef.current = products;
+  const staffName = auth.user || t('admin.staffName');
+  // Every handler checks its permission first, and that check already fails without a role.
+  const recordAdminAudit = (entries: Omit<NewAuditEntry, 'actor' | 'role'>[]) => {
+      const role = auth.role;
+      if (!role) throw new Error(t('admin.signInRequired'));
+      recordAudit(entries.map(entry => ({ ...entry, actor: staffName, role })));
+  };
+
+  // Returns why the change was refused, or null once it's saved.
+  const handleAdminSetProducts = (action: React.SetStateAction<Product[]>): string | null => {
+      const previous = productsRef.current;
+      const next = typeof action === 'function' ? action(previous) : action;
+      const changes = diffProducts(previous, next);
+      const denied = changes.flatMap(permissionsForProductChange).find(permission => !can(auth.role, permission));
+      if (denied) {
+          const message = t('admin.notAllowed', { role: auth.role, permission: denied });
+          setAdminError(message);
+          return message;
+      }
+      setAdminError(null);
+      productsRef.current = next;
+      setProducts(next);
+      notifyLowStock(previous, next);
+      recordAdminAudit(changes.map(change => ({
+          entityType: 'product',
+          entityId: change.product.id,
+          action: change.type === 'create' ? 'created' : change.type === 'delete' ? 'deleted' : 'updated',
+          details: change.type === 'update' ? `${change.product.name}: changed ${change.changedFields.join(', ')}` : change.product.name,
+      })));
+      return null;
+  };
+
+  const handleAdminChangeOrderStatus = (orderId: string, status: OrderStatus) => {
+      assertCan(auth.role, 'order:update');
+      const previousStatus = orders.find(o => o.id === orderId)?.status;
+      handleChangeOrderStatus(orderId, status, () => changeOrderStatus(orderId, status, staffName));
+      recordAdminAudit([{ entityType: 'order', entityId: orderId, action: 'updated', details: `Status ${previousStatus} → ${status}` }]);
+  };
+
+  // Approving a return refunds the order, which restocks it like any other refund.
+  const handleAdminResolveReturn = (orderId: string, approve: boolean) => {
+      assertCan(auth.role, 'order:update');
+      const resolve = () => resolveReturn(orderId, approve, staffName);
+      if (approve) handleChangeOrderStatus(orderId, 'refunded', resolve);
+      else resolve();
+      recordAdminAudit([{ entityType: 'order', entityId: orderId, action: 'updated', details: approve ? 'Return approved, order refunded' : 'Return declined' }]);
+  };
+
+  const handleAdminChangeUserStatus = (userId: string, status: UserStatus) => {
+      try {
+          assertCan(auth.role, 'user:manage');
+          changeUserStatus(userId, status);
+          recordAdminAudit([{ entityType: 'user', entityId: userId, action: 'updated', details: `Status set to ${status}` }]);
+      } catch (err) {
+          setAdminError(err instanceof Error ? err.message : String(err));
+      }
+  };
+
+  const handleAdminUpdatePricing = (settings: PricingSettings) => {
+      try {
+          assertCan(auth.role, 'pricing:manage');
+          updatePricingSettings(settings);
+          recordAdminAudit([{ entityType: 'pricing', entityId: 'settings', action: 'updated', details: 'Tax and shipping rates' }]);
+      } catch (err) {
+          setAdminError(err instanceof Error ? err.message : String(err));
+      }
   };
 
+  const handleAdminUpdateCurrency = (settings: CurrencySettings) => {
+      assertCan(auth.role, 'pricing:manage');
+      updateCurrencySettings(settings);
+      recordAdminAudit([{ entityType: 'pricing', entityId: 'currency', action: 'updated', details: `Store currency ${settings.storeCurrency}; display rates ${Object.entries(settings.displayRates).map(([code, rate]) => `${code} ${rate}`).join(', ') || 'none'}` }]);
+  };
+
+  const handleAdminSaveCoupon = (coupon: Coupon, previousCode?: string) => {
+      try {
+          assertCan(auth.role, 'pricing:manage');
+          const exists = !!findCoupon(coupons, previousCode ?? coupon.code);
+          const code = coupon.code.trim().toUpperCase();
+          const renamed = previousCode !== undefined && previousCode !== code;
+          saveCoupon(coupon, previousCode);
+          recordAdminAudit([{ entityType: 'pricing', entityId: code, action: exists ? 'updated' : 'created', details: `Coupon ${coupon.isActive ? 'active' : 'inactive'}${renamed ? `, renamed from ${previousCode}` : ''}` }]);
+      } catch (err) {
+          setAdminError(err instanceof Error ? err.message : String(err));
+      }
+  };
+
+  const handleAdminDeleteCoupon = (code: string) => {
+      try {
+          assertCan(auth.role, 'pricing:manage');
+          deleteCoupon(code);
+          recordAdminAudit([{ entityType: 'pricing', entityId: code, action: 'deleted', details: 'Coupon' }]);
+      } catch (err) {
+          setAdminError(err instanceof Error ? err.message : String(err));
+      }
+  };
+
+  const handleAdminModerateReview = (reviewId: string, status: ReviewStatus) => {
+      try {
+          assertCan(auth.role, 'review:moderate');
+          moderateReview(reviewId, status, staffName);
+          const review = reviews.find(r => r.id === reviewId);
+          recordAdminAudit([{ entityType: 'review', entityId: reviewId, action: 'updated', details: `${review ? `${review.username}'s review: ` : ''}${review?.status ?? 'unknown'} → ${status}` }]);
+      } catch (err) {
+          setAdminError(err instanceof Error ? err.message : String(err));
+      }
+  };
+
+  const handleAdminSaveBanner = (banner: Banner) => {
+      assertCan(auth.role, 'banner:manage');
+      const exists = banners.some(b => b.id === banner.id);
+      saveBanner(banner);
+      recordAdminAudit([{ entityType: 'banner', entityId: banner.id, action: exists ? 'updated' : 'created', details: banner.title }]);
+  };
+
+  const handleAdminDeleteBanner = (bannerId: string) => {
+      try {
+          assertCan(auth.role, 'banner:manage');
+          const banner = banners.find(b => b.id === bannerId);
+          removeBanner(bannerId);
+          recordAdminAudit([{ entityType: 'banner', entityId: bannerId, action: 'deleted', details: banner?.title ?? '' }]);
+      } catch (err) {
+          setAdminError(err instanceof Error ? err.message : String(err));
+      }
+  };
+
+  const handleAdminReplyToTicket = (ticketId: string, message: string) => {
+      assertCan(auth.role, 'ticket:manage');
+      replyToTicket(ticketId, staffName, message);
+      recordAdminAudit([{ entityType: 'ticket', entityId: ticketId, action: 'updated', details: 'Replied to customer' }]);
+  };
+
+  const handleAdminChangeTicketStatus = (ticketId: string, status: TicketStatus) => {
+      try {
+          assertCan(auth.role, 'ticket:manage');
+          const previousStatus = tickets.find(t => t.id === ticketId)?.status;
+          changeTicketStatus(ticketId, status);
+          recordAdminAudit([{ entityType: 'ticket', entityId: ticketId, action: 'updated', details: `Status ${previousStatus} → ${status}` }]);
+      } catch (err) {
+          setAdminError(err instanceof Error ? err.message : String(err));
+      }
+  };
+
+  const handleContactSubmit = (submission: ContactSubmission) => {
+      const ticket = submitTicket(submission, customerAuth.customer?.id);
+      if (ticket) notify({ type: 'message', groupKey: 'message:new', link: 'inbox', messageKey: 'notifications.event.message', messageParams: { name: ticket.name, excerpt: ticket.message.length > 60 ? `${ticket.message.slice(0, 60)}…` : ticket.message } });
+  };
+
+  const handleSubmitReview = (productId: string, rating: number, comment: string) => {
+      if (!customerAuth.customer) throw new Error(t('reviews.signInRequired'));
+      const review = submitReview({ productId, rating, comment }, customerAuth.customer, orders);
+      const productName = products.find(p => p.id === productId)?.name ?? t('notifications.unknownProduct');
+      notify({ type: 'review', groupKey: 'review:pending', link: 'reviews', messageKey: 'notifications.event.review', messageParams: { name: review.username, rating: review.rating, product: productName } });
+  };
+
+  const handleOpenNotification = (notification: AdminNotification) => {
+      notificationCenter.markRead([notification.id]);
+      const section = visibleAdminSections.find(s => s.id === notification.link);
+      if (section) setAdminSection(section.id);
+  };
+
+  const visibleAdminSections = ADMIN_SECTIONS.filter(s => !s.permission || can(auth.role, s.permission));
+  // A section chosen under another role (e.g. before signing out and back in as an editor) falls back to the catalog.
+  const currentAdminSection = visibleAdminSections.some(s => s.id === adminSection) ? adminSection : 'catalog';
+
   const handleLoginSuccess = () => {
       setLoginModalOpen(false);
       setView('admin');
   }
 
-  // Main product filtering and sorting logic
+  // A customer's cart stays saved under their account, so signing out leaves the next person an empty guest cart.
+  const handleLogout = () => {
+      if (auth.isLoggedIn) auth.logout();
+      if (customerAuth.isSignedIn) customerAuth.logout();
+      setView('store');
+  };
+
+  const handleOpenAdminLogin = () => {
+      setCustomerAuthOpen(false);
+      setLoginModalOpen(true);
+  };
+
+  // Search
+  const searchIndex = useMemo(() => buildSearchIndex(localizedProducts), [localizedProducts]);
+  const searchResults = useMemo(() => searchProducts(searchIndex, searchTerm), [searchIndex, searchTerm]);
+
+  // Main product filtering and sorting logic. A facet can be left out so the
+  // sidebar counts show what each checkbox would yield given the other filters.
+  const filterProducts = useCallback((ignoreFacet?: 'category' | 'brand' | 'price') => {
+    return localizedProducts.filter(p => {
+      const matchesSearch = !searchResults || searchResults.has(p.id);
+      const matchesCategory = ignoreFacet === 'category' || selectedCategories.length === 0 || selectedCategories.includes(p.category);
+      const matchesBrand = ignoreFacet === 'brand' || selectedBrands.length === 0 || selectedBrands.includes(p.brand);
+      // A product with variants matches if any variant a shopper could buy is in range.
+      const matchesPrice = ignoreFacet === 'price' || getPurchasablePrices(p).some(price => isInPriceRange(price, priceRange));
+      const matchesRating = p.rating >= minRating;
+      const matchesStock = !inStockOnly || isInStock(p);
+      return matchesSearch && matchesCategory && matchesBrand && matchesPrice && matchesRating && matchesStock;
+    });
+  }, [localizedProducts, searchResults, selectedCategories, selectedBrands, priceRange, minRating, inStockOnly]);
+
   const filteredAndSortedProducts = useMemo(() => {
-    return products
-      .filter(p => {
-        const matchesSearch = p.name.toLowerCase().includes(searchTerm.toLowerCase());
-        const matchesCategory = selectedCategories.length === 0 || selectedCategories.includes(p.category);
-        const matchesBrand = selectedBrands.length === 0 || selectedBrands.includes(p.brand);
-        const matchesPrice = p.price >= priceRange[0] && p.price <= priceRange[1];
-        const matchesRating = p.rating >= minRating;
-        return matchesSearch && matchesCategory && matchesBrand && matchesPrice && matchesRating;
-      })
+    return filterProducts()
       .sort((a, b) => {
         switch (sortBy) {
-          case 'price_asc': return a.price - b.price;
-          case 'price_desc': return b.price - a.price;
+          case 'price_asc': return getPriceRange(a)[0] - getPriceRange(b)[0];
+          case 'price_desc': return getPriceRange(b)[1] - getPriceRange(a)[1];
           case 'rating_desc': return b.rating - a.rating;
-          default: return 0; // 'relevance' - no specific sort
+          default: // 'relevance' - best search score first, catalog order otherwise
+            return searchResults ? (searchResults.get(b.id)?.score ?? 0) - (searchResults.get(a.id)?.score ?? 0) : 0;
         }
       });
-  }, [products, searchTerm, selectedCategories, selectedBrands, priceRange, minRating, sortBy]);
+  }, [filterProducts, searchResults, sortBy]);
+
+  const categoryCounts = useMemo(() => countFacet(filterProducts('category'), 'category'), [filterProducts]);
+  const brandCounts = useMemo(() => countFacet(filterProducts('brand'), 'brand'), [filterProducts]);
+  const catalogPrices = useMemo(() => products.flatMap(getPurchasablePrices), [products]);
+  const matchingPrices = useMemo(() => filterProducts('price').flatMap(getPurchasablePrices), [filterProducts]);
   
   const renderStoreView = () => (
     <>
       <main className="container mx-auto p-4 sm:p-6 lg:p-8">
+        <BannerCarousel banners={selectBanners(banners, { placement: 'store_header', categories: selectedCategories })} onImpression={trackImpression} onClick={trackClick} className="mb-8" />
         <div className="mb-8 p-6 bg-white dark:bg-gray-800 rounded-lg shadow">
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 items-end">
             {/* Search */}
             <div className="lg:col-span-2">
-              <label htmlFor="search" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Search Products</label>
-              <input type="text" id="search" placeholder="Enter product name..." value={searchTerm} onChange={e => setSearchTerm(e.target.value)} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2" />
+              <label htmlFor="search" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('store.searchLabel')}</label>
+              <input type="text" id="search" placeholder={t('store.searchPlaceholder')} value={searchTerm} onChange={e => setSearchTerm(e.target.value)} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2" />
             </div>
             {/* Sort */}
             <div>
-              <label htmlFor="sort" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Sort by</label>
+              <label htmlFor="sort" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('store.sortBy')}</label>
               <select id="sort" value={sortBy} onChange={e => setSortBy(e.target.value)} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2">
-                <option value="relevance">Relevance</option>
-                <option value="price_asc">Price: Low to High</option>
-                <option value="price_desc">Price: High to Low</option>
-                <option value="rating_desc">Highest Rating</option>
+                <option value="relevance">{t('store.sort.relevance')}</option>
+                <option value="price_asc">{t('store.sort.priceAsc')}</option>
+                <option value="price_desc">{t('store.sort.priceDesc')}</option>
+                <option value="rating_desc">{t('store.sort.ratingDesc')}</option>
               </select>
             </div>
              {/* Rating */}
             <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Rating</label>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('store.rating')}</label>
                 <div className="flex items-center gap-2 mt-2">
                     {[4, 3, 2, 1].map(r => (
                         <button key={r} onClick={() => setMinRating(minRating === r ? 0 : r)} className={`flex items-center gap-1 text-xs px-2 py-1 rounded-full border ${minRating === r ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white dark:bg-gray-700 dark:border-gray-600 dark:hover:bg-gray-600 hover:bg-gray-100'}`}>
-                            {r} <StarRating rating={1} className="text-yellow-400" /> & up
+                            {r} <StarRating rating={1} className="text-yellow-400" /> {t('store.ratingAndUp')}
                         </button>
                     ))}
                 </div>
@@ -182,33 +641,39 @@ const App: React.FC = () => {
             <aside className="w-1/4 xl:w-1/5 hidden md:block">
                  <div className="space-y-6">
                      <div>
-                        <h3 className="font-semibold text-lg mb-3 dark:text-gray-200">Category</h3>
+                        <h3 className="font-semibold text-lg mb-3 dark:text-gray-200">{t('store.category')}</h3>
                         <div className="space-y-2">
-                            {categories.map(c => <label key={c} className="flex items-center"><input type="checkbox" checked={selectedCategories.includes(c)} onChange={() => handleCategoryChange(c)} className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-indigo-600 focus:ring-indigo-500 bg-gray-100 dark:bg-gray-700" /> <span className="ml-3 text-sm text-gray-600 dark:text-gray-400">{c}</span></label>)}
+                            {categories.map(c => <label key={c} className="flex items-center"><input type="checkbox" checked={selectedCategories.includes(c)} onChange={() => handleCategoryChange(c)} className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-indigo-600 focus:ring-indigo-500 bg-gray-100 dark:bg-gray-700" /> <span className="ml-3 text-sm text-gray-600 dark:text-gray-400">{c}</span><span className="ml-auto text-xs text-gray-400 dark:text-gray-500">{categoryCounts.get(c) ?? 0}</span></label>)}
                         </div>
                      </div>
                      <div>
-                        <h3 className="font-semibold text-lg mb-3 dark:text-gray-200">Brand</h3>
+                        <h3 className="font-semibold text-lg mb-3 dark:text-gray-200">{t('store.brand')}</h3>
                         <div className="space-y-2">
-                            {brands.map(b => <label key={b} className="flex items-center"><input type="checkbox" checked={selectedBrands.includes(b)} onChange={() => handleBrandChange(b)} className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-indigo-600 focus:ring-indigo-500 bg-gray-100 dark:bg-gray-700" /> <span className="ml-3 text-sm text-gray-600 dark:text-gray-400">{b}</span></label>)}
+                            {brands.map(b => <label key={b} className="flex items-center"><input type="checkbox" checked={selectedBrands.includes(b)} onChange={() => handleBrandChange(b)} className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-indigo-600 focus:ring-indigo-500 bg-gray-100 dark:bg-gray-700" /> <span className="ml-3 text-sm text-gray-600 dark:text-gray-400">{b}</span><span className="ml-auto text-xs text-gray-400 dark:text-gray-500">{brandCounts.get(b) ?? 0}</span></label>)}
                         </div>
                      </div>
                       <div>
-                        <h3 className="font-semibold text-lg mb-3 dark:text-gray-200">Price Range</h3>
-                        <div className="space-y-2">
-                            <button onClick={()=>setPriceRange([0, 50])} className={`w-full text-left p-2 rounded text-sm dark:text-gray-300 ${priceRange[1] === 50 ? 'bg-indigo-100 dark:bg-indigo-900/50' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}>Under $50</button>
-                            <button onClick={()=>setPriceRange([50, 200])} className={`w-full text-left p-2 rounded text-sm dark:text-gray-300 ${priceRange[0] === 50 ? 'bg-indigo-100 dark:bg-indigo-900/50' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}>$50 to $200</button>
-                            <button onClick={()=>setPriceRange([200, 1000])} className={`w-full text-left p-2 rounded text-sm dark:text-gray-300 ${priceRange[0] === 200 ? 'bg-indigo-100 dark:bg-indigo-900/50' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}>$200 to $1000</button>
-                            <button onClick={()=>setPriceRange([1000, Infinity])} className={`w-full text-left p-2 rounded text-sm dark:text-gray-300 ${priceRange[0] === 1000 ? 'bg-indigo-100 dark:bg-indigo-900/50' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}>Over $1000</button>
-                             <button onClick={()=>setPriceRange([0, Infinity])} className={`w-full text-left p-2 rounded text-sm dark:text-gray-300 ${priceRange[1] === Infinity ? 'font-bold' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}>All Prices</button>
-                        </div>
+                        <h3 className="font-semibold text-lg mb-3 dark:text-gray-200">{t('store.priceRange')}</h3>
+                        <PriceRangeFilter catalogPrices={catalogPrices} matchingPrices={matchingPrices} value={priceRange} onChange={setPriceRange} />
+                     </div>
+                     <div>
+                        <h3 className="font-semibold text-lg mb-3 dark:text-gray-200">{t('store.availability')}</h3>
+                        <label className="flex items-center"><input type="checkbox" checked={inStockOnly} onChange={() => setInStockOnly(prev => !prev)} className="h-4 w-4 rounded border-gray-300 dark:border-gray-600 text-indigo-600 focus:ring-indigo-500 bg-gray-100 dark:bg-gray-700" /> <span className="ml-3 text-sm text-gray-600 dark:text-gray-400">{t('store.inStockOnly')}</span></label>
                      </div>
                  </div>
             </aside>
 
             {/* Product Grid */}
             <div className="flex-1">
-                <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">{`Showing ${filteredAndSortedProducts.length} of ${products.length} products`}</p>
+                {selectedCategories.length > 0 && (
+                    <BannerCarousel banners={selectBanners(banners, { placement: 'category', categories: selectedCategories })} onImpression={trackImpression} onClick={trackClick} className="mb-6" />
+                )}
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                    {t('store.showing', { shown: filteredAndSortedProducts.length, total: products.length })}
+                    {isTranslating && <span className="ml-2 text-gray-400 dark:text-gray-500">{t('store.translatingCopy')}</span>}
+                </p>
+                {/* Adds from the product cards that ran into stock already in the cart are explained here. */}
+                <CartNotices className="mb-4" />
                  {isLoading && (
                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-3 gap-6">
                         {Array.from({ length: 8 }).map((_, index) => (
@@ -222,47 +687,66 @@ const App: React.FC = () => {
                     </div>
                 )}
                 {error && (
-                    <div className="text-center py-20 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-500/30 rounded-lg"><h2 className="text-2xl font-semibold text-red-700 dark:text-red-300">An Error Occurred</h2><p className="text-red-600 dark:text-red-400 mt-2">{error}</p></div>
+                    <div className="text-center py-20 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-500/30 rounded-lg"><h2 className="text-2xl font-semibold text-red-700 dark:text-red-300">{t('store.errorTitle')}</h2><p className="text-red-600 dark:text-red-400 mt-2">{t(error)}</p></div>
                 )}
                 {!isLoading && !error && (
                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-3 gap-6">
                         {filteredAndSortedProducts.map((product) => (
-                        <ProductCard key={product.id} product={product} onSelect={handleSelectProduct} isWishlisted={isWishlisted(product.id)} onToggleWishlist={handleToggleWishlist} />
+                        <div key={product.id}>
+                            <ProductCard product={product} onSelect={handleSelectProduct} isWishlisted={isWishlisted(product.id)} onToggleWishlist={handleToggleWishlist} />
+                            {searchResults?.has(product.id) && (
+                                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                                    <HighlightedText text={product.name} terms={searchResults.get(product.id)!.matchedTerms} className="block font-medium text-gray-700 dark:text-gray-300" />
+                                    <HighlightedText text={product.description} terms={searchResults.get(product.id)!.matchedTerms} excerptLength={120} matchesOnly className="block" />
+                                </p>
+                            )}
+                            {hasVariants(product) && (
+                                <VariantPicker product={product} cartItems={cartItems} onAddToCart={addToCart} />
+                            )}
+                        </div>
                         ))}
                     </div>
                 )}
                  {!isLoading && !error && filteredAndSortedProducts.length === 0 && (
-                     <div className="text-center py-20 bg-gray-50 dark:bg-gray-800 rounded-lg"><h2 className="text-2xl font-semibold text-gray-700 dark:text-gray-300">No Products Found</h2><p className="text-gray-600 dark:text-gray-400 mt-2">Try adjusting your filters to find what you're looking for.</p></div>
+                     <div className="text-center py-20 bg-gray-50 dark:bg-gray-800 rounded-lg"><h2 className="text-2xl font-semibold text-gray-700 dark:text-gray-300">{t('store.noProducts')}</h2><p className="text-gray-600 dark:text-gray-400 mt-2">{t('store.noProductsHint')}</p></div>
                  )}
             </div>
         </div>
       </main>
-      <ProductModal product={selectedProduct} onClose={handleCloseModal} />
+      <ProductModal product={selectedProduct} onClose={handleCloseModal}>
+        {selectedProduct && (
+          <ProductReviews
+            key={selectedProduct.id}
+            reviews={getApprovedReviews(reviews, selectedProduct.id)}
+            eligibilityError={getReviewEligibilityError(reviews, orders, customerAuth.customer?.id, selectedProduct.id)}
+            onSubmit={(rating, comment) => handleSubmitReview(selectedProduct.id, rating, comment)}
+          />
+        )}
+        {selectedProduct && <ProductRecommendations product={selectedProduct} products={localizedProducts} orders={orders} onSelect={handleSelectProduct} />}
+      </ProductModal>
     </>
   );
 
+  // Language, and currency when the store offers more than one.
+  const renderPreferencePickers = (className: string) => (
+    <div className={className}>
+      <select value={locale} onChange={e => isLocale(e.target.value) && setLocale(e.target.value)} aria-label={t('common.language')} className="rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 p-1 text-sm">
+        {LOCALES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+      </select>
+      {displayCurrencies.length > 1 && (
+        <select value={displayCurrency} onChange={e => setDisplayCurrency(e.target.value as CurrencyCode)} aria-label={t('common.currency')} className="rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 p-1 text-sm">
+          {displayCurrencies.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+      )}
+    </div>
+  );
+
   const renderContactView = () => (
     <div className="container mx-auto p-8 flex items-center justify-center" style={{minHeight: 'calc(100vh - 200px)'}}>
       <div className="bg-white dark:bg-gray-800 p-10 rounded-lg shadow-xl max-w-2xl mx-auto w-full">
-          <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-200 mb-4 text-center">Contact Us</h1>
-          <p className="text-gray-600 dark:text-gray-400 mb-8 text-center">Have questions? We'd love to hear from you. Reach out to us via the form below.</p>
-          <form className="text-left space-y-4" onSubmit={(e) => e.preventDefault()}>
-              <div>
-                  <label htmlFor="contact-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Name</label>
-                  <input type="text" id="contact-name" className="mt-1 block w-full p-2 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 shadow-sm focus:border-indigo-500 focus:ring-indigo-500" />
-              </div>
-               <div>
-                  <label htmlFor="contact-email" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Email</label>
-                  <input type="email" id="contact-email" className="mt-1 block w-full p-2 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 shadow-sm focus:border-indigo-500 focus:ring-indigo-500" />
-              </div>
-               <div>
-                  <label htmlFor="contact-message" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Message</label>
-                  <textarea id="contact-message" rows={4} className="mt-1 block w-full p-2 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"></textarea>
-              </div>
-              <button type="submit" className="w-full bg-indigo-600 text-white font-semibold py-3 px-6 rounded-lg hover:bg-indigo-700 transition-colors">
-                  Send Message
-              </button>
-          </form>
+          <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-200 mb-4 text-center">{t('nav.contact')}</h1>
+          <p className="text-gray-600 dark:text-gray-400 mb-8 text-center">{t('contact.intro')}</p>
+          <ContactForm initialName={customerAuth.customer?.name} initialEmail={customerAuth.customer?.email} onSubmit={handleContactSubmit} />
       </div>
     </div>
   );
@@ -270,11 +754,72 @@ const App: React.FC = () => {
   const renderCurrentView = () => {
     switch (view) {
         case 'dashboard':
-            return <UserDashboardView products={products} wishlist={wishlist} onNavigateToStore={() => setView('store')} onToggleWishlist={handleToggleWishlist} onSelectProduct={handleSelectProduct} />;
+            return (
+                <>
+                    <UserDashboardView products={localizedProducts} wishlist={wishlist} onNavigateToStore={() => setView('store')} onToggleWishlist={handleToggleWishlist} onSelectProduct={handleSelectProduct} />
+                    {customerAuth.customer && (
+                        <div className="container mx-auto px-4 sm:px-6 lg:px-8 mb-8">
+                            <CustomerOrders
+                                orders={customerOrders}
+                                selectedOrderId={activeOrderId}
+                                onSelectOrder={setActiveOrderId}
+                                onCancel={handleCustomerCancelOrder}
+                                onRequestReturn={handleCustomerRequestReturn}
+                                onReorder={handleReorder}
+                            />
+                        </div>
+                    )}
+                </>
+            );
         case 'checkout':
-            return <CheckoutView onPlaceOrder={handlePlaceOrder} onNavigateToStore={() => setView('store')} />;
-        case 'confirmation':
-            return <OrderConfirmationView orderId={lastOrderId} onNavigateToStore={() => setView('store')} />;
+            return (
+                <>
+                    {checkoutErrors.length > 0 && (
+                        <div className="container mx-auto px-4 sm:px-6 lg:px-8 mt-6">
+                            <ul className="p-4 space-y-1 list-disc list-inside bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-500/30 rounded-lg text-red-700 dark:text-red-300">
+                                {checkoutErrors.map(message => <li key={message}>{message}</li>)}
+                            </ul>
+                        </div>
+                    )}
+                    <div className="container mx-auto px-4 sm:px-6 lg:px-8 mt-6">
+                        <BannerCarousel banners={selectBanners(banners, { placement: 'checkout', categories: Array.from(new Set(cartItems.map(item => item.category))) })} onImpression={trackImpression} onClick={trackClick} />
+                    </div>
+                    <div className="container mx-auto px-4 sm:px-6 lg:px-8 mt-6 max-w-xl space-y-6">
+                        <CartNotices />
+                        <SavedForLater showCartLines className="bg-white dark:bg-gray-800 rounded-lg shadow p-6" />
+                        <OrderSummary
+                            breakdown={checkoutBreakdown}
+                            regions={pricingSettings.taxRates}
+                            onRegionChange={region => setCheckoutRegion(region ?? null)}
+                            onApplyCoupon={handleApplyCoupon}
+                            onRemoveCoupon={handleRemoveCoupon}
+                            couponError={couponError ?? appliedCouponError}
+                        />
+                    </div>
+                    <CheckoutView onPlaceOrder={handlePlaceOrder} onNavigateToStore={() => setView('store')} />
+                </>
+            );
+        case 'confirmation': {
+            const confirmedOrder = orders.find(o => o.id === activeOrderId);
+            const confirmedBreakdown = confirmedOrder?.breakdown;
+            const isOwnOrder = !!confirmedOrder?.customerId && confirmedOrder.customerId === customerAuth.customer?.id;
+            // A link to someone else's confirmation shows only the generic page, not their order.
+            const canSeeDetails = isOwnOrder || (!!confirmedOrder && placedOrderIds.includes(confirmedOrder.id));
+            return (
+                <>
+                    <OrderConfirmationView orderId={activeOrderId} onNavigateToStore={() => setView('store')} />
+                    {confirmedOrder && canSeeDetails && (
+                        <div className="container mx-auto px-4 sm:px-6 lg:px-8 mb-8 max-w-xl space-y-6">
+                            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+                                <OrderTimeline order={confirmedOrder} />
+                                {isOwnOrder && <button onClick={() => setView('dashboard')} className="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline">{t('account.trackOrder')}</button>}
+                            </div>
+                            {confirmedBreakdown && <OrderSummary breakdown={confirmedBreakdown} currency={getOrderCurrency(confirmedOrder)} />}
+                        </div>
+                    )}
+                </>
+            );
+        }
         case 'contact':
             return renderContactView();
         case 'store':
@@ -287,16 +832,57 @@ const App: React.FC = () => {
   if (view === 'admin' && auth.isLoggedIn && auth.role) {
       return (
            <ToastProvider>
-                <AdminView 
-                    products={products} 
-                    setProducts={setProducts} 
-                    onNavigateToStore={() => setView('store')} 
-                    username={auth.user || 'Admin'}
-                    userRole={auth.role}
-                    onLogout={() => { auth.logout(); setView('store'); }}
-                    theme={theme}
-                    toggleTheme={toggleTheme}
-                />
+                <>
+                    <AdminSectionNav sections={visibleAdminSections.map(s => {
+                        const label = t(`admin.section.${s.id}`);
+                        return { id: s.id, label: s.id === 'notifications' && unreadNotifCount > 0 ? t('admin.sectionWithCount', { label, count: unreadNotifCount }) : label };
+                    })} active={currentAdminSection} onChange={setAdminSection} onNavigateToStore={() => setView('store')} />
+                    {adminError && (
+                        <div className="bg-red-50 dark:bg-red-900/20 border-b border-red-200 dark:border-red-500/30 text-red-700 dark:text-red-300 text-sm">
+                            <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-2 flex justify-between items-center">
+                                <span>{adminError}</span>
+                                <button onClick={() => setAdminError(null)} aria-label={t('common.dismiss')} className="font-bold">×</button>
+                            </div>
+                        </div>
+                    )}
+                    {currentAdminSection === 'catalog' ? (
+                        <AdminView 
+                            products={products} 
+                            setProducts={handleAdminSetProducts} 
+                            onNavigateToStore={() => setView('store')} 
+                            username={staffName}
+                            userRole={auth.role}
+                            onLogout={() => { auth.logout(); setView('store'); }}
+                            theme={theme}
+                            toggleTheme={toggleTheme}
+                        />
+                    ) : (
+                        <div className="min-h-screen bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-gray-200">
+                            <main className="container mx-auto p-4 sm:p-6 lg:p-8">
+                                {currentAdminSection === 'notifications' && (
+                                    <AdminNotificationsPanel
+                                        notifications={notificationCenter.notifications}
+                                        role={auth.role}
+                                        preferences={notificationCenter.preferences}
+                                        onMarkRead={notificationCenter.markRead}
+                                        onDismiss={notificationCenter.dismiss}
+                                        onOpen={handleOpenNotification}
+                                        onUpdatePreferences={can(auth.role, 'role:manage') ? notificationCenter.updatePreferences : undefined}
+                                    />
+                                )}
+                                {currentAdminSection === 'import' && <AdminCatalogTransferPanel products={products} role={auth.role} onApply={handleAdminSetProducts} />}
+                                {currentAdminSection === 'orders' && <AdminOrdersPanel orders={orders} onChangeStatus={handleAdminChangeOrderStatus} onResolveReturn={handleAdminResolveReturn} canUpdate={can(auth.role, 'order:update')} />}
+                                {currentAdminSection === 'customers' && <AdminCustomersPanel users={users} onChangeStatus={handleAdminChangeUserStatus} canManage={can(auth.role, 'user:manage')} />}
+                                {currentAdminSection === 'inbox' && <AdminInboxPanel tickets={tickets} onReply={handleAdminReplyToTicket} onChangeStatus={handleAdminChangeTicketStatus} />}
+                                {currentAdminSection === 'reviews' && <AdminReviewsPanel reviews={reviews} products={products} onModerate={handleAdminModerateReview} />}
+                                {currentAdminSection === 'banners' && <AdminBannersPanel banners={banners} stats={bannerStats} categories={categories} onSave={handleAdminSaveBanner} onDelete={handleAdminDeleteBanner} />}
+                                {currentAdminSection === 'pricing' && <AdminPricingPanel settings={pricingSettings} onUpdateSettings={handleAdminUpdatePricing} coupons={coupons} onSaveCoupon={handleAdminSaveCoupon} onDeleteCoupon={handleAdminDeleteCoupon} onUpdateCurrency={handleAdminUpdateCurrency} />}
+                                {currentAdminSection === 'analytics' && <AdminAnalyticsPanel orders={orders} users={users} products={products} />}
+                                {currentAdminSection === 'audit' && <AdminAuditLogPanel entries={auditLog} />}
+                            </main>
+                        </div>
+                    )}
+                </>
            </ToastProvider>
       );
   }
@@ -311,27 +897,28 @@ const App: React.FC = () => {
                 <button onClick={() => setView('store')} className="text-2xl font-bold text-gray-900 dark:text-white">AI-Store</button>
                 
                 <nav className="hidden md:flex items-center gap-2">
-                  <button onClick={() => setView('store')} className="text-base font-medium text-gray-500 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white px-3 py-2 rounded-md transition-colors">Home</button>
-                  <button onClick={() => setView('store')} className="text-base font-medium text-gray-500 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white px-3 py-2 rounded-md transition-colors">Products</button>
+                  <button onClick={() => setView('store')} className="text-base font-medium text-gray-500 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white px-3 py-2 rounded-md transition-colors">{t('nav.home')}</button>
+                  <button onClick={() => setView('store')} className="text-base font-medium text-gray-500 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white px-3 py-2 rounded-md transition-colors">{t('nav.products')}</button>
                   <div className="relative group">
                     <button onClick={() => setView('contact')} className="text-base font-medium text-gray-500 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white px-3 py-2 rounded-md transition-colors flex items-center gap-1">
-                      Contact Us
+                      {t('nav.contact')}
                       <svg className="w-4 h-4 transition-transform group-hover:rotate-180" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path></svg>
                     </button>
                     <div className="absolute top-full left-1/2 -translate-x-1/2 mt-2 w-40 bg-white dark:bg-gray-800 border dark:border-gray-700 rounded-md shadow-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none group-hover:pointer-events-auto">
-                      <a href="mailto:contact@aistore.com" className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700">Email Us</a>
-                      <a href="tel:+1234567890" className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700">Call Us</a>
+                      <a href="mailto:contact@aistore.com" className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700">{t('nav.emailUs')}</a>
+                      <a href="tel:+1234567890" className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700">{t('nav.callUs')}</a>
                     </div>
                   </div>
                 </nav>
 
                 <div className="flex items-center gap-4">
                   <div className="hidden md:flex items-center gap-4">
-                   { auth.isLoggedIn ? (
+                   {renderPreferencePickers('flex items-center gap-2')}
+                   { isSignedIn ? (
                       <>
                         {auth.role && ['admin', 'manager', 'editor'].includes(auth.role) &&
                           <button onClick={() => setView('admin')} className="relative text-sm font-medium text-gray-600 dark:text-gray-300 hover:text-indigo-600 dark:hover:text-indigo-400">
-                            Admin
+                            {t('nav.admin')}
                             {unreadNotifCount > 0 && (
                               <span className="absolute -top-1 -right-2 bg-red-500 text-white text-xs font-bold rounded-full h-4 w-4 flex items-center justify-center text-[10px]">
                                 {unreadNotifCount}
@@ -339,15 +926,15 @@ const App: React.FC = () => {
                             )}
                           </button>
                         }
-                         <button onClick={() => setView('dashboard')} className="text-sm font-medium text-gray-600 dark:text-gray-300 hover:text-indigo-600 dark:hover:text-indigo-400">Account</button>
-                         <button onClick={() => { auth.logout(); setView('store'); }} className="text-sm font-medium text-gray-600 dark:text-gray-300 hover:text-indigo-600 dark:hover:text-indigo-400">Logout</button>
+                         <button onClick={() => setView('dashboard')} className="text-sm font-medium text-gray-600 dark:text-gray-300 hover:text-indigo-600 dark:hover:text-indigo-400">{t('nav.account')}</button>
+                         <button onClick={handleLogout} className="text-sm font-medium text-gray-600 dark:text-gray-300 hover:text-indigo-600 dark:hover:text-indigo-400">{t('nav.logout')}</button>
                       </>
                    ) : (
-                      <button onClick={() => setLoginModalOpen(true)} className="text-sm font-medium bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700">Admin Login</button>
+                      <button onClick={() => setCustomerAuthOpen(true)} className="text-sm font-medium bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700">{t('nav.signIn')}</button>
                    )}
                   </div>
 
-                  <button className="relative" aria-label={`Wishlist with ${wishlist.size} items`} onClick={() => auth.isLoggedIn ? setView('dashboard') : setLoginModalOpen(true)}>
+                  <button className="relative" aria-label={t('nav.wishlistLabel', { count: wishlist.size })} onClick={() => isSignedIn ? setView('dashboard') : setCustomerAuthOpen(true)}>
                      <svg className="w-7 h-7 text-gray-500 dark:text-gray-400 hover:text-red-500 transition-colors" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z"></path></svg>
                     {wishlist.size > 0 && (
                       <span className="absolute -top-1 -right-2 bg-red-500 text-white text-xs font-bold rounded-full h-5 w-5 flex items-center justify-center">
@@ -356,7 +943,7 @@ const App: React.FC = () => {
                     )}
                   </button>
                   
-                   <button className="relative" aria-label={`Cart with ${itemCount} items`} onClick={() => setIsCartOpen(true)}>
+                   <button className="relative" aria-label={t('nav.cartLabel', { count: itemCount })} onClick={() => setIsCartOpen(true)}>
                       <svg className="w-7 h-7 text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z"></path></svg>
                        {itemCount > 0 && (
                           <span className="absolute -top-1 -right-2 bg-indigo-600 text-white text-xs font-bold rounded-full h-5 w-5 flex items-center justify-center">
@@ -365,7 +952,7 @@ const App: React.FC = () => {
                         )}
                    </button>
                    <div className="md:hidden">
-                       <button onClick={() => setMobileMenuOpen(!isMobileMenuOpen)}>
+                       <button onClick={() => setMobileMenuOpen(!isMobileMenuOpen)} aria-label={t('nav.menu')}>
                            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d={isMobileMenuOpen ? "M6 18L18 6M6 6l12 12" : "M4 6h16M4 12h16m-7 6h7"}></path></svg>
                        </button>
                    </div>
@@ -374,18 +961,19 @@ const App: React.FC = () => {
               {isMobileMenuOpen && (
                 <div className="md:hidden">
                   <div className="px-2 pt-2 pb-3 space-y-1 sm:px-3 border-t border-gray-200 dark:border-gray-700">
-                    <button onClick={() => setView('store')} className="w-full text-left block px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 hover:bg-gray-50 dark:hover:text-white dark:hover:bg-gray-700">Home</button>
-                    <button onClick={() => setView('store')} className="w-full text-left block px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 hover:bg-gray-50 dark:hover:text-white dark:hover:bg-gray-700">Products</button>
-                    <button onClick={() => setView('contact')} className="w-full text-left block px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 hover:bg-gray-50 dark:hover:text-white dark:hover:bg-gray-700">Contact Us</button>
+                    <button onClick={() => setView('store')} className="w-full text-left block px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 hover:bg-gray-50 dark:hover:text-white dark:hover:bg-gray-700">{t('nav.home')}</button>
+                    <button onClick={() => setView('store')} className="w-full text-left block px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 hover:bg-gray-50 dark:hover:text-white dark:hover:bg-gray-700">{t('nav.products')}</button>
+                    <button onClick={() => setView('contact')} className="w-full text-left block px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 hover:bg-gray-50 dark:hover:text-white dark:hover:bg-gray-700">{t('nav.contact')}</button>
+                    {renderPreferencePickers('flex items-center gap-2 px-3 py-2')}
                     <div className="border-t border-gray-200 dark:border-gray-700 pt-4 mt-4">
-                      { auth.isLoggedIn ? (
+                      { isSignedIn ? (
                           <>
-                            {auth.role && ['admin', 'manager', 'editor'].includes(auth.role) && <button onClick={() => setView('admin')} className="w-full text-left block px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 hover:bg-gray-50 dark:hover:text-white dark:hover:bg-gray-700">Admin Dashboard</button>}
-                            <button onClick={() => setView('dashboard')} className="w-full text-left block px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 hover:bg-gray-50 dark:hover:text-white dark:hover:bg-gray-700">My Account</button>
-                            <button onClick={() => { auth.logout(); setView('store'); }} className="w-full text-left block px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 hover:bg-gray-50 dark:hover:text-white dark:hover:bg-gray-700">Logout</button>
+                            {auth.role && ['admin', 'manager', 'editor'].includes(auth.role) && <button onClick={() => setView('admin')} className="w-full text-left block px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 hover:bg-gray-50 dark:hover:text-white dark:hover:bg-gray-700">{t('nav.adminDashboard')}</button>}
+                            <button onClick={() => setView('dashboard')} className="w-full text-left block px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 hover:bg-gray-50 dark:hover:text-white dark:hover:bg-gray-700">{t('nav.myAccount')}</button>
+                            <button onClick={handleLogout} className="w-full text-left block px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 hover:bg-gray-50 dark:hover:text-white dark:hover:bg-gray-700">{t('nav.logout')}</button>
                           </>
                       ) : (
-                          <button onClick={() => setLoginModalOpen(true)} className="w-full text-left block px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 hover:bg-gray-50 dark:hover:text-white dark:hover:bg-gray-700">Admin Login</button>
+                          <button onClick={() => setCustomerAuthOpen(true)} className="w-full text-left block px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 hover:bg-gray-50 dark:hover:text-white dark:hover:bg-gray-700">{t('nav.signIn')}</button>
                       )}
                     </div>
                   </div>
@@ -396,8 +984,13 @@ const App: React.FC = () => {
           {renderCurrentView()}
         </div>
         {!view.startsWith('admin') && <Footer />}
-        <MiniCart isOpen={isCartOpen} onClose={() => setIsCartOpen(false)} onCheckout={handleCheckout} />
+        <MiniCart isOpen={isCartOpen} onClose={() => setIsCartOpen(false)} onCheckout={handleCheckout}>
+          <CartNotices />
+          <SavedForLater className="mt-4" />
+        </MiniCart>
+        <ShoppingAssistant products={localizedProducts} onAddToCart={handleAssistantAddToCart} onSelectProduct={handleSelectProduct} />
         {isLoginModalOpen && <LoginModal onClose={() => setLoginModalOpen(false)} onLoginSuccess={handleLoginSuccess} />}
+        {isCustomerAuthOpen && <CustomerAuthModal onClose={() => setCustomerAuthOpen(false)} onLogin={customerAuth.login} onRegister={customerAuth.register} onAdminLogin={handleOpenAdminLogin} />}
       </div>
     </ToastProvider>
   );
@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { ResponsiveContainer, AreaChart, Area, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts';
+import { Order, Product, User } from '../types';
+import { AnalyticsReport, DateRange, buildAnalyticsCsv, compareWithPreviousPeriod, lastNDays, listDays } from '../services/analyticsService';
+import { downloadCsv } from '../services/csvService';
+import { getOrderCurrency } from '../services/orderService';
+import { useI18n } from '../hooks/useI18n';
+
+interface AdminAnalyticsPanelProps {
+  orders: Order[];
+  users: User[];
+  products: Product[];
+}
+
+const PRESETS = [7, 30, 90];
+
+const REPORTS: AnalyticsReport[] = ['summary', 'daily', 'products', 'categories', 'orders'];
+
+const inputClass = "rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 p-2 text-sm";
+
+const ChangeBadge: React.FC<{ value: number | null }> = ({ value }) => {
+  const { t, formatNumber } = useI18n();
+  if (value === null) return <span className="text-xs text-gray-400">{t('analytics.noPriorData')}</span>;
+  const className = value > 0 ? 'text-green-600 dark:text-green-400' : value < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-500';
+  return <span className={`text-xs font-semibold ${className}`}>{t('analytics.vsPrevious', { change: `${value > 0 ? '+' : ''}${formatNumber(value)}` })}</span>;
+};
+
+export const AdminAnalyticsPanel: React.FC<AdminAnalyticsPanelProps> = ({ orders, users, products }) => {
+  const [range, setRange] = useState<DateRange>(() => lastNDays(30));
+  const { t, formatNumber, formatStorePrice, currencySettings } = useI18n();
+  const isValidRange = range.from <= range.to;
+
+  // Amounts in different currencies can't be added up, so only orders charged in the store currency count.
+  const storeOrders = useMemo(() => orders.filter(o => getOrderCurrency(o) === currencySettings.storeCurrency), [orders, currencySettings.storeCurrency]);
+  const otherCurrencyOrders = orders.length - storeOrders.length;
+  const comparison = useMemo(() => isValidRange ? compareWithPreviousPeriod(storeOrders, users, products, range) : null, [storeOrders, users, products, range, isValidRange]);
+  const chartData = useMemo(() => comparison ? listDays(range).map((day, i) => ({ day: day.slice(5), revenue: comparison.current.salesByDay[i] })) : [], [comparison, range]);
+
+  const handleExport = (report: AnalyticsReport) => {
+    if (!comparison) return;
+    downloadCsv(`${report}-${range.from}-to-${range.to}.csv`, buildAnalyticsCsv(report, comparison, storeOrders, range));
+  };
+
+  const kpis = comparison ? [
+    { label: t('analytics.revenue'), value: formatStorePrice(comparison.current.totalRevenue), change: comparison.change.totalRevenue },
+    { label: t('analytics.orders'), value: formatNumber(comparison.current.totalOrders), change: comparison.change.totalOrders },
+    { label: t('analytics.customers'), value: formatNumber(comparison.current.totalCustomers), change: comparison.change.totalCustomers },
+    { label: t('analytics.newCustomers'), value: formatNumber(comparison.current.newCustomers), change: comparison.change.newCustomers },
+  ] : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-4 bg-white dark:bg-gray-800 p-4 rounded-lg shadow">
+        <div>
+          <label htmlFor="analytics-from" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('analytics.from')}</label>
+          <input type="date" id="analytics-from" value={range.from} onChange={e => setRange(r => ({ ...r, from: e.target.value }))} className={inputClass} />
+        </div>
+        <div>
+          <label htmlFor="analytics-to" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('analytics.to')}</label>
+          <input type="date" id="analytics-to" value={range.to} onChange={e => setRange(r => ({ ...r, to: e.target.value }))} className={inputClass} />
+        </div>
+        <div className="flex gap-2">
+          {PRESETS.map(days => (
+            <button key={days} onClick={() => setRange(lastNDays(days))} className="px-3 py-2 text-sm rounded-md border dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">{t('analytics.lastDays', { days })}</button>
+          ))}
+        </div>
+        <div className="ml-auto flex items-center gap-2">
+          <span className="text-sm text-gray-600 dark:text-gray-400">{t('analytics.exportCsv')}</span>
+          <select value="" disabled={!comparison} onChange={e => handleExport(e.target.value as AnalyticsReport)} className={inputClass}>
+            <option value="" disabled>{t('analytics.chooseReport')}</option>
+            {REPORTS.map(r => <option key={r} value={r}>{t(`analytics.report.${r}`)}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {otherCurrencyOrders > 0 && (
+        <p className="p-3 rounded bg-gray-50 dark:bg-gray-800 text-sm text-gray-600 dark:text-gray-400">{t('analytics.otherCurrencyNote', { count: otherCurrencyOrders, currency: currencySettings.storeCurrency })}</p>
+      )}
+
+      {!comparison ? (
+        <p className="p-4 rounded bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">{t('analytics.invalidRange')}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            {kpis.map(kpi => (
+              <div key={kpi.label} className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow">
+                <p className="text-sm text-gray-500 dark:text-gray-400">{kpi.label}</p>
+                <p className="text-2xl font-bold mt-1">{kpi.value}</p>
+                <ChangeBadge value={kpi.change} />
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="day" fontSize={12} />
+                <YAxis fontSize={12} />
+                <Tooltip formatter={(value: number) => formatStorePrice(value)} />
+                <Area type="monotone" dataKey="revenue" stroke="#4f46e5" fill="#c7d2fe" />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow">
+              <h3 className="font-semibold">{t('analytics.topProducts')}</h3>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">{t('analytics.itemSalesNote')}</p>
+              {comparison.current.topProducts.length === 0 ? <p className="text-sm text-gray-500">{t('analytics.noSales')}</p> : (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                  {comparison.current.topProducts.map(p => <li key={p.name} className="py-2 flex justify-between"><span>{p.name}</span><span>{formatStorePrice(p.sales)}</span></li>)}
+                </ul>
+              )}
+            </div>
+            <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow">
+              <h3 className="font-semibold">{t('analytics.salesByCategory')}</h3>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">{t('analytics.itemSalesNote')}</p>
+              {comparison.current.salesByCategory.length === 0 ? <p className="text-sm text-gray-500">{t('analytics.noSales')}</p> : (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                  {comparison.current.salesByCategory.map(c => <li key={c.category} className="py-2 flex justify-between"><span>{c.category}</span><span>{formatStorePrice(c.sales)}</span></li>)}
+                </ul>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
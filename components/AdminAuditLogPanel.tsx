@@ -0,0 +1,59 @@
+import React, { useMemo, useState } from 'react';
+import { AuditEntityType, AuditEntry, UserRole } from '../types';
+import { isMessageKey } from '../services/i18nService';
+import { useI18n } from '../hooks/useI18n';
+
+const ENTITY_FILTERS: (AuditEntityType | 'all')[] = ['all', 'product', 'order', 'user', 'pricing', 'review', 'banner', 'ticket'];
+
+interface AdminAuditLogPanelProps {
+  entries: AuditEntry[];
+}
+
+export const AdminAuditLogPanel: React.FC<AdminAuditLogPanelProps> = ({ entries }) => {
+  const [entityFilter, setEntityFilter] = useState<AuditEntityType | 'all'>('all');
+  const { t, formatDateTime } = useI18n();
+  const roleLabel = (role: UserRole) => t(`role.${role}`);
+  const entityLabel = (type: AuditEntityType) => t(`audit.entity.${type}`);
+  // Most entries use the standard verbs; anything more specific is shown as recorded.
+  const actionLabel = (action: string) => {
+    const key = `audit.action.${action}`;
+    return isMessageKey(key) ? t(key) : action;
+  };
+  const visible = useMemo(() => entityFilter === 'all' ? entries : entries.filter(e => e.entityType === entityFilter), [entries, entityFilter]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <select value={entityFilter} onChange={e => setEntityFilter(e.target.value as AuditEntityType | 'all')} className="rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 p-2 text-sm">
+          {ENTITY_FILTERS.map(f => <option key={f} value={f}>{t(`audit.filter.${f}`)}</option>)}
+        </select>
+      </div>
+      {visible.length === 0 ? (
+        <div className="text-center py-20 bg-white dark:bg-gray-800 rounded-lg shadow"><p className="text-gray-600 dark:text-gray-400">{t('audit.none')}</p></div>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700 text-left text-gray-600 dark:text-gray-300">
+              <tr>
+                <th className="p-3">{t('audit.when')}</th>
+                <th className="p-3">{t('audit.who')}</th>
+                <th className="p-3">{t('audit.what')}</th>
+                <th className="p-3">{t('audit.details')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {visible.map(entry => (
+                <tr key={entry.id}>
+                  <td className="p-3 whitespace-nowrap">{formatDateTime(entry.date)}</td>
+                  <td className="p-3">{entry.actor} <span className="text-xs text-gray-500 dark:text-gray-400">({roleLabel(entry.role)})</span></td>
+                  <td className="p-3">{entityLabel(entry.entityType)} {actionLabel(entry.action)} <span className="font-mono text-xs">{entry.entityId}</span></td>
+                  <td className="p-3 text-gray-600 dark:text-gray-400">{entry.details}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
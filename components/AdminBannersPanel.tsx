@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Banner, BannerPlacement, BannerStats } from '../types';
+import { BANNER_PLACEMENTS, BannerStatus, generateBannerId, getBannerStatus, getClickThroughRate } from '../services/bannerService';
+import { useI18n } from '../hooks/useI18n';
+
+interface AdminBannersPanelProps {
+  banners: Banner[];
+  stats: Record<string, BannerStats>;
+  categories: string[];
+  /** Throws with a user-facing message if the banner is invalid. */
+  onSave: (banner: Banner) => void;
+  onDelete: (bannerId: string) => void;
+}
+
+const inputClass = "mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 p-2 text-sm";
+
+const statusStyles: Record<BannerStatus, string> = {
+  live: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  scheduled: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300',
+  ended: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  inactive: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300',
+};
+
+const emptyBanner = (): Banner => ({ id: '', title: '', subtitle: '', link: '/', imageUrl: '', isActive: true, placement: 'store_header', categories: [], priority: 0 });
+
+// <input type="datetime-local"> works in local time without a zone suffix.
+const toLocalInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string) => value ? new Date(value).toISOString() : undefined;
+
+export const AdminBannersPanel: React.FC<AdminBannersPanelProps> = ({ banners, stats, categories, onSave, onDelete }) => {
+  const [draft, setDraft] = useState<Banner>(emptyBanner);
+  const [error, setError] = useState<string | null>(null);
+  const { t, formatDateTime, formatNumber } = useI18n();
+  const placementLabel = (placement: BannerPlacement = 'store_header') => t(`bannerPlacement.${placement}`);
+  const statusLabel = (status: BannerStatus) => t(`bannerStatus.${status}`);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      onSave({ ...draft, id: draft.id || generateBannerId() });
+      setDraft(emptyBanner());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const toggleCategory = (category: string) => {
+    const current = draft.categories ?? [];
+    setDraft({ ...draft, categories: current.includes(category) ? current.filter(c => c !== category) : [...current, category] });
+  };
+
+  const sorted = [...banners].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+
+  return (
+    <div className="space-y-8">
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4 text-sm">
+        <h2 className="text-lg font-semibold">{draft.id ? t('banners.edit') : t('banners.new')}</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label>{t('banners.title')}<input type="text" value={draft.title} onChange={e => setDraft({ ...draft, title: e.target.value })} className={inputClass} /></label>
+          <label>{t('banners.subtitle')}<input type="text" value={draft.subtitle ?? ''} onChange={e => setDraft({ ...draft, subtitle: e.target.value })} className={inputClass} /></label>
+          <label>{t('banners.imageUrl')}<input type="url" value={draft.imageUrl} onChange={e => setDraft({ ...draft, imageUrl: e.target.value })} className={inputClass} /></label>
+          <label>{t('banners.link')}<input type="text" value={draft.link} onChange={e => setDraft({ ...draft, link: e.target.value })} placeholder="/?category=Flour" className={inputClass} /></label>
+          <label>{t('banners.placement')}
+            <select value={draft.placement ?? 'store_header'} onChange={e => setDraft({ ...draft, placement: e.target.value as BannerPlacement })} className={inputClass}>
+              {BANNER_PLACEMENTS.map(p => <option key={p.id} value={p.id}>{placementLabel(p.id)}</option>)}
+            </select>
+          </label>
+          <label>{t('banners.priority')}<input type="number" value={draft.priority ?? 0} onChange={e => setDraft({ ...draft, priority: Number(e.target.value) })} className={inputClass} /></label>
+          <label>{t('banners.starts')}<input type="datetime-local" value={toLocalInput(draft.startsAt)} onChange={e => setDraft({ ...draft, startsAt: fromLocalInput(e.target.value) })} className={inputClass} /></label>
+          <label>{t('banners.ends')}<input type="datetime-local" value={toLocalInput(draft.endsAt)} onChange={e => setDraft({ ...draft, endsAt: fromLocalInput(e.target.value) })} className={inputClass} /></label>
+        </div>
+        <fieldset>
+          <legend className="mb-1">{t('banners.targetCategories')} <span className="text-gray-500 dark:text-gray-400">{t('banners.targetHint')}</span></legend>
+          <div className="flex flex-wrap gap-3">
+            {categories.map(c => (
+              <label key={c} className="flex items-center gap-1"><input type="checkbox" checked={draft.categories?.includes(c) ?? false} onChange={() => toggleCategory(c)} /> {c}</label>
+            ))}
+          </div>
+        </fieldset>
+        <label className="flex items-center gap-2"><input type="checkbox" checked={draft.isActive} onChange={e => setDraft({ ...draft, isActive: e.target.checked })} /> {t('common.active')}</label>
+        {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+        <div className="flex gap-2">
+          <button type="submit" className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-700">{draft.id ? t('banners.saveChanges') : t('banners.create')}</button>
+          {draft.id && <button type="button" onClick={() => { setDraft(emptyBanner()); setError(null); }} className="px-4 py-2 rounded-lg border dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">{t('common.cancel')}</button>}
+        </div>
+      </form>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-x-auto">
+        {sorted.length === 0 ? (
+          <p className="p-6 text-sm text-center text-gray-500 dark:text-gray-400">{t('banners.none')}</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead className="text-left text-gray-600 dark:text-gray-300">
+              <tr><th className="p-3">{t('banners.banner')}</th><th className="p-3">{t('banners.placement')}</th><th className="p-3">{t('banners.schedule')}</th><th className="p-3">{t('common.status')}</th><th className="p-3 text-right">{t('banners.impressions')}</th><th className="p-3 text-right">{t('banners.clicks')}</th><th className="p-3 text-right">{t('banners.ctr')}</th><th className="p-3"></th></tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {sorted.map(b => {
+                const status = getBannerStatus(b);
+                const ctr = getClickThroughRate(stats[b.id]);
+                return (
+                  <tr key={b.id}>
+                    <td className="p-3">
+                      <div className="flex items-center gap-3">
+                        <img src={b.imageUrl} alt="" className="w-16 h-10 object-cover rounded" />
+                        <div>
+                          <p className="font-medium">{b.title}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">{t('banners.priorityValue', { priority: b.priority ?? 0 })}{b.categories?.length ? ` · ${b.categories.join(', ')}` : ''}</p>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="p-3">{placementLabel(b.placement)}</td>
+                    <td className="p-3 text-xs">
+                      {b.startsAt ? formatDateTime(b.startsAt) : t('banners.now')} → {b.endsAt ? formatDateTime(b.endsAt) : t('banners.noEnd')}
+                    </td>
+                    <td className="p-3"><span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${statusStyles[status]}`}>{statusLabel(status)}</span></td>
+                    <td className="p-3 text-right">{formatNumber(stats[b.id]?.impressions ?? 0)}</td>
+                    <td className="p-3 text-right">{formatNumber(stats[b.id]?.clicks ?? 0)}</td>
+                    <td className="p-3 text-right">{ctr === null ? '—' : formatNumber(ctr / 100, { style: 'percent', minimumFractionDigits: 1, maximumFractionDigits: 1 })}</td>
+                    <td className="p-3 text-right space-x-3 whitespace-nowrap">
+                      <button onClick={() => { setDraft(b); setError(null); }} className="text-indigo-600 dark:text-indigo-400 hover:underline">{t('common.edit')}</button>
+                      <button onClick={() => onDelete(b.id)} className="text-red-600 dark:text-red-400 hover:underline">{t('common.delete')}</button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import { Product, UserRole } from '../types';
+import {
+  CatalogFormat, ColumnMapping, IMPORT_FIELDS, ImportField, ImportMode, ImportSource,
+  detectFormat, exportCatalogCsv, exportCatalogJson, parseImportSource, planImport, suggestMapping,
+} from '../services/catalogTransferService';
+import { downloadCsv, downloadFile } from '../services/csvService';
+import { can, permissionsForProductChange } from '../services/permissions';
+import { formatDay } from '../services/analyticsService';
+import { useI18n } from '../hooks/useI18n';
+
+interface AdminCatalogTransferPanelProps {
+  products: Product[];
+  role: UserRole;
+  /** Saves the imported catalog; permission checks and the audit log happen there. Returns why it was refused, or null once saved. */
+  onApply: (products: Product[]) => string | null;
+}
+
+type ChangeType = 'create' | 'update' | 'delete';
+
+const changeStyles: Record<ChangeType, string> = {
+  create: 'text-green-700 dark:text-green-400',
+  update: 'text-blue-700 dark:text-blue-400',
+  delete: 'text-red-700 dark:text-red-400',
+};
+
+export const AdminCatalogTransferPanel: React.FC<AdminCatalogTransferPanelProps> = ({ products, role, onApply }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const { t, formatNumber } = useI18n();
+  const changeLabel = (type: ChangeType) => t(`import.change.${type}`);
+  const fieldLabel = (field: ImportField) => t(`import.field.${field}`);
+  const roleLabel = (r: UserRole) => t(`role.${r}`);
+
+  const plan = useMemo(() => source ? planImport(products, source, mapping, mode) : null, [products, source, mapping, mode]);
+  const deniedPermissions = useMemo(
+    () => plan ? Array.from(new Set(plan.changes.flatMap(permissionsForProductChange).filter(p => !can(role, p)))) : [],
+    [plan, role]
+  );
+
+  const handleExport = (format: CatalogFormat) => {
+    const filename = `catalog-${formatDay(new Date())}.${format}`;
+    if (format === 'csv') downloadCsv(filename, exportCatalogCsv(products));
+    else downloadFile(filename, [exportCatalogJson(products)], 'application/json');
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setSuccessMessage(null);
+    try {
+      const text = await file.text();
+      const parsed = parseImportSource(text, detectFormat(file.name, text));
+      setError(null);
+      setFileName(file.name);
+      setSource(parsed);
+      setMapping(suggestMapping(parsed.columns));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setSource(null);
+    }
+  };
+
+  const handleReset = () => {
+    setSource(null);
+    setFileName(null);
+    setMapping({});
+    setError(null);
+  };
+
+  const handleApply = () => {
+    if (!plan) return;
+    const refusal = onApply(plan.next);
+    if (refusal) {
+      setSuccessMessage(null);
+      setError(refusal);
+      return;
+    }
+    setSuccessMessage(t('import.imported', { file: fileName ?? '', count: plan.changes.length }));
+    handleReset();
+  };
+
+  const updateMapping = (field: ImportField, column: string) =>
+    setMapping(prev => ({ ...prev, [field]: column || undefined }));
+
+  const canApply = !!plan && plan.errors.length === 0 && plan.changes.length > 0 && deniedPermissions.length === 0;
+
+  return (
+    <div className="space-y-8">
+      <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">{t('import.exportTitle')}</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('import.exportHint')}</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => handleExport('csv')} className="px-4 py-2 rounded-lg border dark:border-gray-600 text-sm hover:bg-gray-100 dark:hover:bg-gray-700">{t('import.downloadCsv')}</button>
+          <button onClick={() => handleExport('json')} className="px-4 py-2 rounded-lg border dark:border-gray-600 text-sm hover:bg-gray-100 dark:hover:bg-gray-700">{t('import.downloadJson')}</button>
+        </div>
+      </section>
+
+      <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold">{t('import.importTitle')}</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('import.importHint')}</p>
+          </div>
+          <label className="px-4 py-2 rounded-lg bg-indigo-600 text-white text-sm font-semibold hover:bg-indigo-700 cursor-pointer">
+            {t('import.chooseFile')}
+            <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileChange} className="hidden" />
+          </label>
+        </div>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        {successMessage && <p className="text-sm p-3 rounded bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300">{successMessage}</p>}
+
+        {source && plan && (
+          <>
+            <div>
+              <h3 className="font-semibold mb-2">{t('import.mapColumns')} <span className="text-sm font-normal text-gray-500 dark:text-gray-400">{t('import.fileSummary', { file: fileName ?? '', count: source.records.length })}</span></h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                {IMPORT_FIELDS.map(({ field }) => (
+                  <label key={field}>
+                    {fieldLabel(field)}
+                    <select value={mapping[field] ?? ''} onChange={e => updateMapping(field, e.target.value)} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 p-2 text-sm">
+                      <option value="">{t('import.notMapped')}</option>
+                      {source.columns.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="text-sm space-y-1">
+              <h3 className="font-semibold mb-2">{t('import.howToApply')}</h3>
+              <label className="flex items-center gap-2"><input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} /> {t('import.merge')}</label>
+              <label className="flex items-center gap-2"><input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} /> {t('import.replace')}</label>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-semibold">{t('import.review')}</h3>
+              {plan.errors.length > 0 && (
+                <div className="p-3 rounded bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+                  <p className="font-medium mb-1">{t('import.problems', { count: plan.errors.length })}</p>
+                  <ul className="list-disc list-inside max-h-48 overflow-y-auto">
+                    {plan.errors.map((e, i) => <li key={i}>{t('import.row', { row: e.row })}{e.field ? ` (${fieldLabel(e.field)})` : ''}: {e.message}</li>)}
+                  </ul>
+                </div>
+              )}
+              {deniedPermissions.length > 0 && (
+                <p className="p-3 rounded bg-yellow-50 dark:bg-yellow-900/20 text-sm text-yellow-800 dark:text-yellow-300">
+                  {t('import.denied', { role: roleLabel(role), permissions: deniedPermissions.join(', ') })}
+                </p>
+              )}
+              {plan.changes.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">{t('import.noChanges')}</p>
+              ) : (
+                <>
+                  <p className="text-sm">
+                    {(['create', 'update', 'delete'] as const).map(type => `${changeLabel(type)}: ${formatNumber(plan.changes.filter(c => c.type === type).length)}`).join(' · ')}
+                  </p>
+                  <ul className="text-sm divide-y divide-gray-200 dark:divide-gray-700 max-h-80 overflow-y-auto border rounded dark:border-gray-700">
+                    {plan.changes.map(change => (
+                      <li key={`${change.type}-${change.product.id}`} className="p-2 flex justify-between gap-4">
+                        <span><span className={`font-semibold ${changeStyles[change.type]}`}>{changeLabel(change.type)}</span> {change.product.name}</span>
+                        {change.type === 'update' && <span className="text-gray-500 dark:text-gray-400 text-xs">{change.changedFields.join(', ')}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+              <div className="flex gap-2">
+                <button onClick={handleApply} disabled={!canApply} className="bg-indigo-600 text-white text-sm font-semibold py-2 px-4 rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed">{t('import.apply')}</button>
+                <button onClick={handleReset} className="px-4 py-2 rounded-lg border dark:border-gray-600 text-sm hover:bg-gray-100 dark:hover:bg-gray-700">{t('common.cancel')}</button>
+              </div>
+            </div>
+          </>
+        )}
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { User, UserStatus } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface AdminCustomersPanelProps {
+  users: User[];
+  onChangeStatus: (userId: string, status: UserStatus) => void;
+  canManage?: boolean;
+}
+
+export const AdminCustomersPanel: React.FC<AdminCustomersPanelProps> = ({ users, onChangeStatus, canManage = true }) => {
+  const { t, formatDate, formatNumber } = useI18n();
+  const statusLabel = (status: UserStatus) => t(`userStatus.${status}`);
+
+  if (users.length === 0) {
+    return <div className="text-center py-20 bg-white dark:bg-gray-800 rounded-lg shadow"><p className="text-gray-600 dark:text-gray-400">{t('customers.none')}</p></div>;
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead className="bg-gray-50 dark:bg-gray-700 text-left text-gray-600 dark:text-gray-300">
+          <tr>
+            <th className="p-3">{t('customers.customer')}</th>
+            <th className="p-3">{t('customers.joined')}</th>
+            <th className="p-3 text-right">{t('customers.orders')}</th>
+            <th className="p-3">{t('common.status')}</th>
+            <th className="p-3"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {users.map(user => (
+            <tr key={user.id}>
+              <td className="p-3">
+                <div className="flex items-center gap-3">
+                  <img src={user.avatar} alt="" className="w-8 h-8 rounded-full" />
+                  <div>
+                    <div className="font-medium">{user.name}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{user.email}</div>
+                  </div>
+                </div>
+              </td>
+              <td className="p-3">{formatDate(user.joinDate)}</td>
+              <td className="p-3 text-right">{formatNumber(user.orderCount)}</td>
+              <td className="p-3">
+                <span className={`px-2 py-1 rounded-full text-xs font-semibold ${user.status === 'active' ? 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300' : 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300'}`}>{statusLabel(user.status)}</span>
+              </td>
+              <td className="p-3 text-right">
+                {canManage && <button onClick={() => onChangeStatus(user.id, user.status === 'active' ? 'blocked' : 'active')} className="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline">
+                  {user.status === 'active' ? t('customers.block') : t('customers.unblock')}
+                </button>}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
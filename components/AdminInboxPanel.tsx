@@ -0,0 +1,103 @@
+import React, { useMemo, useState } from 'react';
+import { SupportTicket, TicketStatus } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface AdminInboxPanelProps {
+  tickets: SupportTicket[];
+  onReply: (ticketId: string, message: string) => void;
+  onChangeStatus: (ticketId: string, status: TicketStatus) => void;
+}
+
+const statusStyles: Record<TicketStatus, string> = {
+  open: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300',
+  answered: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300',
+  closed: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+};
+
+export const AdminInboxPanel: React.FC<AdminInboxPanelProps> = ({ tickets, onReply, onChangeStatus }) => {
+  const [statusFilter, setStatusFilter] = useState<TicketStatus | 'all'>('open');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const { t, formatDateTime } = useI18n();
+  const statusLabel = (status: TicketStatus) => t(`ticketStatus.${status}`);
+
+  const visible = useMemo(() => statusFilter === 'all' ? tickets : tickets.filter(ticket => ticket.status === statusFilter), [tickets, statusFilter]);
+  const selected = tickets.find(ticket => ticket.id === selectedId) ?? null;
+
+  const handleReply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    try {
+      setError(null);
+      onReply(selected.id, replyText);
+      setReplyText('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+        <div className="p-3 border-b dark:border-gray-700 flex gap-1">
+          {(['open', 'answered', 'closed', 'all'] as const).map(s => (
+            <button key={s} onClick={() => setStatusFilter(s)} className={`px-3 py-1 rounded-full text-xs font-medium ${statusFilter === s ? 'bg-indigo-600 text-white' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}>{s === 'all' ? t('common.all') : statusLabel(s)}</button>
+          ))}
+        </div>
+        {visible.length === 0 ? (
+          <p className="p-6 text-sm text-center text-gray-500 dark:text-gray-400">{t('inbox.none')}</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 max-h-[70vh] overflow-y-auto">
+            {visible.map(ticket => (
+              <li key={ticket.id}>
+                <button onClick={() => { setSelectedId(ticket.id); setError(null); }} className={`w-full text-left p-3 hover:bg-gray-50 dark:hover:bg-gray-700 ${ticket.id === selectedId ? 'bg-indigo-50 dark:bg-indigo-900/30' : ''}`}>
+                  <div className="flex justify-between items-center">
+                    <span className="font-medium text-sm">{ticket.name}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold ${statusStyles[ticket.status]}`}>{statusLabel(ticket.status)}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{ticket.message}</p>
+                  <p className="text-[10px] text-gray-400 mt-1">{formatDateTime(ticket.date)}</p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        {!selected ? (
+          <p className="text-center text-gray-500 dark:text-gray-400 py-20">{t('inbox.select')}</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-between items-start">
+              <div>
+                <h3 className="font-semibold text-lg">{selected.name}</h3>
+                <a href={`mailto:${selected.email}`} className="text-sm text-indigo-600 dark:text-indigo-400">{selected.email}</a>
+              </div>
+              {selected.status === 'closed' ? (
+                <button onClick={() => onChangeStatus(selected.id, 'open')} className="text-sm px-3 py-1 rounded-md border dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">{t('inbox.reopen')}</button>
+              ) : (
+                <button onClick={() => onChangeStatus(selected.id, 'closed')} className="text-sm px-3 py-1 rounded-md border dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">{t('inbox.closeTicket')}</button>
+              )}
+            </div>
+            <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700 whitespace-pre-wrap text-sm">{selected.message}</div>
+            {selected.replies.map((r, i) => (
+              <div key={i} className="ml-8 p-4 rounded-lg bg-indigo-50 dark:bg-indigo-900/30 text-sm">
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">{r.author} · {formatDateTime(r.date)}</p>
+                <p className="whitespace-pre-wrap">{r.message}</p>
+              </div>
+            ))}
+            {selected.status !== 'closed' && (
+              <form onSubmit={handleReply} className="space-y-2">
+                <textarea rows={4} value={replyText} onChange={e => setReplyText(e.target.value)} placeholder={t('inbox.replyPlaceholder')} className="block w-full p-2 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm" />
+                {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+                <button type="submit" className="bg-indigo-600 text-white text-sm font-semibold py-2 px-4 rounded-lg hover:bg-indigo-700">{t('inbox.sendReply')}</button>
+              </form>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
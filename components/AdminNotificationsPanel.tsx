@@ -0,0 +1,106 @@
+import React, { useMemo, useState } from 'react';
+import { AdminNotification, NotificationPreferences, NotificationType, UserRole } from '../types';
+import { NOTIFICATION_PERMISSIONS, NOTIFICATION_TYPES } from '../services/notificationService';
+import { can } from '../services/permissions';
+import { isMessageKey } from '../services/i18nService';
+import { useI18n } from '../hooks/useI18n';
+
+interface AdminNotificationsPanelProps {
+  notifications: AdminNotification[];
+  role: UserRole;
+  preferences: NotificationPreferences;
+  onMarkRead: (ids: string[]) => void;
+  onDismiss: (id: string) => void;
+  onOpen: (notification: AdminNotification) => void;
+  /** Only passed for roles allowed to change who gets notified. */
+  onUpdatePreferences?: (preferences: NotificationPreferences) => void;
+}
+
+const typeStyles: Record<NotificationType, string> = {
+  order: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300',
+  stock: 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300',
+  review: 'bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-300',
+  message: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+};
+
+const ROLES: UserRole[] = ['admin', 'manager', 'editor'];
+
+export const AdminNotificationsPanel: React.FC<AdminNotificationsPanelProps> = ({ notifications, role, preferences, onMarkRead, onDismiss, onOpen, onUpdatePreferences }) => {
+  const [filter, setFilter] = useState<NotificationType | 'unread' | 'all'>('unread');
+  const { t, formatDateTime } = useI18n();
+  const badgeLabel = (type: NotificationType) => t(`notifications.badge.${type}`);
+  const roleLabel = (r: UserRole) => t(`role.${r}`);
+
+  const visible = useMemo(() => notifications.filter(n => filter === 'all' || (filter === 'unread' ? !n.isRead : n.type === filter)), [notifications, filter]);
+  const unreadIds = notifications.filter(n => !n.isRead).map(n => n.id);
+
+  const togglePreference = (targetRole: UserRole, type: NotificationType) => {
+    const current = preferences[targetRole];
+    onUpdatePreferences?.({ ...preferences, [targetRole]: current.includes(type) ? current.filter(x => x !== type) : [...current, type] });
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+        <div className="p-3 border-b dark:border-gray-700 flex flex-wrap items-center justify-between gap-2">
+          <div className="flex flex-wrap gap-1">
+            {(['unread', 'all', ...NOTIFICATION_TYPES.map(nt => nt.type)] as const).map(f => (
+              <button key={f} onClick={() => setFilter(f)} className={`px-3 py-1 rounded-full text-xs font-medium ${filter === f ? 'bg-indigo-600 text-white' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}>
+                {f === 'unread' ? `${t('notifications.filter.unread')} (${unreadIds.length})` : f === 'all' ? t('common.all') : badgeLabel(f)}
+              </button>
+            ))}
+          </div>
+          <button onClick={() => onMarkRead(unreadIds)} disabled={unreadIds.length === 0} className="text-sm text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50 disabled:no-underline">{t('notifications.markAllRead')}</button>
+        </div>
+        {visible.length === 0 ? (
+          <p className="p-6 text-sm text-center text-gray-500 dark:text-gray-400">{filter === 'unread' ? t('notifications.caughtUp') : t('notifications.none')}</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {visible.map(n => (
+              <li key={n.id} className={`p-4 flex items-start gap-3 ${n.isRead ? '' : 'bg-indigo-50/50 dark:bg-indigo-900/10'}`}>
+                <span className={`mt-0.5 px-2 py-0.5 rounded-full text-[10px] font-semibold ${typeStyles[n.type]}`}>{badgeLabel(n.type)}</span>
+                <button onClick={() => onOpen(n)} className="flex-1 text-left">
+                  <p className={`text-sm ${n.isRead ? 'text-gray-600 dark:text-gray-400' : 'font-medium'}`}>
+                    {n.messageKey && isMessageKey(n.messageKey) ? t(n.messageKey, n.messageParams) : n.message}
+                    {n.count !== undefined && n.count > 1 && <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{t('notifications.more', { count: n.count - 1 })}</span>}
+                  </p>
+                  <p className="text-xs text-gray-400 mt-1">{formatDateTime(n.date)}</p>
+                </button>
+                <div className="flex gap-3 text-xs shrink-0">
+                  {!n.isRead && <button onClick={() => onMarkRead([n.id])} className="text-indigo-600 dark:text-indigo-400 hover:underline">{t('notifications.markRead')}</button>}
+                  <button onClick={() => onDismiss(n.id)} className="text-gray-500 dark:text-gray-400 hover:underline">{t('common.dismiss')}</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold mb-1">{t('notifications.subscriptions')}</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          {onUpdatePreferences ? t('notifications.subscriptionsEdit') : t('notifications.subscriptionsView', { role: roleLabel(role) })}
+        </p>
+        <table className="text-sm">
+          <thead>
+            <tr><th></th>{ROLES.map(r => <th key={r} className="px-4 pb-2">{roleLabel(r)}</th>)}</tr>
+          </thead>
+          <tbody>
+            {NOTIFICATION_TYPES.map(({ type }) => (
+              <tr key={type}>
+                <td className="pr-4 py-1">{t(`notifications.type.${type}`)}</td>
+                {ROLES.map(r => (
+                  <td key={r} className="px-4 py-1 text-center">
+                    {can(r, NOTIFICATION_PERMISSIONS[type]) ? (
+                      <input type="checkbox" checked={preferences[r].includes(type)} disabled={!onUpdatePreferences} onChange={() => togglePreference(r, type)} />
+                    ) : <span className="text-gray-400" title={t('notifications.cannotAct')}>—</span>}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Order, OrderStatus } from '../types';
+import { ORDER_TRANSITIONS, getOrderCurrency } from '../services/orderService';
+import { useI18n } from '../hooks/useI18n';
+
+interface AdminOrdersPanelProps {
+  orders: Order[];
+  onChangeStatus: (orderId: string, status: OrderStatus) => void;
+  onResolveReturn: (orderId: string, approve: boolean) => void;
+  canUpdate?: boolean;
+}
+
+const statusStyles: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300',
+  shipped: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300',
+  delivered: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  cancelled: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  refunded: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+};
+
+export const AdminOrdersPanel: React.FC<AdminOrdersPanelProps> = ({ orders, onChangeStatus, onResolveReturn, canUpdate = true }) => {
+  const [error, setError] = useState<string | null>(null);
+  const { t, formatDate, formatCurrency } = useI18n();
+  const statusLabel = (status: OrderStatus) => t(`orderStatus.${status}`);
+
+  const attempt = (action: () => void) => {
+    try {
+      setError(null);
+      action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  if (orders.length === 0) {
+    return <div className="text-center py-20 bg-white dark:bg-gray-800 rounded-lg shadow"><p className="text-gray-600 dark:text-gray-400">{t('orders.none')}</p></div>;
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-x-auto">
+      {error && <p className="m-4 p-3 rounded bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">{error}</p>}
+      <table className="min-w-full text-sm">
+        <thead className="bg-gray-50 dark:bg-gray-700 text-left text-gray-600 dark:text-gray-300">
+          <tr>
+            <th className="p-3">{t('orders.order')}</th>
+            <th className="p-3">{t('orders.customer')}</th>
+            <th className="p-3">{t('common.date')}</th>
+            <th className="p-3">{t('orders.items')}</th>
+            <th className="p-3 text-right">{t('orders.total')}</th>
+            <th className="p-3">{t('common.status')}</th>
+            {canUpdate && <th className="p-3">{t('orders.update')}</th>}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {orders.map(order => (
+            <tr key={order.id}>
+              <td className="p-3 font-mono text-xs">{order.id}</td>
+              <td className="p-3">
+                <div>{order.customerName}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">{order.shippingAddress}</div>
+              </td>
+              <td className="p-3">{formatDate(order.date)}</td>
+              <td className="p-3">{order.itemsList.map(i => `${i.productName} × ${i.quantity}`).join(', ')}</td>
+              <td className="p-3 text-right">{formatCurrency(order.total, getOrderCurrency(order))}</td>
+              <td className="p-3">
+                <span className={`px-2 py-1 rounded-full text-xs font-semibold ${statusStyles[order.status]}`}>{statusLabel(order.status)}</span>
+                {order.trackingNumber && <div className="mt-1 text-xs text-gray-500 dark:text-gray-400 font-mono">{t('orders.tracking', { number: order.trackingNumber })}</div>}
+                {order.returnRequest?.status === 'requested' && (
+                  <div className="mt-2 text-xs">
+                    <p className="text-orange-700 dark:text-orange-300">{t('orders.returnRequested', { reason: order.returnRequest.reason })}</p>
+                    {canUpdate && <div className="mt-1 flex gap-3">
+                      <button onClick={() => attempt(() => onResolveReturn(order.id, true))} className="text-indigo-600 dark:text-indigo-400 hover:underline">{t('orders.approveReturn')}</button>
+                      <button onClick={() => attempt(() => onResolveReturn(order.id, false))} className="text-gray-500 dark:text-gray-400 hover:underline">{t('orders.rejectReturn')}</button>
+                    </div>}
+                  </div>
+                )}
+              </td>
+              {canUpdate && <td className="p-3">
+                {ORDER_TRANSITIONS[order.status].length > 0 ? (
+                  <select value="" onChange={e => attempt(() => onChangeStatus(order.id, e.target.value as OrderStatus))} className="rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 p-1 text-sm">
+                    <option value="" disabled>{t('orders.moveTo')}</option>
+                    {ORDER_TRANSITIONS[order.status].map(s => <option key={s} value={s}>{statusLabel(s)}</option>)}
+                  </select>
+                ) : <span className="text-xs text-gray-400">{t('orders.final')}</span>}
+              </td>}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,280 @@
+import React, { useEffect, useState } from 'react';
+import { Coupon, CouponType, CurrencyCode, CurrencySettings, PricingSettings, ShippingRate } from '../types';
+import { CURRENCIES } from '../services/currencyService';
+import { useI18n } from '../hooks/useI18n';
+
+interface AdminPricingPanelProps {
+  settings: PricingSettings;
+  onUpdateSettings: (settings: PricingSettings) => void;
+  coupons: Coupon[];
+  /** `previousCode` is set when an existing coupon is edited, so a changed code renames it. */
+  onSaveCoupon: (coupon: Coupon, previousCode?: string) => void;
+  onDeleteCoupon: (code: string) => void;
+  /** Throws with a user-facing message if the settings can't be saved. */
+  onUpdateCurrency: (settings: CurrencySettings) => void;
+}
+
+const inputClass = "rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 p-2 text-sm";
+
+const EMPTY_COUPON: Coupon = { code: '', type: 'percentage', value: 10, usageCount: 0, isActive: true };
+
+const optionalNumber = (value: string) => value === '' ? undefined : Number(value);
+
+export const AdminPricingPanel: React.FC<AdminPricingPanelProps> = ({ settings, onUpdateSettings, coupons, onSaveCoupon, onDeleteCoupon, onUpdateCurrency }) => {
+  const { t, formatStorePrice, formatDate, formatNumber, storeCurrencySymbol, currencySettings } = useI18n();
+  const [draft, setDraft] = useState<Coupon>(EMPTY_COUPON);
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Rates are edited locally and only saved (and audited) when the admin clicks Save.
+  const [settingsDraft, setSettingsDraft] = useState<PricingSettings>(settings);
+  const [newRegion, setNewRegion] = useState('');
+  const [settingsError, setSettingsError] = useState<string | null>(null);
+  const [currencyDraft, setCurrencyDraft] = useState<CurrencySettings>(currencySettings);
+  const [currencyError, setCurrencyError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCurrencyDraft(currencySettings);
+  }, [currencySettings]);
+
+  useEffect(() => {
+    setSettingsDraft(settings);
+  }, [settings]);
+
+  const settingsChanged = JSON.stringify(settingsDraft) !== JSON.stringify(settings);
+
+  const describeCoupon = (c: Coupon) =>
+    c.type === 'percentage' ? t('pricing.percentOff', { value: c.value }) : c.type === 'fixed' ? t('pricing.amountOff', { amount: formatStorePrice(c.value) }) : t('pricing.freeShipping');
+
+  const handleSaveCoupon = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.code.trim()) {
+      setError(t('pricing.codeRequired'));
+      return;
+    }
+    if (draft.type !== 'free_shipping' && !(draft.value > 0)) {
+      setError(t('pricing.valueRequired'));
+      return;
+    }
+    const code = draft.code.trim().toUpperCase();
+    if (code !== editingCode && coupons.some(c => c.code === code)) {
+      setError(t('pricing.codeTaken'));
+      return;
+    }
+    setError(null);
+    onSaveCoupon(draft, editingCode ?? undefined);
+    resetCouponForm();
+  };
+
+  const resetCouponForm = () => {
+    setDraft(EMPTY_COUPON);
+    setEditingCode(null);
+    setError(null);
+  };
+
+  const startEditing = (coupon: Coupon) => {
+    setDraft(coupon);
+    setEditingCode(coupon.code);
+    setError(null);
+  };
+
+  const updateTaxRate = (index: number, rate: number) =>
+    setSettingsDraft({ ...settingsDraft, taxRates: settingsDraft.taxRates.map((tax, i) => i === index ? { ...tax, rate } : tax) });
+
+  const removeTaxRate = (index: number) =>
+    setSettingsDraft({ ...settingsDraft, taxRates: settingsDraft.taxRates.filter((_, i) => i !== index) });
+
+  const addTaxRate = () => {
+    const region = newRegion.trim();
+    if (!region) {
+      setSettingsError(t('pricing.regionRequired'));
+      return;
+    }
+    if (settingsDraft.taxRates.some(tax => tax.region.toLowerCase() === region.toLowerCase())) {
+      setSettingsError(t('pricing.regionTaken'));
+      return;
+    }
+    setSettingsError(null);
+    setSettingsDraft({ ...settingsDraft, taxRates: [...settingsDraft.taxRates, { region, rate: settingsDraft.defaultTaxRate }] });
+    setNewRegion('');
+  };
+
+  const updateShippingRate = (index: number, field: 'maxWeightKg' | 'cost', value: number) =>
+    setSettingsDraft({ ...settingsDraft, shippingRates: settingsDraft.shippingRates.map((r, i) => i === index ? { ...r, [field]: value } : r) });
+
+  const removeShippingRate = (index: number) =>
+    setSettingsDraft({ ...settingsDraft, shippingRates: settingsDraft.shippingRates.filter((_, i) => i !== index) });
+
+  // A new tier starts just past the heaviest one, at the same cost.
+  const addShippingRate = () => {
+    const heaviest = settingsDraft.shippingRates.reduce<ShippingRate | undefined>((max, r) => !max || r.maxWeightKg > max.maxWeightKg ? r : max, undefined);
+    const tier = heaviest ? { maxWeightKg: heaviest.maxWeightKg + 5, cost: heaviest.cost } : { maxWeightKg: 5, cost: 0 };
+    setSettingsDraft({ ...settingsDraft, shippingRates: [...settingsDraft.shippingRates, tier] });
+  };
+
+  const handleSaveSettings = (e: React.FormEvent) => {
+    e.preventDefault();
+    const weights = settingsDraft.shippingRates.map(r => r.maxWeightKg);
+    if (weights.some(w => !(w > 0)) || new Set(weights).size !== weights.length) {
+      setSettingsError(t('pricing.tierInvalid'));
+      return;
+    }
+    setSettingsError(null);
+    onUpdateSettings({ ...settingsDraft, shippingRates: [...settingsDraft.shippingRates].sort((a, b) => a.maxWeightKg - b.maxWeightKg) });
+  };
+
+  const toggleDisplayCurrency = (code: CurrencyCode) => {
+    const { [code]: current, ...rest } = currencyDraft.displayRates;
+    setCurrencyDraft({ ...currencyDraft, displayRates: current === undefined ? { ...rest, [code]: 1 } : rest });
+  };
+
+  const handleSaveCurrency = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setCurrencyError(null);
+      onUpdateCurrency(currencyDraft);
+    } catch (err) {
+      setCurrencyError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <h2 className="text-lg font-semibold">{t('pricing.coupons')}</h2>
+        <form onSubmit={handleSaveCoupon} className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3 items-end text-sm">
+          <label>{t('pricing.code')}<input type="text" value={draft.code} onChange={e => setDraft({ ...draft, code: e.target.value.toUpperCase() })} className={`${inputClass} w-full uppercase`} /></label>
+          <label>{t('pricing.type')}
+            <select value={draft.type} onChange={e => setDraft({ ...draft, type: e.target.value as CouponType })} className={`${inputClass} w-full`}>
+              <option value="percentage">{t('pricing.percentage')}</option>
+              <option value="fixed">{t('pricing.fixed')}</option>
+              <option value="free_shipping">{t('pricing.freeShipping')}</option>
+            </select>
+          </label>
+          <label>{t('pricing.value')}<input type="number" min={0} step="0.01" disabled={draft.type === 'free_shipping'} value={draft.value} onChange={e => setDraft({ ...draft, value: Number(e.target.value) })} className={`${inputClass} w-full`} /></label>
+          <label>{t('pricing.minOrder')}<input type="number" min={0} step="0.01" value={draft.minOrder ?? ''} onChange={e => setDraft({ ...draft, minOrder: optionalNumber(e.target.value) })} className={`${inputClass} w-full`} /></label>
+          <label>{t('pricing.expires')}<input type="date" value={draft.expiresAt?.slice(0, 10) ?? ''} onChange={e => setDraft({ ...draft, expiresAt: e.target.value ? new Date(`${e.target.value}T23:59:59`).toISOString() : undefined })} className={`${inputClass} w-full`} /></label>
+          <label>{t('pricing.usageLimit')}<input type="number" min={1} value={draft.usageLimit ?? ''} onChange={e => setDraft({ ...draft, usageLimit: optionalNumber(e.target.value) })} className={`${inputClass} w-full`} /></label>
+          <div className="flex gap-2">
+            <button type="submit" className="flex-1 bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-700">{t('common.save')}</button>
+            {editingCode && <button type="button" onClick={resetCouponForm} className="py-2 px-3 rounded-lg border dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">{t('common.cancel')}</button>}
+          </div>
+        </form>
+        {editingCode && <p className="text-sm text-gray-500 dark:text-gray-400">{t('pricing.editingCoupon', { code: editingCode })}</p>}
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        {coupons.length === 0 ? <p className="text-sm text-gray-500 dark:text-gray-400">{t('pricing.noCoupons')}</p> : (
+          <table className="min-w-full text-sm">
+            <thead className="text-left text-gray-600 dark:text-gray-300">
+              <tr><th className="p-2">{t('pricing.code')}</th><th className="p-2">{t('pricing.discount')}</th><th className="p-2">{t('pricing.minOrder')}</th><th className="p-2">{t('pricing.expires')}</th><th className="p-2">{t('pricing.used')}</th><th className="p-2">{t('common.active')}</th><th className="p-2"></th></tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {coupons.map(c => (
+                <tr key={c.code}>
+                  <td className="p-2 font-mono">{c.code}</td>
+                  <td className="p-2">{describeCoupon(c)}</td>
+                  <td className="p-2">{c.minOrder !== undefined ? formatStorePrice(c.minOrder) : '—'}</td>
+                  <td className="p-2">{c.expiresAt ? formatDate(c.expiresAt) : t('common.never')}</td>
+                  <td className="p-2">{formatNumber(c.usageCount)}{c.usageLimit !== undefined ? ` / ${formatNumber(c.usageLimit)}` : ''}</td>
+                  <td className="p-2"><input type="checkbox" checked={c.isActive} onChange={() => onSaveCoupon({ ...c, isActive: !c.isActive })} /></td>
+                  <td className="p-2 text-right space-x-3">
+                    <button onClick={() => startEditing(c)} className="text-indigo-600 dark:text-indigo-400 hover:underline">{t('common.edit')}</button>
+                    <button onClick={() => { if (c.code === editingCode) resetCouponForm(); onDeleteCoupon(c.code); }} className="text-red-600 dark:text-red-400 hover:underline">{t('common.delete')}</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <form onSubmit={handleSaveSettings} className="space-y-4">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-3 text-sm">
+            <h2 className="text-lg font-semibold">{t('pricing.taxRates')}</h2>
+            {settingsDraft.taxRates.map((tax, i) => (
+              <div key={tax.region} className="flex justify-between items-center gap-2">
+                <span className="flex-1">{tax.region}</span>
+                <span><input type="number" min={0} step="0.1" aria-label={tax.region} value={+(tax.rate * 100).toFixed(2)} onChange={e => updateTaxRate(i, Number(e.target.value) / 100)} className={`${inputClass} w-24`} /> %</span>
+                <button type="button" onClick={() => removeTaxRate(i)} className="text-red-600 dark:text-red-400 hover:underline">{t('common.remove')}</button>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <input type="text" placeholder={t('pricing.regionName')} aria-label={t('pricing.regionName')} value={newRegion} onChange={e => setNewRegion(e.target.value)} className={`${inputClass} flex-1`} />
+              <button type="button" onClick={addTaxRate} className="py-2 px-3 rounded-lg border dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">{t('pricing.addRegion')}</button>
+            </div>
+            <label className="flex justify-between items-center pt-2 border-t dark:border-gray-700">
+              <span>{t('pricing.otherRegions')}</span>
+              <span><input type="number" min={0} step="0.1" value={+(settingsDraft.defaultTaxRate * 100).toFixed(2)} onChange={e => setSettingsDraft({ ...settingsDraft, defaultTaxRate: Number(e.target.value) / 100 })} className={`${inputClass} w-24`} /> %</span>
+            </label>
+          </section>
+
+          <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-3 text-sm">
+            <h2 className="text-lg font-semibold">{t('pricing.shippingRates')}</h2>
+            {settingsDraft.shippingRates.map((r, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <span>{t('pricing.upTo')}</span>
+                <input type="number" min={0} value={r.maxWeightKg} onChange={e => updateShippingRate(i, 'maxWeightKg', Number(e.target.value))} className={`${inputClass} w-20`} />
+                <span>{t('pricing.kgCosts', { symbol: storeCurrencySymbol })}</span>
+                <input type="number" min={0} step="0.01" value={r.cost} onChange={e => updateShippingRate(i, 'cost', Number(e.target.value))} className={`${inputClass} w-24`} />
+                <button type="button" onClick={() => removeShippingRate(i)} className="text-red-600 dark:text-red-400 hover:underline">{t('common.remove')}</button>
+              </div>
+            ))}
+            <button type="button" onClick={addShippingRate} className="py-2 px-3 rounded-lg border dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">{t('pricing.addTier')}</button>
+            <label className="flex items-center gap-2 pt-2 border-t dark:border-gray-700">
+              <span>{t('pricing.extraKg', { symbol: storeCurrencySymbol })}</span>
+              <input type="number" min={0} step="0.01" value={settingsDraft.extraCostPerKg} onChange={e => setSettingsDraft({ ...settingsDraft, extraCostPerKg: Number(e.target.value) })} className={`${inputClass} w-24`} />
+            </label>
+            <label className="flex items-center gap-2">
+              <span>{t('pricing.freeOver', { symbol: storeCurrencySymbol })}</span>
+              <input type="number" min={0} step="0.01" value={settingsDraft.freeShippingThreshold ?? ''} onChange={e => setSettingsDraft({ ...settingsDraft, freeShippingThreshold: optionalNumber(e.target.value) })} className={`${inputClass} w-24`} />
+            </label>
+          </section>
+        </div>
+        {settingsError && <p className="text-sm text-red-600 dark:text-red-400">{settingsError}</p>}
+        <div className="flex items-center gap-3 text-sm">
+          <button type="submit" disabled={!settingsChanged} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-700 disabled:opacity-50">{t('common.save')}</button>
+          {settingsChanged && <>
+            <button type="button" onClick={() => { setSettingsDraft(settings); setSettingsError(null); }} className="py-2 px-3 rounded-lg border dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">{t('common.cancel')}</button>
+            <span className="text-gray-500 dark:text-gray-400">{t('pricing.unsavedRates')}</span>
+          </>}
+        </div>
+      </form>
+
+      <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4 text-sm">
+        <h2 className="text-lg font-semibold">{t('pricing.currencyTitle')}</h2>
+        <form onSubmit={handleSaveCurrency} className="space-y-4">
+          <div>
+            <label className="flex items-center gap-2">
+              <span className="font-medium">{t('pricing.storeCurrency')}</span>
+              <select value={currencyDraft.storeCurrency} onChange={e => setCurrencyDraft({ ...currencyDraft, storeCurrency: e.target.value as CurrencyCode })} className={inputClass}>
+                {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code} — {c.name}</option>)}
+              </select>
+            </label>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{t('pricing.storeCurrencyHint')}</p>
+          </div>
+          <div className="space-y-2">
+            <p className="font-medium">{t('pricing.displayCurrencies')}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{t('pricing.displayCurrenciesHint')}</p>
+            {CURRENCIES.filter(c => c.code !== currencyDraft.storeCurrency).map(c => {
+              const rate = currencyDraft.displayRates[c.code];
+              return (
+                <div key={c.code} className="flex items-center gap-2">
+                  <label className="flex items-center gap-2 w-48">
+                    <input type="checkbox" checked={rate !== undefined} onChange={() => toggleDisplayCurrency(c.code)} />
+                    <span>{c.code} — {c.name}</span>
+                  </label>
+                  {rate !== undefined && <>
+                    <span>{t('pricing.rate', { store: currencyDraft.storeCurrency })}</span>
+                    <input type="number" min={0} step="any" value={rate} onChange={e => setCurrencyDraft({ ...currencyDraft, displayRates: { ...currencyDraft.displayRates, [c.code]: Number(e.target.value) } })} className={`${inputClass} w-28`} />
+                    <span>{c.code}</span>
+                  </>}
+                </div>
+              );
+            })}
+          </div>
+          {currencyError && <p className="text-sm text-red-600 dark:text-red-400">{currencyError}</p>}
+          <button type="submit" className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-700">{t('common.save')}</button>
+        </form>
+      </section>
+    </div>
+  );
+};
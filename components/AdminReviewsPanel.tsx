@@ -0,0 +1,72 @@
+import React, { useMemo, useState } from 'react';
+import { Product, ProductReview, ReviewStatus } from '../types';
+import { StarRating } from './StarRating';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../services/i18nService';
+
+interface AdminReviewsPanelProps {
+  reviews: ProductReview[];
+  products: Product[];
+  onModerate: (reviewId: string, status: ReviewStatus) => void;
+}
+
+const statusStyles: Record<ReviewStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300',
+  approved: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  rejected: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+  flagged: 'bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300',
+};
+
+const ACTIONS: { status: ReviewStatus; label: MessageKey }[] = [
+  { status: 'approved', label: 'moderation.approve' },
+  { status: 'rejected', label: 'moderation.reject' },
+  { status: 'flagged', label: 'moderation.flag' },
+];
+
+export const AdminReviewsPanel: React.FC<AdminReviewsPanelProps> = ({ reviews, products, onModerate }) => {
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | 'all'>('pending');
+  const { t, formatDate, formatDateTime } = useI18n();
+  const statusLabel = (status: ReviewStatus) => t(`reviewStatus.${status}`);
+
+  const visible = useMemo(() => statusFilter === 'all' ? reviews : reviews.filter(r => r.status === statusFilter), [reviews, statusFilter]);
+  const productName = (productId: string) => products.find(p => p.id === productId)?.name ?? productId;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+      <div className="p-3 border-b dark:border-gray-700 flex gap-1">
+        {(['pending', 'flagged', 'approved', 'rejected', 'all'] as const).map(s => (
+          <button key={s} onClick={() => setStatusFilter(s)} className={`px-3 py-1 rounded-full text-xs font-medium ${statusFilter === s ? 'bg-indigo-600 text-white' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}>
+            {s === 'all' ? t('common.all') : `${statusLabel(s)} (${reviews.filter(r => r.status === s).length})`}
+          </button>
+        ))}
+      </div>
+      {visible.length === 0 ? (
+        <p className="p-6 text-sm text-center text-gray-500 dark:text-gray-400">{t('moderation.none')}</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {visible.map(r => (
+            <li key={r.id} className="p-4 space-y-2">
+              <div className="flex flex-wrap justify-between items-center gap-2">
+                <div className="flex items-center gap-2">
+                  <StarRating rating={r.rating} className="text-yellow-400" />
+                  <span className="font-medium text-sm">{productName(r.productId)}</span>
+                  <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold ${statusStyles[r.status]}`}>{statusLabel(r.status)}</span>
+                </div>
+                <div className="flex gap-2">
+                  {ACTIONS.filter(a => a.status !== r.status).map(a => (
+                    <button key={a.status} onClick={() => onModerate(r.id, a.status)} className="text-xs px-3 py-1 rounded-md border dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">{t(a.label)}</button>
+                  ))}
+                </div>
+              </div>
+              <p className="text-sm whitespace-pre-wrap">{r.comment}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {r.username} · {formatDateTime(r.date)}
+                {r.moderatedBy && r.moderatedAt && ` · ${t('moderation.moderated', { status: statusLabel(r.status), name: r.moderatedBy, date: formatDate(r.moderatedAt) })}`}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
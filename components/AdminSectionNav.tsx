@@ -0,0 +1,32 @@
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+
+export interface AdminSection<T extends string = string> {
+  id: T;
+  label: string;
+}
+
+interface AdminSectionNavProps<T extends string> {
+  sections: AdminSection<T>[];
+  active: T;
+  onChange: (section: T) => void;
+  onNavigateToStore: () => void;
+}
+
+export const AdminSectionNav = <T extends string,>({ sections, active, onChange, onNavigateToStore }: AdminSectionNavProps<T>) => {
+  const { t } = useI18n();
+  return (
+  <div className="bg-gray-900 text-gray-300 border-b border-gray-700">
+    <div className="container mx-auto px-4 sm:px-6 lg:px-8 flex items-center justify-between">
+      <nav className="flex gap-1 overflow-x-auto">
+        {sections.map(s => (
+          <button key={s.id} onClick={() => onChange(s.id)} className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors ${active === s.id ? 'border-indigo-500 text-white' : 'border-transparent hover:text-white'}`}>
+            {s.label}
+          </button>
+        ))}
+      </nav>
+      <button onClick={onNavigateToStore} className="text-sm hover:text-white">{t('admin.backToStore')}</button>
+    </div>
+  </div>
+  );
+};
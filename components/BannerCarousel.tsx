@@ -0,0 +1,71 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Banner } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface BannerCarouselProps {
+  banners: Banner[];
+  onImpression: (bannerId: string) => void;
+  onClick: (bannerId: string) => void;
+  /** Milliseconds each slide stays up before rotating. */
+  interval?: number;
+  className?: string;
+}
+
+export const BannerCarousel: React.FC<BannerCarouselProps> = ({ banners, onImpression, onClick, interval = 6000, className = '' }) => {
+  const [index, setIndex] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+  const { t } = useI18n();
+  // Each banner counts one impression per visit to the page, however often it rotates back in.
+  const seen = useRef(new Set<string>());
+
+  const current = banners[index % Math.max(banners.length, 1)];
+
+  useEffect(() => {
+    if (index >= banners.length) setIndex(0);
+  }, [banners.length, index]);
+
+  useEffect(() => {
+    if (current && !seen.current.has(current.id)) {
+      seen.current.add(current.id);
+      onImpression(current.id);
+    }
+  }, [current, onImpression]);
+
+  useEffect(() => {
+    if (banners.length < 2 || isPaused) return;
+    const timer = setInterval(() => setIndex(i => (i + 1) % banners.length), interval);
+    return () => clearInterval(timer);
+  }, [banners.length, isPaused, interval]);
+
+  if (!current) return null;
+
+  const go = (delta: number) => setIndex(i => (i + delta + banners.length) % banners.length);
+
+  return (
+    <div
+      className={`relative overflow-hidden rounded-lg shadow ${className}`}
+      onMouseEnter={() => setIsPaused(true)}
+      onMouseLeave={() => setIsPaused(false)}
+      aria-roledescription="carousel"
+    >
+      <a href={current.link} onClick={() => onClick(current.id)} className="block relative h-40 sm:h-56">
+        <img src={current.imageUrl} alt="" className="absolute inset-0 w-full h-full object-cover" />
+        <div className="absolute inset-0 bg-gradient-to-r from-black/70 via-black/30 to-transparent flex flex-col justify-center p-6 sm:p-10 text-white">
+          <h2 className="text-xl sm:text-3xl font-bold max-w-lg">{current.title}</h2>
+          {current.subtitle && <p className="mt-2 text-sm sm:text-base max-w-lg text-gray-100">{current.subtitle}</p>}
+        </div>
+      </a>
+      {banners.length > 1 && (
+        <>
+          <button onClick={() => go(-1)} aria-label={t('banner.previous')} className="absolute left-2 top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-black/40 text-white hover:bg-black/60">‹</button>
+          <button onClick={() => go(1)} aria-label={t('banner.next')} className="absolute right-2 top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-black/40 text-white hover:bg-black/60">›</button>
+          <div className="absolute bottom-3 left-0 right-0 flex justify-center gap-2">
+            {banners.map((b, i) => (
+              <button key={b.id} onClick={() => setIndex(i)} aria-label={t('banner.show', { index: i + 1 })} className={`w-2.5 h-2.5 rounded-full ${b.id === current.id ? 'bg-white' : 'bg-white/50 hover:bg-white/80'}`} />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
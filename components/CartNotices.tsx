@@ -0,0 +1,40 @@
+import React from 'react';
+import { CartNotice } from '../types';
+import { useCart } from '../hooks/useCart';
+import { useI18n } from '../hooks/useI18n';
+
+type I18n = ReturnType<typeof useI18n>;
+
+const describeNotice = (notice: CartNotice, { t, formatPrice }: I18n): string => {
+  switch (notice.type) {
+    case 'price_changed':
+      return t('cart.priceChanged', { name: notice.productName, newPrice: formatPrice(notice.newPrice!), oldPrice: formatPrice(notice.oldPrice!) });
+    case 'quantity_reduced':
+      return t('cart.quantityReduced', { quantity: notice.quantity!, name: notice.productName });
+    case 'out_of_stock':
+      return t('cart.movedToSaved', { name: notice.productName });
+    case 'unavailable':
+      return t('cart.unavailable');
+    case 'stock_limit':
+      return notice.quantity ? t('cart.stockLimit', { quantity: notice.quantity, name: notice.productName }) : t('cart.stockLimitNone', { name: notice.productName });
+  }
+};
+
+export const CartNotices: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const { notices, dismissNotice } = useCart();
+  const i18n = useI18n();
+  if (notices.length === 0) return null;
+
+  return (
+    <ul className={`space-y-2 ${className}`} aria-live="polite">
+      {notices.map(notice => (
+        <li key={notice.id} className={`flex items-start justify-between gap-3 p-3 rounded-lg text-sm border ${notice.type === 'price_changed' && notice.newPrice! < notice.oldPrice!
+          ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-500/30 text-green-800 dark:text-green-300'
+          : 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-500/30 text-yellow-800 dark:text-yellow-300'}`}>
+          <span>{describeNotice(notice, i18n)}</span>
+          <button onClick={() => dismissNotice(notice.id)} className="shrink-0 font-medium hover:underline">{notice.type === 'price_changed' ? i18n.t('common.ok') : i18n.t('common.dismiss')}</button>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { ContactSubmission } from '../types';
+import { ContactFieldErrors, validateContactSubmission } from '../services/ticketService';
+import { useI18n } from '../hooks/useI18n';
+
+interface ContactFormProps {
+  initialName?: string;
+  initialEmail?: string;
+  onSubmit: (submission: ContactSubmission) => void;
+}
+
+const inputClass = "mt-1 block w-full p-2 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 shadow-sm focus:border-indigo-500 focus:ring-indigo-500";
+
+export const ContactForm: React.FC<ContactFormProps> = ({ initialName = '', initialEmail = '', onSubmit }) => {
+  const [form, setForm] = useState<ContactSubmission>({ name: initialName, email: initialEmail, message: '', website: '' });
+  const [errors, setErrors] = useState<ContactFieldErrors>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSent, setIsSent] = useState(false);
+  const { t } = useI18n();
+
+  const update = (field: keyof ContactSubmission) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitError(null);
+    const fieldErrors = validateContactSubmission(form);
+    setErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) return;
+    try {
+      onSubmit(form);
+      setIsSent(true);
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : t('contact.sendFailed'));
+    }
+  };
+
+  if (isSent) {
+    return (
+      <div className="text-center space-y-4">
+        <p className="text-lg font-semibold text-green-700 dark:text-green-400">{t('contact.sent')}</p>
+        <p className="text-gray-600 dark:text-gray-400">{t('contact.replyTo', { email: form.email })}</p>
+        <button onClick={() => { setForm(prev => ({ ...prev, message: '' })); setIsSent(false); }} className="text-indigo-600 dark:text-indigo-400 font-medium hover:underline">{t('contact.sendAnother')}</button>
+      </div>
+    );
+  }
+
+  return (
+    <form className="text-left space-y-4" onSubmit={handleSubmit} noValidate>
+        <div>
+            <label htmlFor="contact-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('common.name')}</label>
+            <input type="text" id="contact-name" value={form.name} onChange={update('name')} className={inputClass} />
+            {errors.name && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.name}</p>}
+        </div>
+        <div>
+            <label htmlFor="contact-email" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('common.email')}</label>
+            <input type="email" id="contact-email" value={form.email} onChange={update('email')} className={inputClass} />
+            {errors.email && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.email}</p>}
+        </div>
+        <div>
+            <label htmlFor="contact-message" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('contact.message')}</label>
+            <textarea id="contact-message" rows={4} value={form.message} onChange={update('message')} className={inputClass}></textarea>
+            {errors.message && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.message}</p>}
+        </div>
+        {/* Honeypot: invisible to people, tempting to bots. */}
+        <div className="absolute -left-[10000px]" aria-hidden="true">
+            <label htmlFor="contact-website">Website</label>
+            <input type="text" id="contact-website" tabIndex={-1} autoComplete="off" value={form.website} onChange={update('website')} />
+        </div>
+        {submitError && <p className="text-sm text-red-600 dark:text-red-400">{submitError}</p>}
+        <button type="submit" className="w-full bg-indigo-600 text-white font-semibold py-3 px-6 rounded-lg hover:bg-indigo-700 transition-colors">
+            {t('contact.send')}
+        </button>
+    </form>
+  );
+};
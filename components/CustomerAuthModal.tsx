@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Credentials, Registration } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface CustomerAuthModalProps {
+  onClose: () => void;
+  onLogin: (credentials: Credentials) => Promise<unknown>;
+  onRegister: (registration: Registration) => Promise<unknown>;
+  onAdminLogin: () => void;
+}
+
+const inputClass = "mt-1 block w-full p-2 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 shadow-sm focus:border-indigo-500 focus:ring-indigo-500";
+
+export const CustomerAuthModal: React.FC<CustomerAuthModalProps> = ({ onClose, onLogin, onRegister, onAdminLogin }) => {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { t } = useI18n();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      if (mode === 'login') {
+        await onLogin({ email, password });
+      } else {
+        await onRegister({ name, email, password });
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('auth.genericError'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full p-8" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200">{mode === 'login' ? t('auth.signIn') : t('auth.createAccount')}</h2>
+          <button onClick={onClose} aria-label={t('common.close')} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+          </button>
+        </div>
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          {mode === 'register' && (
+            <div>
+              <label htmlFor="customer-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('common.name')}</label>
+              <input type="text" id="customer-name" required value={name} onChange={e => setName(e.target.value)} className={inputClass} />
+            </div>
+          )}
+          <div>
+            <label htmlFor="customer-email" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('common.email')}</label>
+            <input type="email" id="customer-email" required value={email} onChange={e => setEmail(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="customer-password" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('auth.password')}</label>
+            <input type="password" id="customer-password" required minLength={mode === 'register' ? 8 : undefined} value={password} onChange={e => setPassword(e.target.value)} className={inputClass} />
+          </div>
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          <button type="submit" disabled={isSubmitting} className="w-full bg-indigo-600 text-white font-semibold py-3 px-6 rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50">
+            {isSubmitting ? t('auth.pleaseWait') : mode === 'login' ? t('auth.signIn') : t('auth.createAccount')}
+          </button>
+        </form>
+        <div className="mt-6 text-sm text-center text-gray-600 dark:text-gray-400 space-y-2">
+          <p>
+            {mode === 'login' ? t('auth.newHere') : t('auth.haveAccount')}{' '}
+            <button onClick={() => { setMode(mode === 'login' ? 'register' : 'login'); setError(null); }} className="text-indigo-600 dark:text-indigo-400 font-medium hover:underline">
+              {mode === 'login' ? t('auth.createLink') : t('auth.signInLink')}
+            </button>
+          </p>
+          <p><button onClick={onAdminLogin} className="hover:underline">{t('auth.staffLogin')}</button></p>
+        </div>
+      </div>
+    </div>
+  );
+};
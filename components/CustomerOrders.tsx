@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from 'react';
+import { Order, OrderStatus, ReturnRequestStatus } from '../types';
+import { ReorderPlan, RETURN_WINDOW_DAYS, getOrderCurrency, getReturnError, getStatusDate } from '../services/orderService';
+import { useI18n } from '../hooks/useI18n';
+import { OrderTimeline } from './OrderTimeline';
+import { OrderSummary } from './OrderSummary';
+
+interface CustomerOrdersProps {
+  /** The signed-in customer's orders, newest first. */
+  orders: Order[];
+  selectedOrderId: string | null;
+  onSelectOrder: (orderId: string | null) => void;
+  /** The three actions below throw with a customer-facing message if they can't go ahead. */
+  onCancel: (orderId: string) => void;
+  onRequestReturn: (orderId: string, reason: string) => void;
+  onReorder: (order: Order) => ReorderPlan;
+}
+
+const statusStyles: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300',
+  shipped: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300',
+  delivered: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  cancelled: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  refunded: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+};
+
+const STATUS_FILTERS: OrderStatus[] = ['pending', 'shipped', 'delivered', 'cancelled', 'refunded'];
+
+export const CustomerOrders: React.FC<CustomerOrdersProps> = ({ orders, selectedOrderId, onSelectOrder, onCancel, onRequestReturn, onReorder }) => {
+  const { t, formatDate, formatCurrency, formatNumber } = useI18n();
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | 'all'>('all');
+  const [isConfirmingCancel, setConfirmingCancel] = useState(false);
+  const [isReturnFormOpen, setReturnFormOpen] = useState(false);
+  const [returnReason, setReturnReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const statusLabel = (status: OrderStatus) => t(`orderStatus.${status}`);
+  const returnLabel = (status: ReturnRequestStatus) => t(`returnStatus.${status}`);
+
+  const visible = useMemo(() => statusFilter === 'all' ? orders : orders.filter(o => o.status === statusFilter), [orders, statusFilter]);
+  const selected = orders.find(o => o.id === selectedOrderId) ?? null;
+
+  const openOrder = (orderId: string | null) => {
+    setConfirmingCancel(false);
+    setReturnFormOpen(false);
+    setReturnReason('');
+    setError(null);
+    setMessage(null);
+    onSelectOrder(orderId);
+  };
+
+  // Runs a customer action, showing its error instead of letting it escape.
+  const attempt = (action: () => void) => {
+    try {
+      setError(null);
+      action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleReorder = (order: Order) => attempt(() => {
+    const plan = onReorder(order);
+    const added = plan.lines.reduce((sum, line) => sum + line.quantity, 0);
+    setMessage([
+      added > 0 && t('account.reordered', { count: added }),
+      plan.unavailable.length > 0 && t('account.reorderUnavailable', { names: plan.unavailable.join(', ') }),
+    ].filter(Boolean).join(' '));
+  });
+
+  const handleSubmitReturn = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    attempt(() => {
+      onRequestReturn(selected.id, returnReason);
+      setReturnFormOpen(false);
+      setReturnReason('');
+    });
+  };
+
+  const statusBadge = (status: OrderStatus) => (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${statusStyles[status]}`}>{statusLabel(status)}</span>
+  );
+
+  if (selected) {
+    const deliveredAt = getStatusDate(selected, 'delivered');
+    const canReturn = getReturnError(selected) === null;
+    return (
+      <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-6">
+        <button onClick={() => openOrder(null)} className="text-sm text-indigo-600 dark:text-indigo-400 hover:underline">{t('account.backToOrders')}</button>
+        <div className="flex flex-wrap justify-between items-start gap-2">
+          <div>
+            <h2 className="text-lg font-semibold">{t('orders.order')} <span className="font-mono">{selected.id}</span></h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('account.placedOn', { date: formatDate(selected.date) })}</p>
+          </div>
+          {statusBadge(selected.status)}
+        </div>
+
+        <OrderTimeline order={selected} />
+
+        <div className="text-sm">
+          <h3 className="font-semibold mb-2">{t('orders.items')}</h3>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {selected.itemsList.map(item => (
+              <li key={`${item.productId}-${item.variantId ?? ''}`} className="py-2 flex justify-between gap-4">
+                <span>{item.productName} × {formatNumber(item.quantity)}</span>
+                <span>{formatCurrency(item.price * item.quantity, getOrderCurrency(selected))}</span>
+              </li>
+            ))}
+          </ul>
+          {selected.shippingAddress && <p className="mt-3 text-gray-600 dark:text-gray-400">{t('account.shipTo')}: {selected.shippingAddress}</p>}
+        </div>
+
+        {selected.breakdown && <OrderSummary breakdown={selected.breakdown} currency={getOrderCurrency(selected)} />}
+
+        {selected.returnRequest && (
+          <div className="p-3 rounded bg-gray-50 dark:bg-gray-700 text-sm">
+            <p className="font-medium">{returnLabel(selected.returnRequest.status)}</p>
+            <p className="text-gray-600 dark:text-gray-400">{selected.returnRequest.reason}</p>
+          </div>
+        )}
+
+        {isReturnFormOpen && (
+          <form onSubmit={handleSubmitReturn} className="space-y-2 text-sm">
+            <label htmlFor="return-reason" className="block font-medium">{t('account.returnReason')}</label>
+            <textarea id="return-reason" rows={3} value={returnReason} onChange={e => setReturnReason(e.target.value)} className="block w-full p-2 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 shadow-sm focus:border-indigo-500 focus:ring-indigo-500" />
+            <div className="flex gap-2">
+              <button type="submit" className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-700">{t('account.submitReturn')}</button>
+              <button type="button" onClick={() => setReturnFormOpen(false)} className="px-4 py-2 rounded-lg border dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">{t('common.cancel')}</button>
+            </div>
+          </form>
+        )}
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        {message && <p className="text-sm p-3 rounded bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300">{message}</p>}
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <button onClick={() => handleReorder(selected)} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-700">{t('account.reorder')}</button>
+          {selected.status === 'pending' && (isConfirmingCancel ? (
+            <>
+              <span>{t('account.confirmCancel')}</span>
+              <button onClick={() => attempt(() => { onCancel(selected.id); setConfirmingCancel(false); })} className="px-4 py-2 rounded-lg bg-red-600 text-white font-semibold hover:bg-red-700">{t('account.cancelYes')}</button>
+              <button onClick={() => setConfirmingCancel(false)} className="px-4 py-2 rounded-lg border dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">{t('account.cancelNo')}</button>
+            </>
+          ) : (
+            <button onClick={() => setConfirmingCancel(true)} className="px-4 py-2 rounded-lg border border-red-300 text-red-600 dark:text-red-400 dark:border-red-500/40 hover:bg-red-50 dark:hover:bg-red-900/20">{t('account.cancel')}</button>
+          ))}
+          {canReturn && !isReturnFormOpen && (
+            <button onClick={() => setReturnFormOpen(true)} className="px-4 py-2 rounded-lg border dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">{t('account.requestReturn')}</button>
+          )}
+          {canReturn && deliveredAt && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {t('account.returnWindow', { date: formatDate(new Date(new Date(deliveredAt).getTime() + RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString()) })}
+            </span>
+          )}
+        </div>
+      </section>
+    );
+  }
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg shadow">
+      <div className="p-4 border-b dark:border-gray-700 flex flex-wrap justify-between items-center gap-2">
+        <h2 className="text-lg font-semibold">{t('account.ordersTitle')}</h2>
+        <div className="flex flex-wrap gap-1">
+          {(['all', ...STATUS_FILTERS] as const).map(s => (
+            <button key={s} onClick={() => setStatusFilter(s)} className={`px-3 py-1 rounded-full text-xs font-medium ${statusFilter === s ? 'bg-indigo-600 text-white' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}>
+              {s === 'all' ? t('common.all') : `${statusLabel(s)} (${orders.filter(o => o.status === s).length})`}
+            </button>
+          ))}
+        </div>
+      </div>
+      {visible.length === 0 ? (
+        <p className="p-6 text-sm text-center text-gray-500 dark:text-gray-400">{orders.length === 0 ? t('account.noOrders') : t('account.noOrdersFilter')}</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {visible.map(order => (
+            <li key={order.id}>
+              <button onClick={() => openOrder(order.id)} className="w-full text-left p-4 flex flex-wrap justify-between items-center gap-2 hover:bg-gray-50 dark:hover:bg-gray-700">
+                <div>
+                  <p className="font-mono text-sm">{order.id}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {t('account.placedOn', { date: formatDate(order.date) })} · {t('account.itemCount', { count: order.itemsList.reduce((sum, item) => sum + item.quantity, 0) })}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  {order.returnRequest?.status === 'requested' && <span className="text-xs text-gray-500 dark:text-gray-400">{returnLabel('requested')}</span>}
+                  {statusBadge(order.status)}
+                  <span className="font-semibold text-sm">{formatCurrency(order.total, getOrderCurrency(order))}</span>
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { findMatchSpans } from '../services/searchService';
+
+interface HighlightedTextProps {
+  text: string;
+  /** Normalized tokens from a search result's matchedTerms. */
+  terms: string[];
+  /** Shows only this many characters, starting just before the first match. */
+  excerptLength?: number;
+  /** Renders nothing when the text has no match. */
+  matchesOnly?: boolean;
+  className?: string;
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms, excerptLength, matchesOnly = false, className }) => {
+  const spans = findMatchSpans(text, terms);
+  if (matchesOnly && spans.length === 0) return null;
+
+  let start = 0;
+  let end = text.length;
+  if (excerptLength && text.length > excerptLength) {
+    start = Math.max(0, Math.min((spans[0]?.[0] ?? 0) - Math.floor(excerptLength / 4), text.length - excerptLength));
+    end = start + excerptLength;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = start;
+  spans.filter(([from, to]) => from >= start && to <= end).forEach(([from, to]) => {
+    parts.push(text.slice(cursor, from));
+    parts.push(<mark key={from} className="bg-yellow-200 dark:bg-yellow-600/50 text-inherit rounded px-0.5">{text.slice(from, to)}</mark>);
+    cursor = to;
+  });
+  parts.push(text.slice(cursor, end));
+
+  return (
+    <span className={className}>
+      {start > 0 && '…'}{parts}{end < text.length && '…'}
+    </span>
+  );
+};
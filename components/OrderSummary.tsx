@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { CurrencyCode, PriceBreakdown, TaxRate } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface OrderSummaryProps {
+  breakdown: PriceBreakdown;
+  /** Region picker and coupon entry only show when these are provided (i.e. during checkout). */
+  regions?: TaxRate[];
+  onRegionChange?: (region: string | undefined) => void;
+  onApplyCoupon?: (code: string) => void;
+  onRemoveCoupon?: () => void;
+  couponError?: string | null;
+  /** For a placed order: the currency it was charged in, so amounts show as charged rather than converted. */
+  currency?: CurrencyCode;
+}
+
+const Row: React.FC<{ label: string; value: string; className?: string }> = ({ label, value, className = '' }) => (
+  <div className={`flex justify-between ${className}`}><span>{label}</span><span>{value}</span></div>
+);
+
+export const OrderSummary: React.FC<OrderSummaryProps> = ({ breakdown, regions, onRegionChange, onApplyCoupon, onRemoveCoupon, couponError, currency }) => {
+  const [code, setCode] = useState('');
+  const { t, formatPrice, formatStorePrice, formatCurrency, formatNumber, displayCurrency, currencySettings } = useI18n();
+  const money = (amount: number) => currency ? formatCurrency(amount, currency) : formatPrice(amount);
+  const taxRate = formatNumber(breakdown.taxRate * 100, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+      <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200">{t('summary.title')}</h2>
+
+      {regions && onRegionChange && (
+        <div>
+          <label htmlFor="summary-region" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('summary.region')}</label>
+          <select id="summary-region" value={breakdown.taxRegion ?? ''} onChange={e => onRegionChange(e.target.value || undefined)} className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 p-2 text-sm">
+            <option value="">{t('summary.otherRegion')}</option>
+            {regions.map(r => <option key={r.region} value={r.region}>{r.region}</option>)}
+          </select>
+        </div>
+      )}
+
+      {onApplyCoupon && (
+        breakdown.couponCode ? (
+          <div className="flex justify-between items-center text-sm p-2 rounded bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300">
+            <span>{t('summary.couponApplied')} <span className="font-mono font-semibold">{breakdown.couponCode}</span></span>
+            {onRemoveCoupon && <button onClick={onRemoveCoupon} className="hover:underline">{t('common.remove')}</button>}
+          </div>
+        ) : (
+          <form onSubmit={e => { e.preventDefault(); if (code.trim()) onApplyCoupon(code); }} className="space-y-1">
+            <div className="flex gap-2">
+              <input type="text" aria-label={t('summary.couponCode')} placeholder={t('summary.couponCode')} value={code} onChange={e => setCode(e.target.value)} className="flex-1 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 p-2 text-sm uppercase" />
+              <button type="submit" className="px-4 rounded-md border dark:border-gray-600 text-sm hover:bg-gray-100 dark:hover:bg-gray-700">{t('summary.apply')}</button>
+            </div>
+            {couponError && <p className="text-sm text-red-600 dark:text-red-400">{couponError}</p>}
+          </form>
+        )
+      )}
+
+      <div className="space-y-2 text-sm text-gray-600 dark:text-gray-400">
+        <Row label={t('summary.subtotal')} value={money(breakdown.subtotal)} />
+        {breakdown.discount > 0 && <Row label={t('summary.discount')} value={`−${money(breakdown.discount)}`} className="text-green-600 dark:text-green-400" />}
+        <Row label={t('summary.shipping', { weight: breakdown.weightKg })} value={breakdown.shipping === 0 ? t('summary.free') : money(breakdown.shipping)} />
+        <Row label={breakdown.taxRegion ? t('summary.taxInRegion', { rate: taxRate, region: breakdown.taxRegion }) : t('summary.tax', { rate: taxRate })} value={money(breakdown.tax)} />
+        <Row label={t('summary.total')} value={money(breakdown.total)} className="pt-2 border-t dark:border-gray-700 text-base font-bold text-gray-900 dark:text-white" />
+      </div>
+      {!currency && displayCurrency !== currencySettings.storeCurrency && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {t('summary.chargedIn', { display: displayCurrency, amount: formatStorePrice(breakdown.total), store: currencySettings.storeCurrency })}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Order, OrderStatus } from '../types';
+import { ORDER_PROGRESS, getStatusDate } from '../services/orderService';
+import { useI18n } from '../hooks/useI18n';
+
+interface OrderTimelineProps {
+  order: Order;
+  className?: string;
+}
+
+// Cancelled orders stop after "pending"; refunds follow delivery.
+const stepsFor = (status: OrderStatus): OrderStatus[] =>
+  status === 'cancelled' ? ['pending', 'cancelled'] : status === 'refunded' ? [...ORDER_PROGRESS, 'refunded'] : ORDER_PROGRESS;
+
+export const OrderTimeline: React.FC<OrderTimelineProps> = ({ order, className = '' }) => {
+  const { t, formatDateTime } = useI18n();
+  const statusLabel = (status: OrderStatus) => t(`orderStatus.${status}`);
+  const steps = stepsFor(order.status);
+  const currentIndex = steps.indexOf(order.status);
+
+  return (
+    <div className={`text-sm ${className}`}>
+      <ol className="flex items-start">
+        {steps.map((step, i) => {
+          const isDone = i <= currentIndex;
+          const isEnded = step === 'cancelled' || step === 'refunded';
+          const date = getStatusDate(order, step);
+          return (
+            <li key={step} className="flex-1 flex flex-col items-center text-center relative">
+              {i > 0 && <span className={`absolute top-2 right-1/2 w-full h-0.5 ${isDone ? (isEnded ? 'bg-red-400' : 'bg-indigo-500') : 'bg-gray-200 dark:bg-gray-700'}`} />}
+              <span className={`relative z-10 h-4 w-4 rounded-full border-2 ${isDone ? (isEnded ? 'bg-red-500 border-red-500' : 'bg-indigo-600 border-indigo-600') : 'bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600'}`} />
+              <span className={`mt-2 font-medium ${isDone ? '' : 'text-gray-400 dark:text-gray-500'}`}>{statusLabel(step)}</span>
+              {isDone && date && <span className="text-xs text-gray-500 dark:text-gray-400">{formatDateTime(date)}</span>}
+            </li>
+          );
+        })}
+      </ol>
+      <p className="mt-4 text-gray-600 dark:text-gray-400">
+        {order.trackingNumber
+          ? <>{t('account.tracking')}: <span className="font-mono text-gray-900 dark:text-gray-100">{order.trackingNumber}</span></>
+          : order.status === 'pending' && t('account.trackingPending')}
+      </p>
+    </div>
+  );
+};
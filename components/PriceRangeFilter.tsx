@@ -0,0 +1,84 @@
+import React, { useMemo } from 'react';
+import { buildPriceHistogram, computePriceBands, getPriceBounds, isInPriceBand } from '../services/priceService';
+import { useI18n } from '../hooks/useI18n';
+
+interface PriceRangeFilterProps {
+  /** Prices of the whole catalog, in the store currency; bands and slider bounds come from these. */
+  catalogPrices: number[];
+  /** Prices of products matching every other active filter; drives the histogram and band counts. */
+  matchingPrices: number[];
+  value: [number, number];
+  onChange: (range: [number, number]) => void;
+}
+
+const inputClass = "w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm p-1";
+// Whole amounts read better without the trailing ".00" on band edges and histogram tips.
+const wholeIfInteger = (value: number): Intl.NumberFormatOptions =>
+  Number.isInteger(value) ? { minimumFractionDigits: 0, maximumFractionDigits: 0 } : {};
+
+// Band edges survive the trip through store currency only to within a cent.
+const sameAmount = (a: number, b: number) => a === b || Math.abs(a - b) < 0.005;
+
+const sliderClass = "absolute inset-0 w-full appearance-none bg-transparent pointer-events-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-moz-range-thumb]:pointer-events-auto accent-indigo-600";
+
+export const PriceRangeFilter: React.FC<PriceRangeFilterProps> = ({ catalogPrices, matchingPrices, value: storeValue, onChange: onStoreChange }) => {
+  const { t, formatPrice, displayRate } = useI18n();
+
+  // Everything below works in the shopper's display currency, so band edges come out
+  // as round numbers in that currency. The range itself is kept in store currency.
+  const toDisplay = (amount: number) => amount === Infinity ? Infinity : Math.round(amount * displayRate * 100) / 100;
+  const fromDisplay = (amount: number) => amount === Infinity ? Infinity : amount / displayRate;
+  const label = (amount: number) => formatPrice(amount / displayRate, wholeIfInteger(amount));
+  const value: [number, number] = [toDisplay(storeValue[0]), toDisplay(storeValue[1])];
+  const onChange = ([min, max]: [number, number]) => onStoreChange([fromDisplay(min), fromDisplay(max)]);
+
+  const displayCatalog = useMemo(() => catalogPrices.map(p => p * displayRate), [catalogPrices, displayRate]);
+  const displayMatching = useMemo(() => matchingPrices.map(p => p * displayRate), [matchingPrices, displayRate]);
+  const bounds = useMemo(() => getPriceBounds(displayCatalog), [displayCatalog]);
+  const bands = useMemo(() => computePriceBands(displayCatalog), [displayCatalog]);
+  const histogram = useMemo(() => buildPriceHistogram(displayMatching, bounds), [displayMatching, bounds]);
+  const tallestBin = Math.max(1, ...histogram.map(bin => bin.count));
+
+  const [low, high] = [Math.max(value[0], bounds[0]), Math.min(value[1], bounds[1])];
+  const isAll = value[0] === 0 && value[1] === Infinity;
+
+  // The handles sit on the catalog bounds; dragging one to the edge reopens that side.
+  const setLow = (next: number) => onChange([next <= bounds[0] ? 0 : Math.min(next, high), value[1]]);
+  const setHigh = (next: number) => onChange([value[0], next >= bounds[1] ? Infinity : Math.max(next, low)]);
+
+  if (catalogPrices.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-end gap-px h-12" aria-hidden="true">
+        {histogram.map((bin, i) => (
+          <div key={i} title={`${label(Math.round(bin.min))}–${label(Math.round(bin.max))}: ${bin.count}`} className={`flex-1 rounded-t ${bin.max >= low && bin.min <= high ? 'bg-indigo-400 dark:bg-indigo-500' : 'bg-gray-200 dark:bg-gray-700'}`} style={{ height: `${(bin.count / tallestBin) * 100}%`, minHeight: bin.count > 0 ? 2 : 0 }} />
+        ))}
+      </div>
+      <div className="relative h-5">
+        <input type="range" aria-label={t('price.minLabel')} min={bounds[0]} max={bounds[1]} value={low} onChange={e => setLow(Number(e.target.value))} className={sliderClass} />
+        <input type="range" aria-label={t('price.maxLabel')} min={bounds[0]} max={bounds[1]} value={high} onChange={e => setHigh(Number(e.target.value))} className={sliderClass} />
+      </div>
+      <div className="flex items-center gap-2">
+        <input type="number" aria-label={t('price.minLabel')} min={0} placeholder={t('price.min')} value={value[0] === 0 ? '' : value[0]} onChange={e => onChange([e.target.value === '' ? 0 : Math.max(0, Number(e.target.value)), value[1]])} className={inputClass} />
+        <span className="text-gray-400">–</span>
+        <input type="number" aria-label={t('price.maxLabel')} min={0} placeholder={t('price.max')} value={value[1] === Infinity ? '' : value[1]} onChange={e => onChange([value[0], e.target.value === '' ? Infinity : Math.max(0, Number(e.target.value))])} className={inputClass} />
+      </div>
+      <div className="space-y-1">
+        {bands.map(band => {
+          const isActive = sameAmount(value[0], band.min) && sameAmount(value[1], band.max);
+          const count = displayMatching.filter(p => isInPriceBand(p, band)).length;
+          const bandLabel = band.min === 0 ? t('price.under', { price: label(band.max) })
+            : band.max === Infinity ? t('price.over', { price: label(band.min) })
+            : t('price.between', { min: label(band.min), max: label(band.max) });
+          return (
+            <button key={band.min} onClick={() => onChange(isActive ? [0, Infinity] : [band.min, band.max])} className={`w-full flex justify-between text-left p-2 rounded text-sm dark:text-gray-300 ${isActive ? 'bg-indigo-100 dark:bg-indigo-900/50' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}>
+              <span>{bandLabel}</span><span className="text-xs text-gray-400 dark:text-gray-500">{count}</span>
+            </button>
+          );
+        })}
+        <button onClick={() => onChange([0, Infinity])} className={`w-full text-left p-2 rounded text-sm dark:text-gray-300 ${isAll ? 'font-bold' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}>{t('price.all')}</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React, { useMemo } from 'react';
+import { Order, Product } from '../types';
+import { getAlsoBought, getSimilarProducts } from '../services/recommendationService';
+import { getPriceRange } from '../services/variantService';
+import { useI18n } from '../hooks/useI18n';
+
+interface ProductRecommendationsProps {
+  product: Product;
+  /** The catalog in the shopper's language. */
+  products: Product[];
+  orders: Order[];
+  onSelect: (product: Product) => void;
+}
+
+export const ProductRecommendations: React.FC<ProductRecommendationsProps> = ({ product, products, orders, onSelect }) => {
+  const { t, formatPrice } = useI18n();
+  const alsoBought = useMemo(() => getAlsoBought(product.id, orders, products), [product.id, orders, products]);
+  // Anything already under "also bought" isn't repeated as a similar item.
+  const similar = useMemo(
+    () => getSimilarProducts(product, products.filter(p => !alsoBought.includes(p))),
+    [product, products, alsoBought],
+  );
+
+  const renderRow = (title: string, items: Product[]) => items.length > 0 && (
+    <div>
+      <h3 className="text-lg font-semibold mb-3">{title}</h3>
+      <ul className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {items.map(item => (
+          <li key={item.id}>
+            <button onClick={() => onSelect(item)} className="w-full text-left rounded-lg border dark:border-gray-700 p-2 hover:shadow-md hover:border-indigo-300 dark:hover:border-indigo-500/40">
+              {item.imageUrls[0] && <img src={item.imageUrls[0]} alt="" className="h-24 w-full rounded object-cover" />}
+              <span className="block mt-2 text-sm font-medium line-clamp-2">{item.name}</span>
+              <span className="block text-xs text-gray-500 dark:text-gray-400">{formatPrice(getPriceRange(item)[0])}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  if (alsoBought.length === 0 && similar.length === 0) return null;
+
+  return (
+    <section className="mt-8 space-y-6 text-gray-900 dark:text-gray-100">
+      {renderRow(t('recommendations.alsoBought'), alsoBought)}
+      {renderRow(t('recommendations.similar'), similar)}
+    </section>
+  );
+};
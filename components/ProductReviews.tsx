@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { ProductReview } from '../types';
+import { summarizeRatings } from '../services/reviewService';
+import { StarRating } from './StarRating';
+import { useI18n } from '../hooks/useI18n';
+
+interface ProductReviewsProps {
+  /** Approved reviews for this product only. */
+  reviews: ProductReview[];
+  /** Why the current shopper can't write a review, or null if they can. */
+  eligibilityError: string | null;
+  /** Throws with a user-facing message if the review is rejected. */
+  onSubmit: (rating: number, comment: string) => void;
+}
+
+type ReviewSort = 'newest' | 'rating_desc' | 'rating_asc';
+
+export const ProductReviews: React.FC<ProductReviewsProps> = ({ reviews, eligibilityError, onSubmit }) => {
+  const [sortBy, setSortBy] = useState<ReviewSort>('newest');
+  const [starFilter, setStarFilter] = useState<number | null>(null);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+  const { t, formatDate, formatNumber } = useI18n();
+
+  const summary = useMemo(() => summarizeRatings(reviews), [reviews]);
+  const visible = useMemo(() => reviews
+    .filter(r => starFilter === null || r.rating === starFilter)
+    .sort((a, b) => {
+      switch (sortBy) {
+        case 'rating_desc': return b.rating - a.rating || b.date.localeCompare(a.date);
+        case 'rating_asc': return a.rating - b.rating || b.date.localeCompare(a.date);
+        default: return b.date.localeCompare(a.date);
+      }
+    }), [reviews, starFilter, sortBy]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setError(null);
+      onSubmit(rating, comment);
+      setSubmitted(true);
+      setRating(0);
+      setComment('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <section className="mt-6 pt-6 border-t dark:border-gray-700 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200">
+          {t('reviews.title')} {summary.count > 0 && <span className="text-sm font-normal text-gray-500 dark:text-gray-400">({formatNumber(summary.count)})</span>}
+        </h3>
+        {summary.count > 0 && (
+          <div className="flex items-center gap-2">
+            <StarRating rating={summary.average} className="text-yellow-400" />
+            <span className="text-sm text-gray-600 dark:text-gray-400">{t('reviews.outOf5', { average: formatNumber(summary.average, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) })}</span>
+          </div>
+        )}
+      </div>
+
+      {summary.count > 0 && (
+        <div className="space-y-1">
+          {([5, 4, 3, 2, 1] as const).map(star => (
+            <button key={star} onClick={() => setStarFilter(starFilter === star ? null : star)} className={`flex items-center gap-2 w-full text-xs rounded px-1 ${starFilter === star ? 'bg-indigo-50 dark:bg-indigo-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-700'}`}>
+              <span className="w-12 text-left">{t('reviews.starRow', { count: star })}</span>
+              <span className="flex-1 h-2 rounded bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                <span className="block h-full bg-yellow-400" style={{ width: `${summary.count ? summary.distribution[star] / summary.count * 100 : 0}%` }} />
+              </span>
+              <span className="w-6 text-right text-gray-500 dark:text-gray-400">{summary.distribution[star]}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {summary.count > 0 && (
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-500 dark:text-gray-400">
+            {starFilter !== null ? <>{t('reviews.showingStars', { count: starFilter })} · <button onClick={() => setStarFilter(null)} className="text-indigo-600 dark:text-indigo-400 hover:underline">{t('reviews.showAll')}</button></> : t('reviews.showingAll', { count: summary.count })}
+          </span>
+          <select aria-label={t('reviews.sortLabel')} value={sortBy} onChange={e => setSortBy(e.target.value as ReviewSort)} className="rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 p-1 text-sm">
+            <option value="newest">{t('reviews.sort.newest')}</option>
+            <option value="rating_desc">{t('reviews.sort.ratingDesc')}</option>
+            <option value="rating_asc">{t('reviews.sort.ratingAsc')}</option>
+          </select>
+        </div>
+      )}
+
+      {summary.count === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t('reviews.none')}</p>
+      ) : (
+        <ul className="space-y-3 max-h-72 overflow-y-auto">
+          {visible.map(r => (
+            <li key={r.id} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-sm">{r.username}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">{formatDate(r.date)}</span>
+              </div>
+              <StarRating rating={r.rating} className="text-yellow-400" />
+              <p className="mt-1 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{r.comment}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {submitted ? (
+        <p className="text-sm p-3 rounded bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300">{t('reviews.thanks')}</p>
+      ) : eligibilityError ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{eligibilityError}</p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <div className="flex items-center gap-1" role="radiogroup" aria-label={t('reviews.yourRating')}>
+            {[1, 2, 3, 4, 5].map(star => (
+              <button key={star} type="button" role="radio" aria-checked={rating === star} aria-label={t('reviews.starLabel', { count: star })} onClick={() => setRating(star)} className={`text-2xl leading-none ${star <= rating ? 'text-yellow-400' : 'text-gray-300 dark:text-gray-600'}`}>★</button>
+            ))}
+          </div>
+          <textarea rows={3} value={comment} onChange={e => setComment(e.target.value)} placeholder={t('reviews.placeholder')} className="block w-full p-2 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm" />
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          <button type="submit" className="bg-indigo-600 text-white text-sm font-semibold py-2 px-4 rounded-lg hover:bg-indigo-700">{t('reviews.submit')}</button>
+        </form>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { useCart } from '../hooks/useCart';
+import { useI18n } from '../hooks/useI18n';
+
+interface SavedForLaterProps {
+  /** Also lists the cart's own lines with a "Save for later" action. */
+  showCartLines?: boolean;
+  className?: string;
+}
+
+const lineName = (item: { name: string; variantLabel?: string }) => item.variantLabel ? `${item.name} (${item.variantLabel})` : item.name;
+
+export const SavedForLater: React.FC<SavedForLaterProps> = ({ showCartLines = false, className = '' }) => {
+  const { cartItems, savedItems, saveForLater, moveToCart, removeSaved } = useCart();
+  const { t, formatPrice } = useI18n();
+  if (savedItems.length === 0 && !(showCartLines && cartItems.length > 0)) return null;
+
+  return (
+    <div className={`space-y-4 text-sm ${className}`}>
+      {showCartLines && cartItems.length > 0 && (
+        <div>
+          <h3 className="font-semibold text-gray-800 dark:text-gray-200 mb-2">{t('cart.inYourCart')}</h3>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {cartItems.map(item => (
+              <li key={`${item.id}-${item.variantId ?? ''}`} className="flex items-center justify-between gap-3 py-2">
+                <span>{lineName(item)} × {item.quantity} <span className="text-gray-500 dark:text-gray-400">· {formatPrice(item.price * item.quantity)}</span></span>
+                <button onClick={() => saveForLater(item.id, item.variantId)} className="shrink-0 text-indigo-600 dark:text-indigo-400 hover:underline">{t('cart.saveForLater')}</button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {savedItems.length > 0 && (
+        <div>
+          <h3 className="font-semibold text-gray-800 dark:text-gray-200 mb-2">{t('cart.savedTitle', { count: savedItems.length })}</h3>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {savedItems.map(item => (
+              <li key={`${item.id}-${item.variantId ?? ''}`} className="flex items-center justify-between gap-3 py-2">
+                <span>
+                  {lineName(item)} <span className="text-gray-500 dark:text-gray-400">· {formatPrice(item.price)}</span>
+                  {item.stock <= 0 && <span className="ml-2 text-xs text-red-600 dark:text-red-400">{t('common.outOfStock')}</span>}
+                </span>
+                <span className="shrink-0 space-x-3">
+                  <button onClick={() => moveToCart(item.id, item.variantId)} disabled={item.stock <= 0} className="text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50 disabled:no-underline disabled:cursor-not-allowed">{t('cart.moveToCart')}</button>
+                  <button onClick={() => removeSaved(item.id, item.variantId)} className="text-gray-500 dark:text-gray-400 hover:underline">{t('common.remove')}</button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
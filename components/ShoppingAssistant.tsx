@@ -0,0 +1,139 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AssistantCartAction, Product } from '../types';
+import { canUseAiAssistant, resolveCartAction } from '../services/assistantService';
+import { getPriceRange, getVariant, getVariantLabel } from '../services/variantService';
+import { useAssistant } from '../hooks/useAssistant';
+import { useI18n } from '../hooks/useI18n';
+
+interface ShoppingAssistantProps {
+  /** The catalog in the shopper's language; answers are grounded in it. */
+  products: Product[];
+  /** Returns how many units went in, which stock may cap below the quantity asked for. */
+  onAddToCart: (action: AssistantCartAction) => number;
+  onSelectProduct: (product: Product) => void;
+}
+
+export const ShoppingAssistant: React.FC<ShoppingAssistantProps> = ({ products, onAddToCart, onSelectProduct }) => {
+  const { t, locale, formatPrice, formatNumber } = useI18n();
+  const { messages, isThinking, send, proposeCartAction, answerCartActions, reset } = useAssistant(products, locale, onAddToCart);
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages, isThinking]);
+
+  // While a reply is pending the question isn't sent, so it stays in the box.
+  const ask = (question: string) => {
+    if (isThinking || !question.trim()) return;
+    setDraft('');
+    send(question);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    ask(draft);
+  };
+
+  const describeAction = (action: AssistantCartAction) => {
+    const product = products.find(p => p.id === action.productId);
+    if (!product) return '';
+    const variant = getVariant(product, action.variantId);
+    const name = variant ? `${product.name} (${getVariantLabel(product, variant)})` : product.name;
+    return `${name} × ${formatNumber(action.quantity)}`;
+  };
+
+  const renderProduct = (product: Product) => {
+    const [min, max] = getPriceRange(product);
+    const action = resolveCartAction(products, product.id);
+    return (
+      <li key={product.id} className="flex items-center gap-3 p-2 rounded-md bg-gray-50 dark:bg-gray-700">
+        <button onClick={() => onSelectProduct(product)} className="flex items-center gap-3 flex-1 min-w-0 text-left">
+          {product.imageUrls[0] && <img src={product.imageUrls[0]} alt="" className="h-10 w-10 rounded object-cover shrink-0" />}
+          <span className="min-w-0">
+            <span className="block truncate font-medium">{product.name}</span>
+            <span className="block text-xs text-gray-500 dark:text-gray-400">{min === max ? formatPrice(min) : `${formatPrice(min)} – ${formatPrice(max)}`}</span>
+          </span>
+        </button>
+        {action ? (
+          <button onClick={() => proposeCartAction(action)} className="shrink-0 text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:underline">{t('assistant.add')}</button>
+        ) : (
+          <span className="shrink-0 text-xs text-red-600 dark:text-red-400">{t('common.outOfStock')}</span>
+        )}
+      </li>
+    );
+  };
+
+  if (!isOpen) {
+    return (
+      <button onClick={() => setIsOpen(true)} className="fixed bottom-4 right-4 z-40 bg-indigo-600 text-white font-semibold py-3 px-5 rounded-full shadow-lg hover:bg-indigo-700">
+        {t('assistant.open')}
+      </button>
+    );
+  }
+
+  return (
+    <section aria-label={t('assistant.title')} className="fixed bottom-4 right-4 z-40 w-[calc(100%-2rem)] max-w-sm h-[32rem] max-h-[calc(100vh-2rem)] flex flex-col bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 rounded-lg shadow-2xl border dark:border-gray-700">
+      <div className="flex justify-between items-center p-3 border-b dark:border-gray-700">
+        <h2 className="font-semibold">{t('assistant.title')}</h2>
+        <div className="flex items-center gap-3 text-sm">
+          {messages.length > 0 && <button onClick={reset} className="text-gray-500 dark:text-gray-400 hover:underline">{t('assistant.clear')}</button>}
+          <button onClick={() => setIsOpen(false)} aria-label={t('common.close')} className="text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-white">✕</button>
+        </div>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto p-3 space-y-3 text-sm">
+        <p className="p-3 rounded-lg bg-gray-100 dark:bg-gray-700">{t('assistant.greeting')}</p>
+        {!canUseAiAssistant() && <p className="text-xs text-gray-500 dark:text-gray-400">{t('assistant.offline')}</p>}
+        {messages.length === 0 && (
+          <div className="flex flex-wrap gap-2">
+            {[t('assistant.suggestion1'), t('assistant.suggestion2')].map(suggestion => (
+              <button key={suggestion} onClick={() => ask(suggestion)} className="px-3 py-1 rounded-full border border-indigo-300 dark:border-indigo-500/40 text-indigo-700 dark:text-indigo-300 hover:bg-indigo-50 dark:hover:bg-indigo-900/20">{suggestion}</button>
+            ))}
+          </div>
+        )}
+        {messages.map(message => message.role === 'user' ? (
+          <p key={message.id} className="ml-8 p-3 rounded-lg bg-indigo-600 text-white whitespace-pre-line">{message.text}</p>
+        ) : (
+          <div key={message.id} className="mr-8 space-y-2">
+            {message.text && <p className="p-3 rounded-lg bg-gray-100 dark:bg-gray-700 whitespace-pre-line">{message.text}</p>}
+            {message.productIds && message.productIds.length > 0 && (
+              <ul className="space-y-2">
+                {message.productIds.map(id => products.find(p => p.id === id)).filter((p): p is Product => !!p).map(renderProduct)}
+              </ul>
+            )}
+            {message.cartActions && message.cartActionStatus === 'proposed' && (
+              <div className="p-3 rounded-lg border border-indigo-200 dark:border-indigo-500/40 space-y-2">
+                <p>{t('assistant.proposed', { items: message.cartActions.map(describeAction).join(', ') })}</p>
+                <div className="flex gap-2">
+                  <button onClick={() => answerCartActions(message.id, true)} className="bg-indigo-600 text-white text-xs font-semibold py-1.5 px-3 rounded-md hover:bg-indigo-700">{t('assistant.confirmAdd')}</button>
+                  <button onClick={() => answerCartActions(message.id, false)} className="text-xs py-1.5 px-3 rounded-md border dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">{t('assistant.declineAdd')}</button>
+                </div>
+              </div>
+            )}
+            {message.cartActionStatus === 'added' && (message.addedActions?.length ? (
+              <p className="text-xs text-green-700 dark:text-green-300">{t('assistant.added', { items: message.addedActions.map(describeAction).join(', ') })}</p>
+            ) : (
+              <p className="text-xs text-gray-500 dark:text-gray-400">{t('assistant.noneAdded')}</p>
+            ))}
+            {message.cartActionStatus === 'declined' && <p className="text-xs text-gray-500 dark:text-gray-400">{t('assistant.declined')}</p>}
+          </div>
+        ))}
+        {isThinking && <p className="text-gray-500 dark:text-gray-400 animate-pulse">{t('assistant.thinking')}</p>}
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-3 border-t dark:border-gray-700 flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          placeholder={t('assistant.placeholder')}
+          aria-label={t('assistant.placeholder')}
+          className="flex-1 p-2 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+        />
+        <button type="submit" disabled={isThinking || !draft.trim()} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed">{t('assistant.send')}</button>
+      </form>
+    </section>
+  );
+};
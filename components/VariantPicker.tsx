@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { CartItem, Product } from '../types';
+import { getAvailableStock } from '../services/inventoryService';
+import { findVariant, getDefaultVariant } from '../services/variantService';
+import { useI18n } from '../hooks/useI18n';
+
+interface VariantPickerProps {
+  product: Product;
+  /** Units already in the cart are reserved, so the picker offers only the rest. */
+  cartItems: CartItem[];
+  /** Returns how many units were actually added. */
+  onAddToCart: (product: Product, quantity: number, variantId: string) => number;
+}
+
+export const VariantPicker: React.FC<VariantPickerProps> = ({ product, cartItems, onAddToCart }) => {
+  const [selection, setSelection] = useState<Record<string, string>>(() => getDefaultVariant(product)?.options ?? {});
+  const [quantity, setQuantity] = useState(1);
+  const [shortfall, setShortfall] = useState<number | null>(null);
+  const { t, formatPrice } = useI18n();
+  const variant = findVariant(product, selection);
+  const available = variant ? getAvailableStock(product, cartItems, variant.id) : 0;
+
+  // Offer only values some variant actually has; picking one that doesn't fit the
+  // current selection jumps to the first variant that does have it.
+  const isOffered = (optionName: string, value: string) => !!findVariant(product, { [optionName]: value });
+
+  const choose = (optionName: string, value: string) => {
+    const next = { ...selection, [optionName]: value };
+    setSelection(findVariant(product, next) ? next : findVariant(product, { [optionName]: value })!.options);
+    setQuantity(1);
+    setShortfall(null);
+  };
+
+  const handleAdd = (variantId: string) => {
+    const added = onAddToCart(product, quantity, variantId);
+    setShortfall(added < quantity ? added : null);
+    setQuantity(1);
+  };
+
+  return (
+    <div className="mt-2 p-3 bg-white dark:bg-gray-800 rounded-lg shadow-sm space-y-2 text-sm">
+      {(product.variantOptions ?? []).map(option => (
+        <div key={option.name}>
+          <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{option.name}</p>
+          <div className="flex flex-wrap gap-1">
+            {option.values.filter(value => isOffered(option.name, value)).map(value => (
+              <button key={value} onClick={() => choose(option.name, value)} className={`px-2 py-1 rounded border text-xs ${selection[option.name] === value ? 'bg-indigo-600 text-white border-indigo-600' : 'dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'}`}>
+                {value}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+      {variant && (
+        <div className="flex items-center justify-between gap-2 pt-1">
+          <div>
+            <span className="font-bold">{formatPrice(variant.price)}</span>
+            <span className={`ml-2 text-xs ${available > 0 ? 'text-gray-500 dark:text-gray-400' : 'text-red-600 dark:text-red-400'}`}>
+              {available > 0 ? t('variant.available', { count: available }) : t('common.outOfStock')}
+            </span>
+            <p className="text-[10px] text-gray-400">{t('variant.sku', { sku: variant.sku })}</p>
+          </div>
+          <div className="flex items-center gap-1">
+            <input type="number" aria-label={t('variant.quantity')} min={1} max={Math.max(1, available)} value={quantity} onChange={e => setQuantity(Math.max(1, Math.min(available, Number(e.target.value) || 1)))} className="w-14 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 p-1 text-xs" />
+            <button disabled={available === 0} onClick={() => handleAdd(variant.id)} className="bg-indigo-600 text-white text-xs font-semibold px-3 py-1.5 rounded-md hover:bg-indigo-700 disabled:opacity-50">
+              {t('variant.add')}
+            </button>
+          </div>
+        </div>
+      )}
+      {shortfall !== null && (
+        <p className="text-xs text-red-600 dark:text-red-400">{shortfall > 0 ? t('variant.addedOnly', { count: shortfall }) : t('variant.noneLeft')}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,499 @@
+// English is the source language: every key used in the UI is defined here,
+// and any key another locale is missing falls back to this text.
+export const en = {
+  'common.save': 'Save',
+  'common.cancel': 'Cancel',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.remove': 'Remove',
+  'common.dismiss': 'Dismiss',
+  'common.close': 'Close',
+  'common.ok': 'OK',
+  'common.name': 'Name',
+  'common.email': 'Email',
+  'common.status': 'Status',
+  'common.date': 'Date',
+  'common.never': 'Never',
+  'common.all': 'All',
+  'common.active': 'Active',
+  'common.outOfStock': 'Out of stock',
+  'common.language': 'Language',
+  'common.currency': 'Currency',
+
+  'nav.home': 'Home',
+  'nav.products': 'Products',
+  'nav.contact': 'Contact Us',
+  'nav.emailUs': 'Email Us',
+  'nav.callUs': 'Call Us',
+  'nav.admin': 'Admin',
+  'nav.adminDashboard': 'Admin Dashboard',
+  'nav.account': 'Account',
+  'nav.myAccount': 'My Account',
+  'nav.logout': 'Logout',
+  'nav.signIn': 'Sign In',
+  'nav.menu': 'Menu',
+  'nav.wishlistLabel': 'Wishlist, {count} items',
+  'nav.cartLabel': 'Cart, {count} items',
+
+  'store.searchLabel': 'Search Products',
+  'store.searchPlaceholder': 'Search by name, brand, category or description...',
+  'store.sortBy': 'Sort by',
+  'store.sort.relevance': 'Relevance',
+  'store.sort.priceAsc': 'Price: Low to High',
+  'store.sort.priceDesc': 'Price: High to Low',
+  'store.sort.ratingDesc': 'Highest Rating',
+  'store.rating': 'Rating',
+  'store.ratingAndUp': '& up',
+  'store.category': 'Category',
+  'store.brand': 'Brand',
+  'store.priceRange': 'Price Range',
+  'store.availability': 'Availability',
+  'store.inStockOnly': 'In stock only',
+  'store.showing': 'Showing {shown} of {total} products',
+  'store.errorTitle': 'An Error Occurred',
+  'store.loadErrorGemini': 'Failed to load products. Please check your API key and network connection, or set PRODUCT_SOURCE=local to use the offline catalog.',
+  'store.loadErrorLocal': 'Failed to load products from the local catalog.',
+  'store.noProducts': 'No Products Found',
+  'store.noProductsHint': "Try adjusting your filters to find what you're looking for.",
+  'store.translatingCopy': 'Translating product details…',
+
+  'price.under': 'Under {price}',
+  'price.over': 'Over {price}',
+  'price.between': '{min} to {max}',
+  'price.all': 'All Prices',
+  'price.min': 'Min',
+  'price.max': 'Max',
+  'price.minLabel': 'Minimum price',
+  'price.maxLabel': 'Maximum price',
+
+  'variant.available': '{count} available',
+  'variant.sku': 'SKU {sku}',
+  'variant.quantity': 'Quantity',
+  'variant.add': 'Add',
+  'variant.addedOnly': 'Only {count} added; the rest of the stock is already in your cart.',
+  'variant.noneLeft': 'The rest of this stock is already in your cart.',
+
+  'banner.previous': 'Previous banner',
+  'banner.next': 'Next banner',
+  'banner.show': 'Show banner {index}',
+
+  'reviews.title': 'Customer Reviews',
+  'reviews.outOf5': '{average} out of 5',
+  'reviews.starRow': '{count} star',
+  'reviews.showingStars': 'Showing {count}-star reviews',
+  'reviews.showAll': 'Show all',
+  'reviews.showingAll': 'Showing all {count} reviews',
+  'reviews.sortLabel': 'Sort reviews',
+  'reviews.sort.newest': 'Newest',
+  'reviews.sort.ratingDesc': 'Highest rated',
+  'reviews.sort.ratingAsc': 'Lowest rated',
+  'reviews.none': 'No reviews yet.',
+  'reviews.thanks': 'Thanks! Your review will appear once it has been approved.',
+  'reviews.yourRating': 'Your rating',
+  'reviews.starLabel': '{count} out of 5 stars',
+  'reviews.placeholder': 'What did you think of this product?',
+  'reviews.submit': 'Submit Review',
+  'reviews.signInRequired': "Sign in to review products you've bought.",
+
+  'contact.intro': "Have questions? We'd love to hear from you. Reach out to us via the form below.",
+  'contact.message': 'Message',
+  'contact.send': 'Send Message',
+  'contact.sendFailed': 'Your message could not be sent. Please try again.',
+  'contact.sent': 'Thanks! Your message has been sent.',
+  'contact.replyTo': "We'll reply to {email} as soon as we can.",
+  'contact.sendAnother': 'Send another message',
+
+  'auth.signIn': 'Sign In',
+  'auth.createAccount': 'Create Account',
+  'auth.password': 'Password',
+  'auth.pleaseWait': 'Please wait...',
+  'auth.newHere': 'New here?',
+  'auth.createLink': 'Create an account',
+  'auth.haveAccount': 'Already have an account?',
+  'auth.signInLink': 'Sign in',
+  'auth.staffLogin': 'Staff? Admin Login',
+  'auth.genericError': 'Something went wrong. Please try again.',
+
+  'cart.priceChanged': '{name} is now {newPrice} (was {oldPrice}).',
+  'cart.quantityReduced': "Only {quantity} of {name} left, so we've reduced the quantity in your cart.",
+  'cart.movedToSaved': '{name} is out of stock and has been moved to Saved for Later.',
+  'cart.unavailable': 'An item in your cart is no longer sold and has been removed.',
+  'cart.stockLimit': 'Only {quantity} more of {name} could be added; the rest of our stock is already in your cart.',
+  'cart.stockLimitNone': 'All of our stock of {name} is already in your cart.',
+  'cart.inYourCart': 'In your cart',
+  'cart.saveForLater': 'Save for later',
+  'cart.savedTitle': 'Saved for later ({count})',
+  'cart.moveToCart': 'Move to cart',
+
+  'checkout.blocked': "Your account has been blocked, so this order can't be placed. Please contact support.",
+  'checkout.regionChanged': "We've set your tax region to {region} from your details. Please check the updated total and place the order again.",
+  'checkout.failed': 'Failed to place order.',
+  'checkout.guestName': 'Guest',
+  'checkout.priceChangesPending': 'Some prices in your cart have changed. Please review and confirm them above before placing the order.',
+
+  'summary.title': 'Order Summary',
+  'summary.region': 'Shipping region',
+  'summary.otherRegion': 'Other / not listed',
+  'summary.couponApplied': 'Coupon applied:',
+  'summary.couponCode': 'Coupon code',
+  'summary.apply': 'Apply',
+  'summary.subtotal': 'Subtotal',
+  'summary.discount': 'Discount',
+  'summary.shipping': 'Shipping ({weight} kg)',
+  'summary.free': 'Free',
+  'summary.tax': 'Tax ({rate}%)',
+  'summary.taxInRegion': 'Tax ({rate}%, {region})',
+  'summary.total': 'Total',
+  'summary.chargedIn': 'Prices are shown in {display} for reference. You will be charged {amount} in {store}.',
+
+  'role.admin': 'Admin',
+  'role.manager': 'Manager',
+  'role.editor': 'Editor',
+
+  'admin.section.catalog': 'Catalog',
+  'admin.section.notifications': 'Notifications',
+  'admin.section.import': 'Import / Export',
+  'admin.section.orders': 'Orders',
+  'admin.section.customers': 'Customers',
+  'admin.section.inbox': 'Inbox',
+  'admin.section.reviews': 'Reviews',
+  'admin.section.banners': 'Banners',
+  'admin.section.pricing': 'Pricing',
+  'admin.section.analytics': 'Analytics',
+  'admin.section.audit': 'Audit Log',
+  'admin.sectionWithCount': '{label} ({count})',
+  'admin.backToStore': 'Back to Store',
+  'admin.notAllowed': 'Your role ({role}) is not allowed to perform "{permission}". No changes were saved.',
+  'admin.signInRequired': 'Only signed-in staff can change the store.',
+  'admin.staffName': 'Admin',
+
+  'notifications.filter.unread': 'Unread',
+  'notifications.badge.order': 'Order',
+  'notifications.badge.stock': 'Stock',
+  'notifications.badge.review': 'Review',
+  'notifications.badge.message': 'Message',
+  'notifications.type.order': 'New orders',
+  'notifications.type.stock': 'Low stock',
+  'notifications.type.review': 'Reviews awaiting moderation',
+  'notifications.type.message': 'Customer messages',
+  'notifications.markAllRead': 'Mark all as read',
+  'notifications.markRead': 'Mark read',
+  'notifications.caughtUp': "You're all caught up.",
+  'notifications.none': 'No notifications.',
+  'notifications.more': '+{count} more like this',
+  'notifications.subscriptions': 'Subscriptions',
+  'notifications.subscriptionsEdit': 'Choose which events each role is notified about.',
+  'notifications.subscriptionsView': 'Events your role ({role}) is notified about. Ask an admin to change them.',
+  'notifications.cannotAct': "This role can't act on these events",
+  'notifications.event.newOrder': 'New order {id} from {customer} ({total}).',
+  'notifications.event.outOfStock': '{name} is out of stock.',
+  'notifications.event.lowStock': '{name} is running low ({stock} left).',
+  'notifications.event.message': 'New message from {name}: "{excerpt}"',
+  'notifications.event.review': '{name} left a {rating}-star review on {product} awaiting moderation.',
+  'notifications.event.orderCancelled': 'Order {id} was cancelled by {customer}.',
+  'notifications.event.returnRequested': '{customer} requested a return for order {id}: "{reason}"',
+  'notifications.event.restockSkipped': 'Order {id}: {items} could not go back into stock because the product or option no longer exists.',
+  'notifications.unknownProduct': 'a product',
+
+  'orderStatus.pending': 'Pending',
+  'orderStatus.shipped': 'Shipped',
+  'orderStatus.delivered': 'Delivered',
+  'orderStatus.cancelled': 'Cancelled',
+  'orderStatus.refunded': 'Refunded',
+  'orders.none': 'No orders have been placed yet.',
+  'orders.order': 'Order',
+  'orders.customer': 'Customer',
+  'orders.items': 'Items',
+  'orders.total': 'Total',
+  'orders.update': 'Update',
+  'orders.moveTo': 'Move to…',
+  'orders.final': 'Final',
+  'orders.tracking': 'Tracking {number}',
+  'orders.returnRequested': 'Return requested: "{reason}"',
+  'orders.approveReturn': 'Approve refund',
+  'orders.rejectReturn': 'Decline',
+  'returnStatus.requested': 'Return requested',
+  'returnStatus.approved': 'Return approved and refunded',
+  'returnStatus.rejected': 'Return declined',
+  'account.ordersTitle': 'Your Orders',
+  'account.noOrders': "You haven't placed any orders yet.",
+  'account.noOrdersFilter': 'No orders with this status.',
+  'account.placedOn': 'Placed {date}',
+  'account.itemCount': 'Items: {count}',
+  'account.backToOrders': '← All orders',
+  'account.tracking': 'Tracking number',
+  'account.trackingPending': 'A tracking number will appear here once your order ships.',
+  'account.signInRequired': 'Please sign in to manage your orders.',
+  'account.shipTo': 'Shipping to',
+  'account.cancel': 'Cancel order',
+  'account.confirmCancel': "Cancel this order? This can't be undone.",
+  'account.cancelYes': 'Yes, cancel it',
+  'account.cancelNo': 'Keep order',
+  'account.reorder': 'Reorder all items',
+  'account.reordered': 'Items added to your cart: {count}.',
+  'account.reorderUnavailable': 'Not available right now: {names}.',
+  'account.requestReturn': 'Request a return',
+  'account.returnReason': 'Why are you returning this order?',
+  'account.submitReturn': 'Submit request',
+  'account.returnWindow': 'Returns accepted until {date}.',
+  'account.trackOrder': 'Track this order',
+
+  'userStatus.active': 'Active',
+  'userStatus.blocked': 'Blocked',
+  'customers.none': 'No customers have registered yet.',
+  'customers.customer': 'Customer',
+  'customers.joined': 'Joined',
+  'customers.orders': 'Orders',
+  'customers.block': 'Block',
+  'customers.unblock': 'Unblock',
+
+  'audit.filter.all': 'All changes',
+  'audit.filter.product': 'Products',
+  'audit.filter.order': 'Orders',
+  'audit.filter.user': 'Users',
+  'audit.filter.pricing': 'Pricing',
+  'audit.filter.review': 'Reviews',
+  'audit.filter.banner': 'Banners',
+  'audit.filter.ticket': 'Tickets',
+  'audit.entity.product': 'Product',
+  'audit.entity.order': 'Order',
+  'audit.entity.user': 'User',
+  'audit.entity.pricing': 'Pricing',
+  'audit.entity.review': 'Review',
+  'audit.entity.banner': 'Banner',
+  'audit.entity.ticket': 'Ticket',
+  'audit.action.created': 'created',
+  'audit.action.updated': 'updated',
+  'audit.action.deleted': 'deleted',
+  'audit.none': 'No changes recorded yet.',
+  'audit.when': 'When',
+  'audit.who': 'Who',
+  'audit.what': 'What',
+  'audit.details': 'Details',
+
+  'ticketStatus.open': 'Open',
+  'ticketStatus.answered': 'Answered',
+  'ticketStatus.closed': 'Closed',
+  'inbox.none': 'No messages here.',
+  'inbox.select': 'Select a message to read and reply.',
+  'inbox.reopen': 'Reopen',
+  'inbox.closeTicket': 'Close ticket',
+  'inbox.replyPlaceholder': 'Write a reply...',
+  'inbox.sendReply': 'Send Reply',
+
+  'reviewStatus.pending': 'Pending',
+  'reviewStatus.approved': 'Approved',
+  'reviewStatus.rejected': 'Rejected',
+  'reviewStatus.flagged': 'Flagged',
+  'moderation.approve': 'Approve',
+  'moderation.reject': 'Reject',
+  'moderation.flag': 'Flag',
+  'moderation.none': 'No reviews here.',
+  'moderation.moderated': '{status} by {name} on {date}',
+
+  'pricing.coupons': 'Coupons',
+  'pricing.code': 'Code',
+  'pricing.type': 'Type',
+  'pricing.percentage': 'Percentage',
+  'pricing.fixed': 'Fixed amount',
+  'pricing.freeShipping': 'Free shipping',
+  'pricing.value': 'Value',
+  'pricing.minOrder': 'Min order',
+  'pricing.expires': 'Expires',
+  'pricing.usageLimit': 'Usage limit',
+  'pricing.discount': 'Discount',
+  'pricing.used': 'Used',
+  'pricing.codeRequired': 'Coupon code is required.',
+  'pricing.valueRequired': 'Discount value must be greater than zero.',
+  'pricing.noCoupons': 'No coupons yet.',
+  'pricing.percentOff': '{value}% off',
+  'pricing.amountOff': '{amount} off',
+  'pricing.taxRates': 'Tax Rates',
+  'pricing.otherRegions': 'All other regions',
+  'pricing.shippingRates': 'Shipping Rates (by weight)',
+  'pricing.upTo': 'Up to',
+  'pricing.kgCosts': 'kg costs {symbol}',
+  'pricing.extraKg': 'Each extra kg beyond the last tier: {symbol}',
+  'pricing.freeOver': 'Free shipping over {symbol}',
+  'pricing.unsavedRates': 'Unsaved changes to tax and shipping rates.',
+  'pricing.tierInvalid': 'Each shipping tier needs a weight above zero, and no two tiers can share a weight.',
+  'pricing.addTier': 'Add tier',
+  'pricing.regionTaken': 'That region already has a tax rate.',
+  'pricing.regionRequired': 'Enter a region name.',
+  'pricing.addRegion': 'Add region',
+  'pricing.regionName': 'Region name',
+  'pricing.editingCoupon': 'Editing {code}. Changing the code renames the coupon.',
+  'pricing.codeTaken': 'Another coupon already uses this code.',
+  'pricing.currencyTitle': 'Currency',
+  'pricing.storeCurrency': 'Store currency',
+  'pricing.storeCurrencyHint': 'Prices, coupons and shipping costs are entered and charged in this currency. Changing it does not convert existing prices.',
+  'pricing.displayCurrencies': 'Display currencies',
+  'pricing.displayCurrenciesHint': 'Shoppers can also view prices converted at these rates. Orders are still charged in the store currency.',
+  'pricing.rate': '1 {store} =',
+
+  'analytics.report.summary': 'Summary',
+  'analytics.report.daily': 'Daily sales',
+  'analytics.report.products': 'Top products',
+  'analytics.report.categories': 'Categories',
+  'analytics.report.orders': 'Order lines',
+  'analytics.noPriorData': 'no prior data',
+  'analytics.vsPrevious': '{change}% vs previous period',
+  'analytics.revenue': 'Revenue (incl. tax & shipping)',
+  'analytics.orders': 'Orders',
+  'analytics.customers': 'Customers',
+  'analytics.newCustomers': 'New Customers',
+  'analytics.from': 'From',
+  'analytics.to': 'To',
+  'analytics.lastDays': 'Last {days} days',
+  'analytics.exportCsv': 'Export CSV:',
+  'analytics.chooseReport': 'Choose report…',
+  'analytics.invalidRange': 'The start date must be on or before the end date.',
+  'analytics.topProducts': 'Top Products',
+  'analytics.salesByCategory': 'Sales by Category',
+  'analytics.itemSalesNote': 'Item price × quantity, before discounts, tax and shipping.',
+  'analytics.otherCurrencyNote': '{count} orders charged in a currency other than {currency} are left out of these figures.',
+  'analytics.noSales': 'No sales in this period.',
+
+  'bannerStatus.live': 'Live',
+  'bannerStatus.scheduled': 'Scheduled',
+  'bannerStatus.ended': 'Ended',
+  'bannerStatus.inactive': 'Inactive',
+  'bannerPlacement.store_header': 'Store header',
+  'bannerPlacement.category': 'Category pages',
+  'bannerPlacement.checkout': 'Checkout',
+  'banners.edit': 'Edit Banner',
+  'banners.new': 'New Banner',
+  'banners.title': 'Title',
+  'banners.subtitle': 'Subtitle',
+  'banners.imageUrl': 'Image URL',
+  'banners.link': 'Link',
+  'banners.placement': 'Placement',
+  'banners.priority': 'Priority',
+  'banners.starts': 'Starts',
+  'banners.ends': 'Ends',
+  'banners.targetCategories': 'Target categories',
+  'banners.targetHint': '(none selected shows it everywhere)',
+  'banners.saveChanges': 'Save Changes',
+  'banners.create': 'Create Banner',
+  'banners.none': 'No banners yet.',
+  'banners.banner': 'Banner',
+  'banners.schedule': 'Schedule',
+  'banners.impressions': 'Impressions',
+  'banners.clicks': 'Clicks',
+  'banners.ctr': 'CTR',
+  'banners.priorityValue': 'Priority {priority}',
+  'banners.now': 'Now',
+  'banners.noEnd': 'No end',
+
+  'import.exportTitle': 'Export Catalog',
+  'import.exportHint': 'CSV has one row per product, or per variant SKU. JSON includes full variant data.',
+  'import.downloadCsv': 'Download CSV',
+  'import.downloadJson': 'Download JSON',
+  'import.importTitle': 'Import Catalog',
+  'import.importHint': 'Upload a CSV or JSON file, map its columns, and review the changes before anything is saved.',
+  'import.chooseFile': 'Choose File',
+  'import.imported': 'Imported {file}. Changes applied: {count}.',
+  'import.mapColumns': '1. Map columns',
+  'import.fileSummary': '— {file}, {count} rows',
+  'import.notMapped': '— not mapped —',
+  'import.howToApply': '2. Choose how to apply it',
+  'import.merge': 'Merge — add and update products, keep everything else',
+  'import.replace': 'Replace — the file becomes the whole catalog; products not in it are deleted',
+  'import.review': '3. Review (dry run)',
+  'import.problems': 'Problems found: {count}. Fix the file and upload it again.',
+  'import.row': 'Row {row}',
+  'import.denied': "Your role ({role}) can't apply this import: it needs {permissions}.",
+  'import.noChanges': 'No changes — the catalog already matches this file.',
+  'import.apply': 'Apply Import',
+  'import.change.create': 'Create',
+  'import.change.update': 'Update',
+  'import.change.delete': 'Delete',
+  'import.field.id': 'Product ID',
+  'import.field.sku': 'Variant SKU',
+  'import.field.name': 'Name',
+  'import.field.description': 'Description',
+  'import.field.price': 'Price',
+  'import.field.stock': 'Stock',
+  'import.field.category': 'Category',
+  'import.field.brand': 'Brand',
+  'import.field.imageUrls': 'Image URLs',
+  'import.field.weightKg': 'Weight (kg)',
+  'assistant.open': 'Ask our assistant',
+  'assistant.title': 'Shopping assistant',
+  'assistant.greeting': 'Hi! Ask me about our products — what to use for a recipe, what is in stock, or tell me what to add to your cart.',
+  'assistant.placeholder': 'Ask about a product…',
+  'assistant.send': 'Send',
+  'assistant.clear': 'Clear chat',
+  'assistant.thinking': 'Thinking…',
+  'assistant.offline': 'AI answers are unavailable right now, so I will search the catalog for you instead.',
+  'assistant.suggestion1': 'Which flour is best for chapati?',
+  'assistant.suggestion2': 'Add 2 packs of rava to my cart',
+  'assistant.add': 'Add to cart',
+  'assistant.added': 'Added to your cart: {items}.',
+  'assistant.proposed': 'Add to your cart: {items}?',
+  'assistant.confirmAdd': 'Add to cart',
+  'assistant.declineAdd': 'No thanks',
+  'assistant.declined': 'Nothing was added to your cart.',
+  'assistant.noneAdded': "None of it could be added; it's out of stock.",
+  'assistant.error': "Sorry, I couldn't reach the assistant.",
+  'assistant.fallback.matches': 'Here is what I found for “{query}”:',
+  'assistant.fallback.none': 'I couldn’t find anything in our catalog for “{query}”. Try a product name, brand or category.',
+  'recommendations.alsoBought': 'Customers also bought',
+  'recommendations.similar': 'Similar items',
+  'errors.couponInvalid': 'This coupon code is not valid.',
+  'errors.couponExpired': 'This coupon has expired.',
+  'errors.couponUsedUp': 'This coupon has reached its usage limit.',
+  'errors.couponMinOrder': 'This coupon needs a minimum order of {amount}.',
+  'errors.tooShort': 'Please write at least {min} characters.',
+  'errors.reviewNotPurchased': 'You can review this product once an order containing it has been delivered.',
+  'errors.reviewDuplicate': "You've already reviewed this product.",
+  'errors.reviewRating': 'Please choose a rating from 1 to 5 stars.',
+  'errors.reviewTooLong': 'Reviews are limited to {max} characters.',
+  'errors.reviewNotFound': 'Review {id} not found.',
+  'errors.emptyCart': 'Cannot place an order with an empty cart.',
+  'errors.orderNotFound': 'Order {id} not found.',
+  'errors.orderTransition': 'Cannot change order {id} from {from} to {to}.',
+  'errors.orderNotInAccount': "We couldn't find that order in your account.",
+  'errors.orderShipped': "This order has already shipped, so it can't be cancelled. You can request a return once it's delivered.",
+  'errors.returnNotDelivered': 'Returns can only be requested for delivered orders.',
+  'errors.returnAlreadyRequested': 'A return has already been requested for this order.',
+  'errors.returnWindowClosed': 'The {days}-day return window for this order has closed.',
+  'errors.returnReason': "Please tell us why you're returning this order.",
+  'errors.noOpenReturn': 'Order {id} has no open return request.',
+  'errors.contactName': 'Please enter your name.',
+  'errors.contactEmail': 'Please enter a valid email address.',
+  'errors.contactTooLong': 'Messages are limited to {max} characters.',
+  'errors.contactRateLimit': "You've sent several messages recently. Please try again in a few minutes.",
+  'errors.contactWait': 'Please wait a moment before sending another message.',
+  'errors.ticketNotFound': 'Ticket {id} not found.',
+  'errors.replyEmpty': 'Reply cannot be empty.',
+  'errors.registerRequired': 'Name and email are required.',
+  'errors.passwordLength': 'Password must be at least 8 characters.',
+  'errors.emailTaken': 'An account with this email already exists.',
+  'errors.invalidLogin': 'Invalid email or password.',
+  'errors.accountBlocked': 'This account has been blocked. Please contact support.',
+  'errors.bannerTitle': 'Title is required.',
+  'errors.imageUrl': 'Image URL must start with http:// or https://.',
+  'errors.bannerLink': 'Link must be a full URL or a path on this site, e.g. /?category=Flour.',
+  'errors.bannerDates': 'The end date must be after the start date.',
+  'errors.exchangeRate': 'The exchange rate for {currency} must be greater than zero.',
+  'errors.outOfStock': '{name} is out of stock.',
+  'errors.lowStock': 'Only {available} of {name} left in stock (you requested {requested}).',
+  'errors.insufficientStock': 'Insufficient stock for product {product}.',
+  'errors.importEmpty': 'The file is empty.',
+  'errors.importInvalidJson': 'The file is not valid JSON.',
+  'errors.importNotArray': 'Expected a JSON array of product objects.',
+  'errors.importInvalidValue': '{field} "{value}" is not valid.',
+  'errors.importImageUrl': 'Image URL "{url}" must start with http:// or https://.',
+  'errors.importVariants': 'Variants must each have an id, SKU, options, a price and a whole-number stock.',
+  'errors.importVariantOptions': 'Variant options must each have a name and a list of values.',
+  'errors.importUnknownSku': 'No variant with SKU "{sku}" on this product.',
+  'errors.importSkuNeeded': 'This product has variants, so price and stock need a SKU to say which variant they belong to.',
+  'errors.importRequired': '{field} is required.',
+  'errors.importPriceRequired': 'Price is required for new products.',
+  'errors.importDuplicateSku': 'SKU "{sku}" appears more than once.',
+  'errors.importDuplicateName': '"{name}" appears more than once.',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
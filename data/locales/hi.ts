@@ -0,0 +1,496 @@
+import { Messages } from './en';
+
+export const hi: Messages = {
+  'common.save': 'सहेजें',
+  'common.cancel': 'रद्द करें',
+  'common.edit': 'संपादित करें',
+  'common.delete': 'हटाएँ',
+  'common.remove': 'निकालें',
+  'common.dismiss': 'खारिज करें',
+  'common.close': 'बंद करें',
+  'common.ok': 'ठीक है',
+  'common.name': 'नाम',
+  'common.email': 'ईमेल',
+  'common.status': 'स्थिति',
+  'common.date': 'तारीख',
+  'common.never': 'कभी नहीं',
+  'common.all': 'सभी',
+  'common.active': 'सक्रिय',
+  'common.outOfStock': 'स्टॉक में नहीं',
+  'common.language': 'भाषा',
+  'common.currency': 'मुद्रा',
+
+  'nav.home': 'होम',
+  'nav.products': 'उत्पाद',
+  'nav.contact': 'संपर्क करें',
+  'nav.emailUs': 'ईमेल करें',
+  'nav.callUs': 'कॉल करें',
+  'nav.admin': 'एडमिन',
+  'nav.adminDashboard': 'एडमिन डैशबोर्ड',
+  'nav.account': 'खाता',
+  'nav.myAccount': 'मेरा खाता',
+  'nav.logout': 'लॉग आउट',
+  'nav.signIn': 'साइन इन',
+  'nav.menu': 'मेनू',
+  'nav.wishlistLabel': 'विशलिस्ट, {count} आइटम',
+  'nav.cartLabel': 'कार्ट, {count} आइटम',
+
+  'store.searchLabel': 'उत्पाद खोजें',
+  'store.searchPlaceholder': 'नाम, ब्रांड, श्रेणी या विवरण से खोजें...',
+  'store.sortBy': 'क्रमबद्ध करें',
+  'store.sort.relevance': 'प्रासंगिकता',
+  'store.sort.priceAsc': 'कीमत: कम से ज़्यादा',
+  'store.sort.priceDesc': 'कीमत: ज़्यादा से कम',
+  'store.sort.ratingDesc': 'सबसे ऊँची रेटिंग',
+  'store.rating': 'रेटिंग',
+  'store.ratingAndUp': 'और ऊपर',
+  'store.category': 'श्रेणी',
+  'store.brand': 'ब्रांड',
+  'store.priceRange': 'कीमत सीमा',
+  'store.availability': 'उपलब्धता',
+  'store.inStockOnly': 'केवल स्टॉक में उपलब्ध',
+  'store.showing': '{total} में से {shown} उत्पाद दिखाए जा रहे हैं',
+  'store.errorTitle': 'एक त्रुटि हुई',
+  'store.loadErrorGemini': 'उत्पाद लोड नहीं हो सके। कृपया अपनी API कुंजी और नेटवर्क कनेक्शन जाँचें, या ऑफ़लाइन कैटलॉग के लिए PRODUCT_SOURCE=local सेट करें।',
+  'store.loadErrorLocal': 'लोकल कैटलॉग से उत्पाद लोड नहीं हो सके।',
+  'store.noProducts': 'कोई उत्पाद नहीं मिला',
+  'store.noProductsHint': 'जो आप ढूँढ रहे हैं उसे पाने के लिए फ़िल्टर बदलकर देखें।',
+  'store.translatingCopy': 'उत्पाद विवरण का अनुवाद हो रहा है…',
+
+  'price.under': '{price} से कम',
+  'price.over': '{price} से ज़्यादा',
+  'price.between': '{min} से {max}',
+  'price.all': 'सभी कीमतें',
+  'price.min': 'न्यूनतम',
+  'price.max': 'अधिकतम',
+  'price.minLabel': 'न्यूनतम कीमत',
+  'price.maxLabel': 'अधिकतम कीमत',
+
+  'variant.available': '{count} उपलब्ध',
+  'variant.sku': 'SKU {sku}',
+  'variant.quantity': 'मात्रा',
+  'variant.add': 'जोड़ें',
+  'variant.addedOnly': 'केवल {count} जोड़े गए; बाकी स्टॉक पहले से आपके कार्ट में है।',
+  'variant.noneLeft': 'बाकी स्टॉक पहले से आपके कार्ट में है।',
+
+  'banner.previous': 'पिछला बैनर',
+  'banner.next': 'अगला बैनर',
+  'banner.show': 'बैनर {index} दिखाएँ',
+
+  'reviews.title': 'ग्राहक समीक्षाएँ',
+  'reviews.outOf5': '5 में से {average}',
+  'reviews.starRow': '{count} स्टार',
+  'reviews.showingStars': '{count}-स्टार समीक्षाएँ दिखाई जा रही हैं',
+  'reviews.showAll': 'सभी दिखाएँ',
+  'reviews.showingAll': 'सभी {count} समीक्षाएँ दिखाई जा रही हैं',
+  'reviews.sortLabel': 'समीक्षाएँ क्रमबद्ध करें',
+  'reviews.sort.newest': 'सबसे नई',
+  'reviews.sort.ratingDesc': 'सबसे ऊँची रेटिंग',
+  'reviews.sort.ratingAsc': 'सबसे कम रेटिंग',
+  'reviews.none': 'अभी तक कोई समीक्षा नहीं।',
+  'reviews.thanks': 'धन्यवाद! स्वीकृत होने के बाद आपकी समीक्षा दिखाई देगी।',
+  'reviews.yourRating': 'आपकी रेटिंग',
+  'reviews.starLabel': '5 में से {count} स्टार',
+  'reviews.placeholder': 'आपको यह उत्पाद कैसा लगा?',
+  'reviews.submit': 'समीक्षा भेजें',
+  'reviews.signInRequired': 'खरीदे गए उत्पादों की समीक्षा करने के लिए साइन इन करें।',
+
+  'contact.intro': 'कोई सवाल है? हमें आपसे सुनकर खुशी होगी। नीचे दिए फ़ॉर्म से हमसे संपर्क करें।',
+  'contact.message': 'संदेश',
+  'contact.send': 'संदेश भेजें',
+  'contact.sendFailed': 'आपका संदेश नहीं भेजा जा सका। कृपया फिर से कोशिश करें।',
+  'contact.sent': 'धन्यवाद! आपका संदेश भेज दिया गया है।',
+  'contact.replyTo': 'हम जल्द से जल्द {email} पर जवाब देंगे।',
+  'contact.sendAnother': 'एक और संदेश भेजें',
+
+  'auth.signIn': 'साइन इन',
+  'auth.createAccount': 'खाता बनाएँ',
+  'auth.password': 'पासवर्ड',
+  'auth.pleaseWait': 'कृपया प्रतीक्षा करें...',
+  'auth.newHere': 'यहाँ नए हैं?',
+  'auth.createLink': 'खाता बनाएँ',
+  'auth.haveAccount': 'पहले से खाता है?',
+  'auth.signInLink': 'साइन इन करें',
+  'auth.staffLogin': 'स्टाफ़? एडमिन लॉगिन',
+  'auth.genericError': 'कुछ गलत हो गया। कृपया फिर से कोशिश करें।',
+
+  'cart.priceChanged': '{name} की कीमत अब {newPrice} है (पहले {oldPrice} थी)।',
+  'cart.quantityReduced': '{name} के केवल {quantity} बचे हैं, इसलिए हमने आपके कार्ट में मात्रा कम कर दी है।',
+  'cart.movedToSaved': '{name} स्टॉक में नहीं है और उसे बाद के लिए सहेजे गए आइटम में ले जाया गया है।',
+  'cart.unavailable': 'आपके कार्ट का एक आइटम अब नहीं बिकता, इसलिए उसे हटा दिया गया है।',
+  'cart.stockLimit': '{name} के केवल {quantity} और जोड़े जा सके; बाकी स्टॉक पहले से आपके कार्ट में है।',
+  'cart.stockLimitNone': '{name} का हमारा पूरा स्टॉक पहले से आपके कार्ट में है।',
+  'cart.inYourCart': 'आपके कार्ट में',
+  'cart.saveForLater': 'बाद के लिए सहेजें',
+  'cart.savedTitle': 'बाद के लिए सहेजे गए ({count})',
+  'cart.moveToCart': 'कार्ट में ले जाएँ',
+
+  'checkout.blocked': 'आपका खाता ब्लॉक कर दिया गया है, इसलिए यह ऑर्डर नहीं दिया जा सकता। कृपया सहायता टीम से संपर्क करें।',
+  'checkout.regionChanged': 'आपके विवरण से आपका कर क्षेत्र {region} कर दिया गया है। कृपया नया कुल देखें और ऑर्डर फिर से करें।',
+  'checkout.failed': 'ऑर्डर नहीं दिया जा सका।',
+  'checkout.guestName': 'अतिथि',
+  'checkout.priceChangesPending': 'आपके कार्ट में कुछ कीमतें बदल गई हैं। ऑर्डर करने से पहले कृपया ऊपर उन्हें देखें और पुष्टि करें।',
+
+  'summary.title': 'ऑर्डर सारांश',
+  'summary.region': 'शिपिंग क्षेत्र',
+  'summary.otherRegion': 'अन्य / सूची में नहीं',
+  'summary.couponApplied': 'कूपन लागू हुआ:',
+  'summary.couponCode': 'कूपन कोड',
+  'summary.apply': 'लागू करें',
+  'summary.subtotal': 'उप-योग',
+  'summary.discount': 'छूट',
+  'summary.shipping': 'शिपिंग ({weight} कि.ग्रा.)',
+  'summary.free': 'मुफ़्त',
+  'summary.tax': 'कर ({rate}%)',
+  'summary.taxInRegion': 'कर ({rate}%, {region})',
+  'summary.total': 'कुल',
+  'summary.chargedIn': 'संदर्भ के लिए कीमतें {display} में दिखाई गई हैं। आपसे {store} में {amount} लिए जाएँगे।',
+
+  'role.admin': 'एडमिन',
+  'role.manager': 'मैनेजर',
+  'role.editor': 'संपादक',
+
+  'admin.section.catalog': 'कैटलॉग',
+  'admin.section.notifications': 'सूचनाएँ',
+  'admin.section.import': 'इम्पोर्ट / एक्सपोर्ट',
+  'admin.section.orders': 'ऑर्डर',
+  'admin.section.customers': 'ग्राहक',
+  'admin.section.inbox': 'इनबॉक्स',
+  'admin.section.reviews': 'समीक्षाएँ',
+  'admin.section.banners': 'बैनर',
+  'admin.section.pricing': 'मूल्य निर्धारण',
+  'admin.section.analytics': 'एनालिटिक्स',
+  'admin.section.audit': 'ऑडिट लॉग',
+  'admin.sectionWithCount': '{label} ({count})',
+  'admin.backToStore': 'स्टोर पर वापस जाएँ',
+  'admin.notAllowed': 'आपकी भूमिका ({role}) को "{permission}" करने की अनुमति नहीं है। कोई बदलाव नहीं सहेजा गया।',
+  'admin.signInRequired': 'केवल साइन-इन किए हुए स्टाफ़ ही स्टोर में बदलाव कर सकते हैं।',
+  'admin.staffName': 'एडमिन',
+
+  'notifications.filter.unread': 'अपठित',
+  'notifications.badge.order': 'ऑर्डर',
+  'notifications.badge.stock': 'स्टॉक',
+  'notifications.badge.review': 'समीक्षा',
+  'notifications.badge.message': 'संदेश',
+  'notifications.type.order': 'नए ऑर्डर',
+  'notifications.type.stock': 'कम स्टॉक',
+  'notifications.type.review': 'मॉडरेशन की प्रतीक्षा में समीक्षाएँ',
+  'notifications.type.message': 'ग्राहक संदेश',
+  'notifications.markAllRead': 'सभी को पढ़ा हुआ चिह्नित करें',
+  'notifications.markRead': 'पढ़ा हुआ चिह्नित करें',
+  'notifications.caughtUp': 'कुछ भी नया नहीं है।',
+  'notifications.none': 'कोई सूचना नहीं।',
+  'notifications.more': 'ऐसी {count} और',
+  'notifications.subscriptions': 'सदस्यताएँ',
+  'notifications.subscriptionsEdit': 'चुनें कि हर भूमिका को किन घटनाओं की सूचना मिले।',
+  'notifications.subscriptionsView': 'वे घटनाएँ जिनकी सूचना आपकी भूमिका ({role}) को मिलती है। बदलने के लिए किसी एडमिन से कहें।',
+  'notifications.cannotAct': 'यह भूमिका इन घटनाओं पर कार्रवाई नहीं कर सकती',
+  'notifications.event.newOrder': '{customer} से नया ऑर्डर {id} ({total})।',
+  'notifications.event.outOfStock': '{name} स्टॉक में नहीं है।',
+  'notifications.event.lowStock': '{name} कम हो रहा है ({stock} बचे)।',
+  'notifications.event.message': '{name} का नया संदेश: "{excerpt}"',
+  'notifications.event.review': '{name} ने {product} पर {rating}-स्टार समीक्षा दी है, जो मॉडरेशन की प्रतीक्षा में है।',
+  'notifications.event.orderCancelled': 'ऑर्डर {id} को {customer} ने रद्द कर दिया।',
+  'notifications.event.returnRequested': '{customer} ने ऑर्डर {id} के लिए रिटर्न का अनुरोध किया: "{reason}"',
+  'notifications.event.restockSkipped': 'ऑर्डर {id}: {items} स्टॉक में वापस नहीं जोड़े जा सके क्योंकि उत्पाद या विकल्प अब मौजूद नहीं है।',
+  'notifications.unknownProduct': 'एक उत्पाद',
+
+  'orderStatus.pending': 'लंबित',
+  'orderStatus.shipped': 'भेजा गया',
+  'orderStatus.delivered': 'पहुँचाया गया',
+  'orderStatus.cancelled': 'रद्द',
+  'orderStatus.refunded': 'रिफ़ंड किया गया',
+  'orders.none': 'अभी तक कोई ऑर्डर नहीं दिया गया है।',
+  'orders.order': 'ऑर्डर',
+  'orders.customer': 'ग्राहक',
+  'orders.items': 'आइटम',
+  'orders.total': 'कुल',
+  'orders.update': 'अपडेट करें',
+  'orders.moveTo': 'इसमें बदलें…',
+  'orders.final': 'अंतिम',
+  'orders.tracking': 'ट्रैकिंग {number}',
+  'orders.returnRequested': 'रिटर्न का अनुरोध: "{reason}"',
+  'orders.approveReturn': 'रिफ़ंड स्वीकृत करें',
+  'orders.rejectReturn': 'अस्वीकार करें',
+  'returnStatus.requested': 'रिटर्न का अनुरोध किया गया',
+  'returnStatus.approved': 'रिटर्न स्वीकृत और रिफ़ंड किया गया',
+  'returnStatus.rejected': 'रिटर्न अस्वीकार किया गया',
+  'account.ordersTitle': 'आपके ऑर्डर',
+  'account.noOrders': 'आपने अभी तक कोई ऑर्डर नहीं दिया है।',
+  'account.noOrdersFilter': 'इस स्थिति वाला कोई ऑर्डर नहीं है।',
+  'account.placedOn': '{date} को दिया गया',
+  'account.itemCount': 'आइटम: {count}',
+  'account.backToOrders': '← सभी ऑर्डर',
+  'account.tracking': 'ट्रैकिंग नंबर',
+  'account.trackingPending': 'ऑर्डर भेजे जाने के बाद ट्रैकिंग नंबर यहाँ दिखाई देगा।',
+  'account.signInRequired': 'अपने ऑर्डर प्रबंधित करने के लिए कृपया साइन इन करें।',
+  'account.shipTo': 'डिलीवरी पता',
+  'account.cancel': 'ऑर्डर रद्द करें',
+  'account.confirmCancel': 'क्या यह ऑर्डर रद्द करें? इसे पूर्ववत नहीं किया जा सकता।',
+  'account.cancelYes': 'हाँ, रद्द करें',
+  'account.cancelNo': 'ऑर्डर रखें',
+  'account.reorder': 'सभी आइटम फिर से ऑर्डर करें',
+  'account.reordered': 'कार्ट में जोड़े गए आइटम: {count}।',
+  'account.reorderUnavailable': 'अभी उपलब्ध नहीं: {names}।',
+  'account.requestReturn': 'रिटर्न का अनुरोध करें',
+  'account.returnReason': 'आप यह ऑर्डर क्यों लौटा रहे हैं?',
+  'account.submitReturn': 'अनुरोध भेजें',
+  'account.returnWindow': '{date} तक रिटर्न स्वीकार किए जाएँगे।',
+  'account.trackOrder': 'इस ऑर्डर को ट्रैक करें',
+
+  'userStatus.active': 'सक्रिय',
+  'userStatus.blocked': 'ब्लॉक',
+  'customers.none': 'अभी तक किसी ग्राहक ने पंजीकरण नहीं किया है।',
+  'customers.customer': 'ग्राहक',
+  'customers.joined': 'जुड़े',
+  'customers.orders': 'ऑर्डर',
+  'customers.block': 'ब्लॉक करें',
+  'customers.unblock': 'अनब्लॉक करें',
+
+  'audit.filter.all': 'सभी बदलाव',
+  'audit.filter.product': 'उत्पाद',
+  'audit.filter.order': 'ऑर्डर',
+  'audit.filter.user': 'उपयोगकर्ता',
+  'audit.filter.pricing': 'मूल्य निर्धारण',
+  'audit.filter.review': 'समीक्षाएँ',
+  'audit.filter.banner': 'बैनर',
+  'audit.filter.ticket': 'टिकट',
+  'audit.entity.product': 'उत्पाद',
+  'audit.entity.order': 'ऑर्डर',
+  'audit.entity.user': 'उपयोगकर्ता',
+  'audit.entity.pricing': 'मूल्य निर्धारण',
+  'audit.entity.review': 'समीक्षा',
+  'audit.entity.banner': 'बैनर',
+  'audit.entity.ticket': 'टिकट',
+  'audit.action.created': 'बनाया गया',
+  'audit.action.updated': 'अपडेट किया गया',
+  'audit.action.deleted': 'हटाया गया',
+  'audit.none': 'अभी तक कोई बदलाव दर्ज नहीं हुआ है।',
+  'audit.when': 'कब',
+  'audit.who': 'किसने',
+  'audit.what': 'क्या',
+  'audit.details': 'विवरण',
+
+  'ticketStatus.open': 'खुला',
+  'ticketStatus.answered': 'जवाब दिया गया',
+  'ticketStatus.closed': 'बंद',
+  'inbox.none': 'यहाँ कोई संदेश नहीं।',
+  'inbox.select': 'पढ़ने और जवाब देने के लिए एक संदेश चुनें।',
+  'inbox.reopen': 'फिर से खोलें',
+  'inbox.closeTicket': 'टिकट बंद करें',
+  'inbox.replyPlaceholder': 'जवाब लिखें...',
+  'inbox.sendReply': 'जवाब भेजें',
+
+  'reviewStatus.pending': 'लंबित',
+  'reviewStatus.approved': 'स्वीकृत',
+  'reviewStatus.rejected': 'अस्वीकृत',
+  'reviewStatus.flagged': 'फ़्लैग किया गया',
+  'moderation.approve': 'स्वीकृत करें',
+  'moderation.reject': 'अस्वीकार करें',
+  'moderation.flag': 'फ़्लैग करें',
+  'moderation.none': 'यहाँ कोई समीक्षा नहीं।',
+  'moderation.moderated': '{date} को {name} द्वारा {status}',
+
+  'pricing.coupons': 'कूपन',
+  'pricing.code': 'कोड',
+  'pricing.type': 'प्रकार',
+  'pricing.percentage': 'प्रतिशत',
+  'pricing.fixed': 'निश्चित राशि',
+  'pricing.freeShipping': 'मुफ़्त शिपिंग',
+  'pricing.value': 'मान',
+  'pricing.minOrder': 'न्यूनतम ऑर्डर',
+  'pricing.expires': 'समाप्ति',
+  'pricing.usageLimit': 'उपयोग सीमा',
+  'pricing.discount': 'छूट',
+  'pricing.used': 'उपयोग हुआ',
+  'pricing.codeRequired': 'कूपन कोड आवश्यक है।',
+  'pricing.valueRequired': 'छूट का मान शून्य से अधिक होना चाहिए।',
+  'pricing.noCoupons': 'अभी तक कोई कूपन नहीं।',
+  'pricing.percentOff': '{value}% छूट',
+  'pricing.amountOff': '{amount} छूट',
+  'pricing.taxRates': 'कर दरें',
+  'pricing.otherRegions': 'अन्य सभी क्षेत्र',
+  'pricing.shippingRates': 'शिपिंग दरें (वज़न के अनुसार)',
+  'pricing.upTo': 'अधिकतम',
+  'pricing.kgCosts': 'कि.ग्रा. तक का शुल्क {symbol}',
+  'pricing.extraKg': 'अंतिम स्तर के बाद हर अतिरिक्त कि.ग्रा.: {symbol}',
+  'pricing.freeOver': 'इससे ऊपर मुफ़्त शिपिंग: {symbol}',
+  'pricing.unsavedRates': 'कर और शिपिंग दरों में बदलाव सहेजे नहीं गए हैं।',
+  'pricing.tierInvalid': 'हर शिपिंग स्तर का वज़न शून्य से अधिक होना चाहिए, और दो स्तरों का वज़न एक जैसा नहीं हो सकता।',
+  'pricing.addTier': 'स्तर जोड़ें',
+  'pricing.regionTaken': 'इस क्षेत्र की कर दर पहले से है।',
+  'pricing.regionRequired': 'क्षेत्र का नाम दर्ज करें।',
+  'pricing.addRegion': 'क्षेत्र जोड़ें',
+  'pricing.regionName': 'क्षेत्र का नाम',
+  'pricing.editingCoupon': '{code} संपादित हो रहा है। कोड बदलने से कूपन का नाम बदल जाएगा।',
+  'pricing.codeTaken': 'यह कोड पहले से किसी दूसरे कूपन में है।',
+  'pricing.currencyTitle': 'मुद्रा',
+  'pricing.storeCurrency': 'स्टोर मुद्रा',
+  'pricing.storeCurrencyHint': 'कीमतें, कूपन और शिपिंग शुल्क इसी मुद्रा में दर्ज और वसूले जाते हैं। इसे बदलने से मौजूदा कीमतें परिवर्तित नहीं होतीं।',
+  'pricing.displayCurrencies': 'प्रदर्शन मुद्राएँ',
+  'pricing.displayCurrenciesHint': 'ग्राहक इन दरों पर परिवर्तित कीमतें भी देख सकते हैं। ऑर्डर का भुगतान फिर भी स्टोर मुद्रा में होता है।',
+  'pricing.rate': '1 {store} =',
+
+  'analytics.report.summary': 'सारांश',
+  'analytics.report.daily': 'दैनिक बिक्री',
+  'analytics.report.products': 'शीर्ष उत्पाद',
+  'analytics.report.categories': 'श्रेणियाँ',
+  'analytics.report.orders': 'ऑर्डर पंक्तियाँ',
+  'analytics.noPriorData': 'पिछला डेटा नहीं',
+  'analytics.vsPrevious': 'पिछली अवधि की तुलना में {change}%',
+  'analytics.revenue': 'राजस्व (कर और शिपिंग सहित)',
+  'analytics.orders': 'ऑर्डर',
+  'analytics.customers': 'ग्राहक',
+  'analytics.newCustomers': 'नए ग्राहक',
+  'analytics.from': 'से',
+  'analytics.to': 'तक',
+  'analytics.lastDays': 'पिछले {days} दिन',
+  'analytics.exportCsv': 'CSV एक्सपोर्ट:',
+  'analytics.chooseReport': 'रिपोर्ट चुनें…',
+  'analytics.invalidRange': 'आरंभ तिथि अंतिम तिथि से पहले या उसी दिन होनी चाहिए।',
+  'analytics.topProducts': 'शीर्ष उत्पाद',
+  'analytics.salesByCategory': 'श्रेणी के अनुसार बिक्री',
+  'analytics.itemSalesNote': 'आइटम की कीमत × मात्रा, छूट, कर और शिपिंग से पहले।',
+  'analytics.otherCurrencyNote': '{currency} के अलावा किसी अन्य मुद्रा में लिए गए {count} ऑर्डर इन आँकड़ों में शामिल नहीं हैं।',
+  'analytics.noSales': 'इस अवधि में कोई बिक्री नहीं।',
+
+  'bannerStatus.live': 'लाइव',
+  'bannerStatus.scheduled': 'निर्धारित',
+  'bannerStatus.ended': 'समाप्त',
+  'bannerStatus.inactive': 'निष्क्रिय',
+  'bannerPlacement.store_header': 'स्टोर हेडर',
+  'bannerPlacement.category': 'श्रेणी पेज',
+  'bannerPlacement.checkout': 'चेकआउट',
+  'banners.edit': 'बैनर संपादित करें',
+  'banners.new': 'नया बैनर',
+  'banners.title': 'शीर्षक',
+  'banners.subtitle': 'उपशीर्षक',
+  'banners.imageUrl': 'इमेज URL',
+  'banners.link': 'लिंक',
+  'banners.placement': 'स्थान',
+  'banners.priority': 'प्राथमिकता',
+  'banners.starts': 'शुरुआत',
+  'banners.ends': 'समाप्ति',
+  'banners.targetCategories': 'लक्षित श्रेणियाँ',
+  'banners.targetHint': '(कोई न चुनने पर हर जगह दिखेगा)',
+  'banners.saveChanges': 'बदलाव सहेजें',
+  'banners.create': 'बैनर बनाएँ',
+  'banners.none': 'अभी तक कोई बैनर नहीं।',
+  'banners.banner': 'बैनर',
+  'banners.schedule': 'समय-सारणी',
+  'banners.impressions': 'इंप्रेशन',
+  'banners.clicks': 'क्लिक',
+  'banners.ctr': 'CTR',
+  'banners.priorityValue': 'प्राथमिकता {priority}',
+  'banners.now': 'अभी',
+  'banners.noEnd': 'कोई समाप्ति नहीं',
+
+  'import.exportTitle': 'कैटलॉग एक्सपोर्ट करें',
+  'import.exportHint': 'CSV में हर उत्पाद या हर वेरिएंट SKU की एक पंक्ति होती है। JSON में पूरा वेरिएंट डेटा होता है।',
+  'import.downloadCsv': 'CSV डाउनलोड करें',
+  'import.downloadJson': 'JSON डाउनलोड करें',
+  'import.importTitle': 'कैटलॉग इम्पोर्ट करें',
+  'import.importHint': 'CSV या JSON फ़ाइल अपलोड करें, उसके कॉलम मैप करें, और कुछ भी सहेजने से पहले बदलावों की समीक्षा करें।',
+  'import.chooseFile': 'फ़ाइल चुनें',
+  'import.imported': '{file} इम्पोर्ट हुई। लागू किए गए बदलाव: {count}।',
+  'import.mapColumns': '1. कॉलम मैप करें',
+  'import.fileSummary': '— {file}, {count} पंक्तियाँ',
+  'import.notMapped': '— मैप नहीं किया गया —',
+  'import.howToApply': '2. चुनें कि इसे कैसे लागू करना है',
+  'import.merge': 'मर्ज करें — उत्पाद जोड़ें और अपडेट करें, बाकी सब वैसा ही रखें',
+  'import.replace': 'बदलें — फ़ाइल ही पूरा कैटलॉग बन जाएगी; जो उत्पाद उसमें नहीं हैं वे हटा दिए जाएँगे',
+  'import.review': '3. समीक्षा (ड्राई रन)',
+  'import.problems': 'मिली समस्याएँ: {count}। फ़ाइल ठीक करके फिर से अपलोड करें।',
+  'import.row': 'पंक्ति {row}',
+  'import.denied': 'आपकी भूमिका ({role}) यह इम्पोर्ट लागू नहीं कर सकती: इसके लिए {permissions} चाहिए।',
+  'import.noChanges': 'कोई बदलाव नहीं — कैटलॉग पहले से इस फ़ाइल से मेल खाता है।',
+  'import.apply': 'इम्पोर्ट लागू करें',
+  'import.change.create': 'बनाएँ',
+  'import.change.update': 'अपडेट',
+  'import.change.delete': 'हटाएँ',
+  'import.field.id': 'उत्पाद ID',
+  'import.field.sku': 'वेरिएंट SKU',
+  'import.field.name': 'नाम',
+  'import.field.description': 'विवरण',
+  'import.field.price': 'कीमत',
+  'import.field.stock': 'स्टॉक',
+  'import.field.category': 'श्रेणी',
+  'import.field.brand': 'ब्रांड',
+  'import.field.imageUrls': 'इमेज URL',
+  'import.field.weightKg': 'वज़न (कि.ग्रा.)',
+  'assistant.open': 'हमारे असिस्टेंट से पूछें',
+  'assistant.title': 'शॉपिंग असिस्टेंट',
+  'assistant.greeting': 'नमस्ते! हमारे उत्पादों के बारे में पूछें — किसी रेसिपी के लिए क्या लें, क्या स्टॉक में है, या बताएँ कि कार्ट में क्या जोड़ना है।',
+  'assistant.placeholder': 'किसी उत्पाद के बारे में पूछें…',
+  'assistant.send': 'भेजें',
+  'assistant.clear': 'चैट साफ़ करें',
+  'assistant.thinking': 'सोच रहा हूँ…',
+  'assistant.offline': 'AI जवाब अभी उपलब्ध नहीं हैं, इसलिए मैं आपके लिए कैटलॉग में खोजूँगा।',
+  'assistant.suggestion1': 'चपाती के लिए कौन-सा आटा सबसे अच्छा है?',
+  'assistant.suggestion2': 'मेरे कार्ट में रवा के 2 पैक जोड़ें',
+  'assistant.add': 'कार्ट में जोड़ें',
+  'assistant.added': 'आपके कार्ट में जोड़ा गया: {items}।',
+  'assistant.proposed': 'क्या इन्हें अपने कार्ट में जोड़ें: {items}?',
+  'assistant.confirmAdd': 'कार्ट में जोड़ें',
+  'assistant.declineAdd': 'नहीं, धन्यवाद',
+  'assistant.declined': 'आपके कार्ट में कुछ नहीं जोड़ा गया।',
+  'assistant.noneAdded': 'इनमें से कुछ भी नहीं जोड़ा जा सका; यह स्टॉक में नहीं है।',
+  'assistant.error': 'माफ़ करें, असिस्टेंट से संपर्क नहीं हो सका।',
+  'assistant.fallback.matches': '“{query}” के लिए मुझे यह मिला:',
+  'assistant.fallback.none': 'हमारे कैटलॉग में “{query}” के लिए कुछ नहीं मिला। किसी उत्पाद का नाम, ब्रांड या श्रेणी आज़माएँ।',
+  'recommendations.alsoBought': 'ग्राहकों ने यह भी खरीदा',
+  'recommendations.similar': 'मिलते-जुलते उत्पाद',
+  'errors.couponInvalid': 'यह कूपन कोड मान्य नहीं है।',
+  'errors.couponExpired': 'इस कूपन की अवधि समाप्त हो गई है।',
+  'errors.couponUsedUp': 'यह कूपन अपनी उपयोग सीमा तक पहुँच गया है।',
+  'errors.couponMinOrder': 'इस कूपन के लिए कम से कम {amount} का ऑर्डर ज़रूरी है।',
+  'errors.tooShort': 'कृपया कम से कम {min} अक्षर लिखें।',
+  'errors.reviewNotPurchased': 'इस उत्पाद वाला ऑर्डर डिलीवर होने के बाद ही आप इसकी समीक्षा कर सकते हैं।',
+  'errors.reviewDuplicate': 'आप इस उत्पाद की समीक्षा पहले ही कर चुके हैं।',
+  'errors.reviewRating': 'कृपया 1 से 5 स्टार के बीच रेटिंग चुनें।',
+  'errors.reviewTooLong': 'समीक्षाएँ अधिकतम {max} अक्षरों की हो सकती हैं।',
+  'errors.reviewNotFound': 'समीक्षा {id} नहीं मिली।',
+  'errors.emptyCart': 'खाली कार्ट से ऑर्डर नहीं किया जा सकता।',
+  'errors.orderNotFound': 'ऑर्डर {id} नहीं मिला।',
+  'errors.orderTransition': 'ऑर्डर {id} को {from} से {to} में नहीं बदला जा सकता।',
+  'errors.orderNotInAccount': 'यह ऑर्डर आपके खाते में नहीं मिला।',
+  'errors.orderShipped': 'यह ऑर्डर भेजा जा चुका है, इसलिए इसे रद्द नहीं किया जा सकता। डिलीवरी के बाद आप रिटर्न का अनुरोध कर सकते हैं।',
+  'errors.returnNotDelivered': 'रिटर्न का अनुरोध केवल डिलीवर हुए ऑर्डर के लिए किया जा सकता है।',
+  'errors.returnAlreadyRequested': 'इस ऑर्डर के लिए रिटर्न का अनुरोध पहले ही किया जा चुका है।',
+  'errors.returnWindowClosed': 'इस ऑर्डर के लिए {days} दिन की रिटर्न अवधि समाप्त हो चुकी है।',
+  'errors.returnReason': 'कृपया बताएँ कि आप यह ऑर्डर क्यों लौटा रहे हैं।',
+  'errors.noOpenReturn': 'ऑर्डर {id} के लिए कोई खुला रिटर्न अनुरोध नहीं है।',
+  'errors.contactName': 'कृपया अपना नाम दर्ज करें।',
+  'errors.contactEmail': 'कृपया एक मान्य ईमेल पता दर्ज करें।',
+  'errors.contactTooLong': 'संदेश अधिकतम {max} अक्षरों के हो सकते हैं।',
+  'errors.contactRateLimit': 'आपने हाल ही में कई संदेश भेजे हैं। कृपया कुछ मिनट बाद फिर कोशिश करें।',
+  'errors.contactWait': 'कृपया अगला संदेश भेजने से पहले थोड़ा रुकें।',
+  'errors.ticketNotFound': 'टिकट {id} नहीं मिला।',
+  'errors.replyEmpty': 'जवाब खाली नहीं हो सकता।',
+  'errors.registerRequired': 'नाम और ईमेल ज़रूरी हैं।',
+  'errors.passwordLength': 'पासवर्ड कम से कम 8 अक्षरों का होना चाहिए।',
+  'errors.emailTaken': 'इस ईमेल से एक खाता पहले से मौजूद है।',
+  'errors.invalidLogin': 'ईमेल या पासवर्ड गलत है।',
+  'errors.accountBlocked': 'यह खाता ब्लॉक कर दिया गया है। कृपया सहायता से संपर्क करें।',
+  'errors.bannerTitle': 'शीर्षक ज़रूरी है।',
+  'errors.imageUrl': 'इमेज URL http:// या https:// से शुरू होना चाहिए।',
+  'errors.bannerLink': 'लिंक पूरा URL या इस साइट का पाथ होना चाहिए, जैसे /?category=Flour।',
+  'errors.bannerDates': 'समाप्ति तिथि शुरुआत की तिथि के बाद होनी चाहिए।',
+  'errors.exchangeRate': '{currency} की विनिमय दर शून्य से अधिक होनी चाहिए।',
+  'errors.outOfStock': '{name} स्टॉक में नहीं है।',
+  'errors.lowStock': '{name} के केवल {available} स्टॉक में बचे हैं (आपने {requested} माँगे)।',
+  'errors.insufficientStock': 'उत्पाद {product} का पर्याप्त स्टॉक नहीं है।',
+  'errors.importEmpty': 'फ़ाइल खाली है।',
+  'errors.importInvalidJson': 'फ़ाइल मान्य JSON नहीं है।',
+  'errors.importNotArray': 'उत्पाद ऑब्जेक्ट्स की JSON array अपेक्षित थी।',
+  'errors.importInvalidValue': '{field} "{value}" मान्य नहीं है।',
+  'errors.importImageUrl': 'इमेज URL "{url}" http:// या https:// से शुरू होना चाहिए।',
+  'errors.importVariants': 'हर वेरिएंट में id, SKU, विकल्प, कीमत और पूर्ण संख्या में स्टॉक होना चाहिए।',
+  'errors.importVariantOptions': 'हर वेरिएंट विकल्प में नाम और मानों की सूची होनी चाहिए।',
+  'errors.importUnknownSku': 'इस उत्पाद पर SKU "{sku}" वाला कोई वेरिएंट नहीं है।',
+  'errors.importSkuNeeded': 'इस उत्पाद के वेरिएंट हैं, इसलिए कीमत और स्टॉक के लिए SKU चाहिए जो बताए कि वे किस वेरिएंट के हैं।',
+  'errors.importRequired': '{field} ज़रूरी है।',
+  'errors.importPriceRequired': 'नए उत्पादों के लिए कीमत ज़रूरी है।',
+  'errors.importDuplicateSku': 'SKU "{sku}" एक से अधिक बार है।',
+  'errors.importDuplicateName': '"{name}" एक से अधिक बार है।',
+};
@@ -0,0 +1,496 @@
+import { Messages } from './en';
+
+export const ml: Messages = {
+  'common.save': 'സേവ് ചെയ്യുക',
+  'common.cancel': 'റദ്ദാക്കുക',
+  'common.edit': 'തിരുത്തുക',
+  'common.delete': 'ഇല്ലാതാക്കുക',
+  'common.remove': 'നീക്കം ചെയ്യുക',
+  'common.dismiss': 'മറയ്ക്കുക',
+  'common.close': 'അടയ്ക്കുക',
+  'common.ok': 'ശരി',
+  'common.name': 'പേര്',
+  'common.email': 'ഇമെയിൽ',
+  'common.status': 'നില',
+  'common.date': 'തീയതി',
+  'common.never': 'ഒരിക്കലുമില്ല',
+  'common.all': 'എല്ലാം',
+  'common.active': 'സജീവം',
+  'common.outOfStock': 'സ്റ്റോക്കില്ല',
+  'common.language': 'ഭാഷ',
+  'common.currency': 'കറൻസി',
+
+  'nav.home': 'ഹോം',
+  'nav.products': 'ഉൽപ്പന്നങ്ങൾ',
+  'nav.contact': 'ബന്ധപ്പെടുക',
+  'nav.emailUs': 'ഇമെയിൽ അയയ്ക്കുക',
+  'nav.callUs': 'വിളിക്കുക',
+  'nav.admin': 'അഡ്മിൻ',
+  'nav.adminDashboard': 'അഡ്മിൻ ഡാഷ്ബോർഡ്',
+  'nav.account': 'അക്കൗണ്ട്',
+  'nav.myAccount': 'എന്റെ അക്കൗണ്ട്',
+  'nav.logout': 'ലോഗൗട്ട്',
+  'nav.signIn': 'സൈൻ ഇൻ',
+  'nav.menu': 'മെനു',
+  'nav.wishlistLabel': 'വിഷ്‌ലിസ്റ്റ്, {count} ഇനങ്ങൾ',
+  'nav.cartLabel': 'കാർട്ട്, {count} ഇനങ്ങൾ',
+
+  'store.searchLabel': 'ഉൽപ്പന്നങ്ങൾ തിരയുക',
+  'store.searchPlaceholder': 'പേര്, ബ്രാൻഡ്, വിഭാഗം അല്ലെങ്കിൽ വിവരണം ഉപയോഗിച്ച് തിരയുക...',
+  'store.sortBy': 'ക്രമീകരിക്കുക',
+  'store.sort.relevance': 'പ്രസക്തി',
+  'store.sort.priceAsc': 'വില: കുറഞ്ഞതിൽ നിന്ന് കൂടിയതിലേക്ക്',
+  'store.sort.priceDesc': 'വില: കൂടിയതിൽ നിന്ന് കുറഞ്ഞതിലേക്ക്',
+  'store.sort.ratingDesc': 'ഏറ്റവും ഉയർന്ന റേറ്റിംഗ്',
+  'store.rating': 'റേറ്റിംഗ്',
+  'store.ratingAndUp': 'മുതൽ മുകളിലേക്ക്',
+  'store.category': 'വിഭാഗം',
+  'store.brand': 'ബ്രാൻഡ്',
+  'store.priceRange': 'വില പരിധി',
+  'store.availability': 'ലഭ്യത',
+  'store.inStockOnly': 'സ്റ്റോക്കിലുള്ളവ മാത്രം',
+  'store.showing': '{total} ഉൽപ്പന്നങ്ങളിൽ {shown} എണ്ണം കാണിക്കുന്നു',
+  'store.errorTitle': 'ഒരു പിശക് സംഭവിച്ചു',
+  'store.loadErrorGemini': 'ഉൽപ്പന്നങ്ങൾ ലോഡ് ചെയ്യാനായില്ല. നിങ്ങളുടെ API കീയും നെറ്റ്‌വർക്ക് കണക്ഷനും പരിശോധിക്കുക, അല്ലെങ്കിൽ ഓഫ്‌ലൈൻ കാറ്റലോഗ് ഉപയോഗിക്കാൻ PRODUCT_SOURCE=local സജ്ജമാക്കുക.',
+  'store.loadErrorLocal': 'ലോക്കൽ കാറ്റലോഗിൽ നിന്ന് ഉൽപ്പന്നങ്ങൾ ലോഡ് ചെയ്യാനായില്ല.',
+  'store.noProducts': 'ഉൽപ്പന്നങ്ങളൊന്നും കണ്ടെത്തിയില്ല',
+  'store.noProductsHint': 'നിങ്ങൾ തിരയുന്നത് കണ്ടെത്താൻ ഫിൽട്ടറുകൾ മാറ്റി നോക്കുക.',
+  'store.translatingCopy': 'ഉൽപ്പന്ന വിവരങ്ങൾ വിവർത്തനം ചെയ്യുന്നു…',
+
+  'price.under': '{price}-ൽ താഴെ',
+  'price.over': '{price}-ന് മുകളിൽ',
+  'price.between': '{min} മുതൽ {max} വരെ',
+  'price.all': 'എല്ലാ വിലകളും',
+  'price.min': 'കുറഞ്ഞത്',
+  'price.max': 'കൂടിയത്',
+  'price.minLabel': 'കുറഞ്ഞ വില',
+  'price.maxLabel': 'കൂടിയ വില',
+
+  'variant.available': '{count} ലഭ്യമാണ്',
+  'variant.sku': 'SKU {sku}',
+  'variant.quantity': 'എണ്ണം',
+  'variant.add': 'ചേർക്കുക',
+  'variant.addedOnly': '{count} എണ്ണം മാത്രം ചേർത്തു; ബാക്കി സ്റ്റോക്ക് ഇതിനകം നിങ്ങളുടെ കാർട്ടിലുണ്ട്.',
+  'variant.noneLeft': 'ബാക്കി സ്റ്റോക്ക് ഇതിനകം നിങ്ങളുടെ കാർട്ടിലുണ്ട്.',
+
+  'banner.previous': 'മുമ്പത്തെ ബാനർ',
+  'banner.next': 'അടുത്ത ബാനർ',
+  'banner.show': 'ബാനർ {index} കാണിക്കുക',
+
+  'reviews.title': 'ഉപഭോക്തൃ അവലോകനങ്ങൾ',
+  'reviews.outOf5': '5-ൽ {average}',
+  'reviews.starRow': '{count} സ്റ്റാർ',
+  'reviews.showingStars': '{count}-സ്റ്റാർ അവലോകനങ്ങൾ കാണിക്കുന്നു',
+  'reviews.showAll': 'എല്ലാം കാണിക്കുക',
+  'reviews.showingAll': 'എല്ലാ {count} അവലോകനങ്ങളും കാണിക്കുന്നു',
+  'reviews.sortLabel': 'അവലോകനങ്ങൾ ക്രമീകരിക്കുക',
+  'reviews.sort.newest': 'ഏറ്റവും പുതിയത്',
+  'reviews.sort.ratingDesc': 'ഉയർന്ന റേറ്റിംഗ്',
+  'reviews.sort.ratingAsc': 'കുറഞ്ഞ റേറ്റിംഗ്',
+  'reviews.none': 'ഇതുവരെ അവലോകനങ്ങളൊന്നുമില്ല.',
+  'reviews.thanks': 'നന്ദി! അംഗീകരിച്ചുകഴിഞ്ഞാൽ നിങ്ങളുടെ അവലോകനം ദൃശ്യമാകും.',
+  'reviews.yourRating': 'നിങ്ങളുടെ റേറ്റിംഗ്',
+  'reviews.starLabel': '5-ൽ {count} സ്റ്റാർ',
+  'reviews.placeholder': 'ഈ ഉൽപ്പന്നത്തെക്കുറിച്ച് നിങ്ങൾക്ക് എന്തു തോന്നി?',
+  'reviews.submit': 'അവലോകനം സമർപ്പിക്കുക',
+  'reviews.signInRequired': 'വാങ്ങിയ ഉൽപ്പന്നങ്ങൾക്ക് അവലോകനം എഴുതാൻ സൈൻ ഇൻ ചെയ്യുക.',
+
+  'contact.intro': 'സംശയങ്ങളുണ്ടോ? ഞങ്ങളെ അറിയിക്കൂ. താഴെയുള്ള ഫോം വഴി ഞങ്ങളെ ബന്ധപ്പെടുക.',
+  'contact.message': 'സന്ദേശം',
+  'contact.send': 'സന്ദേശം അയയ്ക്കുക',
+  'contact.sendFailed': 'നിങ്ങളുടെ സന്ദേശം അയയ്ക്കാനായില്ല. വീണ്ടും ശ്രമിക്കുക.',
+  'contact.sent': 'നന്ദി! നിങ്ങളുടെ സന്ദേശം അയച്ചു.',
+  'contact.replyTo': 'കഴിയുന്നതും വേഗം ഞങ്ങൾ {email} എന്ന വിലാസത്തിൽ മറുപടി നൽകും.',
+  'contact.sendAnother': 'മറ്റൊരു സന്ദേശം അയയ്ക്കുക',
+
+  'auth.signIn': 'സൈൻ ഇൻ',
+  'auth.createAccount': 'അക്കൗണ്ട് സൃഷ്ടിക്കുക',
+  'auth.password': 'പാസ്‌വേഡ്',
+  'auth.pleaseWait': 'കാത്തിരിക്കുക...',
+  'auth.newHere': 'പുതിയ ആളാണോ?',
+  'auth.createLink': 'ഒരു അക്കൗണ്ട് സൃഷ്ടിക്കുക',
+  'auth.haveAccount': 'ഇതിനകം അക്കൗണ്ട് ഉണ്ടോ?',
+  'auth.signInLink': 'സൈൻ ഇൻ ചെയ്യുക',
+  'auth.staffLogin': 'ജീവനക്കാരനാണോ? അഡ്മിൻ ലോഗിൻ',
+  'auth.genericError': 'എന്തോ പിശക് സംഭവിച്ചു. വീണ്ടും ശ്രമിക്കുക.',
+
+  'cart.priceChanged': '{name}-ന്റെ വില ഇപ്പോൾ {newPrice} ആണ് (മുമ്പ് {oldPrice}).',
+  'cart.quantityReduced': '{name} {quantity} എണ്ണം മാത്രമേ ബാക്കിയുള്ളൂ, അതിനാൽ കാർട്ടിലെ എണ്ണം കുറച്ചു.',
+  'cart.movedToSaved': '{name} സ്റ്റോക്കില്ലാത്തതിനാൽ പിന്നീടത്തേക്ക് സേവ് ചെയ്തവയിലേക്ക് മാറ്റി.',
+  'cart.unavailable': 'നിങ്ങളുടെ കാർട്ടിലെ ഒരു ഇനം ഇനി വിൽപ്പനയിലില്ലാത്തതിനാൽ നീക്കം ചെയ്തു.',
+  'cart.stockLimit': '{name} {quantity} എണ്ണം കൂടി മാത്രമേ ചേർക്കാനായുള്ളൂ; ബാക്കി സ്റ്റോക്ക് ഇതിനകം നിങ്ങളുടെ കാർട്ടിലുണ്ട്.',
+  'cart.stockLimitNone': '{name}-ന്റെ ഞങ്ങളുടെ മുഴുവൻ സ്റ്റോക്കും ഇതിനകം നിങ്ങളുടെ കാർട്ടിലുണ്ട്.',
+  'cart.inYourCart': 'നിങ്ങളുടെ കാർട്ടിൽ',
+  'cart.saveForLater': 'പിന്നീടത്തേക്ക് സേവ് ചെയ്യുക',
+  'cart.savedTitle': 'പിന്നീടത്തേക്ക് സേവ് ചെയ്തവ ({count})',
+  'cart.moveToCart': 'കാർട്ടിലേക്ക് മാറ്റുക',
+
+  'checkout.blocked': 'നിങ്ങളുടെ അക്കൗണ്ട് ബ്ലോക്ക് ചെയ്തിരിക്കുന്നതിനാൽ ഈ ഓർഡർ നൽകാനാവില്ല. സപ്പോർട്ടുമായി ബന്ധപ്പെടുക.',
+  'checkout.regionChanged': 'നിങ്ങളുടെ വിവരങ്ങളിൽ നിന്ന് നികുതി മേഖല {region} ആക്കി. പുതിയ ആകെ തുക പരിശോധിച്ച് ഓർഡർ വീണ്ടും നൽകുക.',
+  'checkout.failed': 'ഓർഡർ നൽകാനായില്ല.',
+  'checkout.guestName': 'അതിഥി',
+  'checkout.priceChangesPending': 'നിങ്ങളുടെ കാർട്ടിലെ ചില വിലകൾ മാറിയിട്ടുണ്ട്. ഓർഡർ നൽകുന്നതിന് മുമ്പ് മുകളിൽ അവ പരിശോധിച്ച് സ്ഥിരീകരിക്കുക.',
+
+  'summary.title': 'ഓർഡർ സംഗ്രഹം',
+  'summary.region': 'ഷിപ്പിംഗ് മേഖല',
+  'summary.otherRegion': 'മറ്റുള്ളവ / പട്ടികയിലില്ല',
+  'summary.couponApplied': 'കൂപ്പൺ പ്രയോഗിച്ചു:',
+  'summary.couponCode': 'കൂപ്പൺ കോഡ്',
+  'summary.apply': 'പ്രയോഗിക്കുക',
+  'summary.subtotal': 'ഉപതുക',
+  'summary.discount': 'കിഴിവ്',
+  'summary.shipping': 'ഷിപ്പിംഗ് ({weight} കി.ഗ്രാം)',
+  'summary.free': 'സൗജന്യം',
+  'summary.tax': 'നികുതി ({rate}%)',
+  'summary.taxInRegion': 'നികുതി ({rate}%, {region})',
+  'summary.total': 'ആകെ',
+  'summary.chargedIn': 'റഫറൻസിനായി വിലകൾ {display}-ൽ കാണിക്കുന്നു. നിങ്ങളിൽ നിന്ന് {store}-ൽ {amount} ഈടാക്കും.',
+
+  'role.admin': 'അഡ്മിൻ',
+  'role.manager': 'മാനേജർ',
+  'role.editor': 'എഡിറ്റർ',
+
+  'admin.section.catalog': 'കാറ്റലോഗ്',
+  'admin.section.notifications': 'അറിയിപ്പുകൾ',
+  'admin.section.import': 'ഇമ്പോർട്ട് / എക്സ്പോർട്ട്',
+  'admin.section.orders': 'ഓർഡറുകൾ',
+  'admin.section.customers': 'ഉപഭോക്താക്കൾ',
+  'admin.section.inbox': 'ഇൻബോക്സ്',
+  'admin.section.reviews': 'അവലോകനങ്ങൾ',
+  'admin.section.banners': 'ബാനറുകൾ',
+  'admin.section.pricing': 'വിലനിർണ്ണയം',
+  'admin.section.analytics': 'അനലിറ്റിക്സ്',
+  'admin.section.audit': 'ഓഡിറ്റ് ലോഗ്',
+  'admin.sectionWithCount': '{label} ({count})',
+  'admin.backToStore': 'സ്റ്റോറിലേക്ക് മടങ്ങുക',
+  'admin.notAllowed': 'നിങ്ങളുടെ റോളിന് ({role}) "{permission}" ചെയ്യാൻ അനുമതിയില്ല. മാറ്റങ്ങളൊന്നും സേവ് ചെയ്തില്ല.',
+  'admin.signInRequired': 'സൈൻ ഇൻ ചെയ്ത സ്റ്റാഫിന് മാത്രമേ സ്റ്റോറിൽ മാറ്റങ്ങൾ വരുത്താനാകൂ.',
+  'admin.staffName': 'അഡ്മിൻ',
+
+  'notifications.filter.unread': 'വായിക്കാത്തവ',
+  'notifications.badge.order': 'ഓർഡർ',
+  'notifications.badge.stock': 'സ്റ്റോക്ക്',
+  'notifications.badge.review': 'അവലോകനം',
+  'notifications.badge.message': 'സന്ദേശം',
+  'notifications.type.order': 'പുതിയ ഓർഡറുകൾ',
+  'notifications.type.stock': 'കുറഞ്ഞ സ്റ്റോക്ക്',
+  'notifications.type.review': 'മോഡറേഷൻ കാത്തിരിക്കുന്ന അവലോകനങ്ങൾ',
+  'notifications.type.message': 'ഉപഭോക്തൃ സന്ദേശങ്ങൾ',
+  'notifications.markAllRead': 'എല്ലാം വായിച്ചതായി അടയാളപ്പെടുത്തുക',
+  'notifications.markRead': 'വായിച്ചതായി അടയാളപ്പെടുത്തുക',
+  'notifications.caughtUp': 'പുതിയതായി ഒന്നുമില്ല.',
+  'notifications.none': 'അറിയിപ്പുകളൊന്നുമില്ല.',
+  'notifications.more': 'ഇതുപോലെ {count} എണ്ണം കൂടി',
+  'notifications.subscriptions': 'സബ്‌സ്‌ക്രിപ്‌ഷനുകൾ',
+  'notifications.subscriptionsEdit': 'ഓരോ റോളിനും ഏതൊക്കെ സംഭവങ്ങളെക്കുറിച്ച് അറിയിപ്പ് ലഭിക്കണമെന്ന് തിരഞ്ഞെടുക്കുക.',
+  'notifications.subscriptionsView': 'നിങ്ങളുടെ റോളിന് ({role}) അറിയിപ്പ് ലഭിക്കുന്ന സംഭവങ്ങൾ. മാറ്റാൻ ഒരു അഡ്മിനോട് ആവശ്യപ്പെടുക.',
+  'notifications.cannotAct': 'ഈ റോളിന് ഈ സംഭവങ്ങളിൽ നടപടിയെടുക്കാനാവില്ല',
+  'notifications.event.newOrder': '{customer}-ൽ നിന്ന് പുതിയ ഓർഡർ {id} ({total}).',
+  'notifications.event.outOfStock': '{name} സ്റ്റോക്കില്ല.',
+  'notifications.event.lowStock': '{name} കുറയുന്നു ({stock} എണ്ണം ബാക്കി).',
+  'notifications.event.message': '{name}-ൽ നിന്ന് പുതിയ സന്ദേശം: "{excerpt}"',
+  'notifications.event.review': '{name} {product}-ന് നൽകിയ {rating}-സ്റ്റാർ അവലോകനം മോഡറേഷൻ കാത്തിരിക്കുന്നു.',
+  'notifications.event.orderCancelled': 'ഓർഡർ {id} {customer} റദ്ദാക്കി.',
+  'notifications.event.returnRequested': 'ഓർഡർ {id}-ന് {customer} റിട്ടേൺ അഭ്യർത്ഥിച്ചു: "{reason}"',
+  'notifications.event.restockSkipped': 'ഓർഡർ {id}: ഉൽപ്പന്നമോ ഓപ്ഷനോ ഇപ്പോൾ നിലവിലില്ലാത്തതിനാൽ {items} സ്റ്റോക്കിലേക്ക് തിരികെ ചേർക്കാനായില്ല.',
+  'notifications.unknownProduct': 'ഒരു ഉൽപ്പന്നം',
+
+  'orderStatus.pending': 'തീർപ്പാക്കാനുണ്ട്',
+  'orderStatus.shipped': 'അയച്ചു',
+  'orderStatus.delivered': 'ഡെലിവർ ചെയ്തു',
+  'orderStatus.cancelled': 'റദ്ദാക്കി',
+  'orderStatus.refunded': 'റീഫണ്ട് ചെയ്തു',
+  'orders.none': 'ഇതുവരെ ഓർഡറുകളൊന്നും ലഭിച്ചിട്ടില്ല.',
+  'orders.order': 'ഓർഡർ',
+  'orders.customer': 'ഉപഭോക്താവ്',
+  'orders.items': 'ഇനങ്ങൾ',
+  'orders.total': 'ആകെ',
+  'orders.update': 'പുതുക്കുക',
+  'orders.moveTo': 'ഇതിലേക്ക് മാറ്റുക…',
+  'orders.final': 'അന്തിമം',
+  'orders.tracking': 'ട്രാക്കിംഗ് {number}',
+  'orders.returnRequested': 'റിട്ടേൺ അഭ്യർത്ഥിച്ചു: "{reason}"',
+  'orders.approveReturn': 'റീഫണ്ട് അംഗീകരിക്കുക',
+  'orders.rejectReturn': 'നിരസിക്കുക',
+  'returnStatus.requested': 'റിട്ടേൺ അഭ്യർത്ഥിച്ചു',
+  'returnStatus.approved': 'റിട്ടേൺ അംഗീകരിച്ചു, റീഫണ്ട് ചെയ്തു',
+  'returnStatus.rejected': 'റിട്ടേൺ നിരസിച്ചു',
+  'account.ordersTitle': 'നിങ്ങളുടെ ഓർഡറുകൾ',
+  'account.noOrders': 'നിങ്ങൾ ഇതുവരെ ഓർഡറുകളൊന്നും നൽകിയിട്ടില്ല.',
+  'account.noOrdersFilter': 'ഈ നിലയിലുള്ള ഓർഡറുകളൊന്നുമില്ല.',
+  'account.placedOn': '{date}-ന് നൽകിയത്',
+  'account.itemCount': 'ഇനങ്ങൾ: {count}',
+  'account.backToOrders': '← എല്ലാ ഓർഡറുകളും',
+  'account.tracking': 'ട്രാക്കിംഗ് നമ്പർ',
+  'account.trackingPending': 'നിങ്ങളുടെ ഓർഡർ അയച്ചുകഴിഞ്ഞാൽ ട്രാക്കിംഗ് നമ്പർ ഇവിടെ കാണാം.',
+  'account.signInRequired': 'നിങ്ങളുടെ ഓർഡറുകൾ കൈകാര്യം ചെയ്യാൻ സൈൻ ഇൻ ചെയ്യുക.',
+  'account.shipTo': 'അയയ്ക്കുന്ന വിലാസം',
+  'account.cancel': 'ഓർഡർ റദ്ദാക്കുക',
+  'account.confirmCancel': 'ഈ ഓർഡർ റദ്ദാക്കണോ? ഇത് പിൻവലിക്കാനാവില്ല.',
+  'account.cancelYes': 'അതെ, റദ്ദാക്കുക',
+  'account.cancelNo': 'ഓർഡർ നിലനിർത്തുക',
+  'account.reorder': 'എല്ലാ ഇനങ്ങളും വീണ്ടും ഓർഡർ ചെയ്യുക',
+  'account.reordered': 'കാർട്ടിലേക്ക് ചേർത്ത ഇനങ്ങൾ: {count}.',
+  'account.reorderUnavailable': 'ഇപ്പോൾ ലഭ്യമല്ല: {names}.',
+  'account.requestReturn': 'റിട്ടേൺ അഭ്യർത്ഥിക്കുക',
+  'account.returnReason': 'എന്തുകൊണ്ടാണ് ഈ ഓർഡർ തിരികെ നൽകുന്നത്?',
+  'account.submitReturn': 'അഭ്യർത്ഥന സമർപ്പിക്കുക',
+  'account.returnWindow': '{date} വരെ റിട്ടേണുകൾ സ്വീകരിക്കും.',
+  'account.trackOrder': 'ഈ ഓർഡർ ട്രാക്ക് ചെയ്യുക',
+
+  'userStatus.active': 'സജീവം',
+  'userStatus.blocked': 'ബ്ലോക്ക് ചെയ്തു',
+  'customers.none': 'ഇതുവരെ ഉപഭോക്താക്കളാരും രജിസ്റ്റർ ചെയ്തിട്ടില്ല.',
+  'customers.customer': 'ഉപഭോക്താവ്',
+  'customers.joined': 'ചേർന്നത്',
+  'customers.orders': 'ഓർഡറുകൾ',
+  'customers.block': 'ബ്ലോക്ക് ചെയ്യുക',
+  'customers.unblock': 'അൺബ്ലോക്ക് ചെയ്യുക',
+
+  'audit.filter.all': 'എല്ലാ മാറ്റങ്ങളും',
+  'audit.filter.product': 'ഉൽപ്പന്നങ്ങൾ',
+  'audit.filter.order': 'ഓർഡറുകൾ',
+  'audit.filter.user': 'ഉപയോക്താക്കൾ',
+  'audit.filter.pricing': 'വിലനിർണ്ണയം',
+  'audit.filter.review': 'അവലോകനങ്ങൾ',
+  'audit.filter.banner': 'ബാനറുകൾ',
+  'audit.filter.ticket': 'ടിക്കറ്റുകൾ',
+  'audit.entity.product': 'ഉൽപ്പന്നം',
+  'audit.entity.order': 'ഓർഡർ',
+  'audit.entity.user': 'ഉപയോക്താവ്',
+  'audit.entity.pricing': 'വിലനിർണ്ണയം',
+  'audit.entity.review': 'അവലോകനം',
+  'audit.entity.banner': 'ബാനർ',
+  'audit.entity.ticket': 'ടിക്കറ്റ്',
+  'audit.action.created': 'സൃഷ്ടിച്ചു',
+  'audit.action.updated': 'പുതുക്കി',
+  'audit.action.deleted': 'ഇല്ലാതാക്കി',
+  'audit.none': 'ഇതുവരെ മാറ്റങ്ങളൊന്നും രേഖപ്പെടുത്തിയിട്ടില്ല.',
+  'audit.when': 'എപ്പോൾ',
+  'audit.who': 'ആര്',
+  'audit.what': 'എന്ത്',
+  'audit.details': 'വിശദാംശങ്ങൾ',
+
+  'ticketStatus.open': 'തുറന്നത്',
+  'ticketStatus.answered': 'മറുപടി നൽകി',
+  'ticketStatus.closed': 'അടച്ചു',
+  'inbox.none': 'ഇവിടെ സന്ദേശങ്ങളൊന്നുമില്ല.',
+  'inbox.select': 'വായിക്കാനും മറുപടി നൽകാനും ഒരു സന്ദേശം തിരഞ്ഞെടുക്കുക.',
+  'inbox.reopen': 'വീണ്ടും തുറക്കുക',
+  'inbox.closeTicket': 'ടിക്കറ്റ് അടയ്ക്കുക',
+  'inbox.replyPlaceholder': 'മറുപടി എഴുതുക...',
+  'inbox.sendReply': 'മറുപടി അയയ്ക്കുക',
+
+  'reviewStatus.pending': 'തീർപ്പാക്കാനുണ്ട്',
+  'reviewStatus.approved': 'അംഗീകരിച്ചു',
+  'reviewStatus.rejected': 'നിരസിച്ചു',
+  'reviewStatus.flagged': 'ഫ്ലാഗ് ചെയ്തു',
+  'moderation.approve': 'അംഗീകരിക്കുക',
+  'moderation.reject': 'നിരസിക്കുക',
+  'moderation.flag': 'ഫ്ലാഗ് ചെയ്യുക',
+  'moderation.none': 'ഇവിടെ അവലോകനങ്ങളൊന്നുമില്ല.',
+  'moderation.moderated': '{date}-ന് {name}: {status}',
+
+  'pricing.coupons': 'കൂപ്പണുകൾ',
+  'pricing.code': 'കോഡ്',
+  'pricing.type': 'തരം',
+  'pricing.percentage': 'ശതമാനം',
+  'pricing.fixed': 'നിശ്ചിത തുക',
+  'pricing.freeShipping': 'സൗജന്യ ഷിപ്പിംഗ്',
+  'pricing.value': 'മൂല്യം',
+  'pricing.minOrder': 'കുറഞ്ഞ ഓർഡർ',
+  'pricing.expires': 'കാലാവധി',
+  'pricing.usageLimit': 'ഉപയോഗ പരിധി',
+  'pricing.discount': 'കിഴിവ്',
+  'pricing.used': 'ഉപയോഗിച്ചത്',
+  'pricing.codeRequired': 'കൂപ്പൺ കോഡ് ആവശ്യമാണ്.',
+  'pricing.valueRequired': 'കിഴിവ് മൂല്യം പൂജ്യത്തേക്കാൾ കൂടുതലായിരിക്കണം.',
+  'pricing.noCoupons': 'ഇതുവരെ കൂപ്പണുകളൊന്നുമില്ല.',
+  'pricing.percentOff': '{value}% കിഴിവ്',
+  'pricing.amountOff': '{amount} കിഴിവ്',
+  'pricing.taxRates': 'നികുതി നിരക്കുകൾ',
+  'pricing.otherRegions': 'മറ്റെല്ലാ മേഖലകളും',
+  'pricing.shippingRates': 'ഷിപ്പിംഗ് നിരക്കുകൾ (ഭാരം അനുസരിച്ച്)',
+  'pricing.upTo': 'പരമാവധി',
+  'pricing.kgCosts': 'കി.ഗ്രാം വരെ നിരക്ക് {symbol}',
+  'pricing.extraKg': 'അവസാന നിരയ്ക്ക് ശേഷമുള്ള ഓരോ അധിക കി.ഗ്രാമിനും: {symbol}',
+  'pricing.freeOver': 'ഇതിന് മുകളിൽ സൗജന്യ ഷിപ്പിംഗ്: {symbol}',
+  'pricing.unsavedRates': 'നികുതി, ഷിപ്പിംഗ് നിരക്കുകളിലെ മാറ്റങ്ങൾ സേവ് ചെയ്തിട്ടില്ല.',
+  'pricing.tierInvalid': 'ഓരോ ഷിപ്പിംഗ് തട്ടിനും പൂജ്യത്തിൽ കൂടുതൽ ഭാരം വേണം, രണ്ട് തട്ടുകൾക്ക് ഒരേ ഭാരം പാടില്ല.',
+  'pricing.addTier': 'തട്ട് ചേർക്കുക',
+  'pricing.regionTaken': 'ഈ മേഖലയ്ക്ക് ഇതിനകം നികുതി നിരക്കുണ്ട്.',
+  'pricing.regionRequired': 'മേഖലയുടെ പേര് നൽകുക.',
+  'pricing.addRegion': 'മേഖല ചേർക്കുക',
+  'pricing.regionName': 'മേഖലയുടെ പേര്',
+  'pricing.editingCoupon': '{code} എഡിറ്റ് ചെയ്യുന്നു. കോഡ് മാറ്റിയാൽ കൂപ്പണിന്റെ പേര് മാറും.',
+  'pricing.codeTaken': 'ഈ കോഡ് മറ്റൊരു കൂപ്പൺ ഉപയോഗിക്കുന്നുണ്ട്.',
+  'pricing.currencyTitle': 'കറൻസി',
+  'pricing.storeCurrency': 'സ്റ്റോർ കറൻസി',
+  'pricing.storeCurrencyHint': 'വിലകൾ, കൂപ്പണുകൾ, ഷിപ്പിംഗ് നിരക്കുകൾ എന്നിവ ഈ കറൻസിയിലാണ് നൽകുന്നതും ഈടാക്കുന്നതും. ഇത് മാറ്റിയാൽ നിലവിലുള്ള വിലകൾ പരിവർത്തനം ചെയ്യില്ല.',
+  'pricing.displayCurrencies': 'പ്രദർശന കറൻസികൾ',
+  'pricing.displayCurrenciesHint': 'ഈ നിരക്കുകളിൽ പരിവർത്തനം ചെയ്ത വിലകളും ഉപഭോക്താക്കൾക്ക് കാണാം. ഓർഡറുകൾ ഇപ്പോഴും സ്റ്റോർ കറൻസിയിലാണ് ഈടാക്കുന്നത്.',
+  'pricing.rate': '1 {store} =',
+
+  'analytics.report.summary': 'സംഗ്രഹം',
+  'analytics.report.daily': 'ദൈനംദിന വിൽപ്പന',
+  'analytics.report.products': 'മുൻനിര ഉൽപ്പന്നങ്ങൾ',
+  'analytics.report.categories': 'വിഭാഗങ്ങൾ',
+  'analytics.report.orders': 'ഓർഡർ വരികൾ',
+  'analytics.noPriorData': 'മുൻ ഡാറ്റയില്ല',
+  'analytics.vsPrevious': 'മുൻ കാലയളവിനെ അപേക്ഷിച്ച് {change}%',
+  'analytics.revenue': 'വരുമാനം (നികുതിയും ഷിപ്പിംഗും ഉൾപ്പെടെ)',
+  'analytics.orders': 'ഓർഡറുകൾ',
+  'analytics.customers': 'ഉപഭോക്താക്കൾ',
+  'analytics.newCustomers': 'പുതിയ ഉപഭോക്താക്കൾ',
+  'analytics.from': 'മുതൽ',
+  'analytics.to': 'വരെ',
+  'analytics.lastDays': 'കഴിഞ്ഞ {days} ദിവസം',
+  'analytics.exportCsv': 'CSV എക്സ്പോർട്ട്:',
+  'analytics.chooseReport': 'റിപ്പോർട്ട് തിരഞ്ഞെടുക്കുക…',
+  'analytics.invalidRange': 'ആരംഭ തീയതി അവസാന തീയതിയോ അതിനു മുമ്പോ ആയിരിക്കണം.',
+  'analytics.topProducts': 'മുൻനിര ഉൽപ്പന്നങ്ങൾ',
+  'analytics.salesByCategory': 'വിഭാഗം തിരിച്ചുള്ള വിൽപ്പന',
+  'analytics.itemSalesNote': 'ഇനത്തിന്റെ വില × എണ്ണം, കിഴിവ്, നികുതി, ഷിപ്പിംഗ് എന്നിവയ്ക്ക് മുമ്പ്.',
+  'analytics.otherCurrencyNote': '{currency} അല്ലാത്ത കറൻസിയിൽ ഈടാക്കിയ {count} ഓർഡറുകൾ ഈ കണക്കുകളിൽ ഉൾപ്പെടുത്തിയിട്ടില്ല.',
+  'analytics.noSales': 'ഈ കാലയളവിൽ വിൽപ്പനയില്ല.',
+
+  'bannerStatus.live': 'ലൈവ്',
+  'bannerStatus.scheduled': 'ഷെഡ്യൂൾ ചെയ്തു',
+  'bannerStatus.ended': 'അവസാനിച്ചു',
+  'bannerStatus.inactive': 'നിഷ്ക്രിയം',
+  'bannerPlacement.store_header': 'സ്റ്റോർ ഹെഡർ',
+  'bannerPlacement.category': 'വിഭാഗ പേജുകൾ',
+  'bannerPlacement.checkout': 'ചെക്ക്ഔട്ട്',
+  'banners.edit': 'ബാനർ തിരുത്തുക',
+  'banners.new': 'പുതിയ ബാനർ',
+  'banners.title': 'തലക്കെട്ട്',
+  'banners.subtitle': 'ഉപതലക്കെട്ട്',
+  'banners.imageUrl': 'ചിത്ര URL',
+  'banners.link': 'ലിങ്ക്',
+  'banners.placement': 'സ്ഥാനം',
+  'banners.priority': 'മുൻഗണന',
+  'banners.starts': 'ആരംഭം',
+  'banners.ends': 'അവസാനം',
+  'banners.targetCategories': 'ലക്ഷ്യ വിഭാഗങ്ങൾ',
+  'banners.targetHint': '(ഒന്നും തിരഞ്ഞെടുത്തില്ലെങ്കിൽ എല്ലായിടത്തും കാണിക്കും)',
+  'banners.saveChanges': 'മാറ്റങ്ങൾ സേവ് ചെയ്യുക',
+  'banners.create': 'ബാനർ സൃഷ്ടിക്കുക',
+  'banners.none': 'ഇതുവരെ ബാനറുകളൊന്നുമില്ല.',
+  'banners.banner': 'ബാനർ',
+  'banners.schedule': 'ഷെഡ്യൂൾ',
+  'banners.impressions': 'ഇംപ്രഷനുകൾ',
+  'banners.clicks': 'ക്ലിക്കുകൾ',
+  'banners.ctr': 'CTR',
+  'banners.priorityValue': 'മുൻഗണന {priority}',
+  'banners.now': 'ഇപ്പോൾ',
+  'banners.noEnd': 'അവസാനമില്ല',
+
+  'import.exportTitle': 'കാറ്റലോഗ് എക്സ്പോർട്ട് ചെയ്യുക',
+  'import.exportHint': 'CSV-യിൽ ഓരോ ഉൽപ്പന്നത്തിനും അല്ലെങ്കിൽ ഓരോ വേരിയന്റ് SKU-വിനും ഒരു വരി. JSON-ൽ മുഴുവൻ വേരിയന്റ് ഡാറ്റയും ഉണ്ട്.',
+  'import.downloadCsv': 'CSV ഡൗൺലോഡ് ചെയ്യുക',
+  'import.downloadJson': 'JSON ഡൗൺലോഡ് ചെയ്യുക',
+  'import.importTitle': 'കാറ്റലോഗ് ഇമ്പോർട്ട് ചെയ്യുക',
+  'import.importHint': 'ഒരു CSV അല്ലെങ്കിൽ JSON ഫയൽ അപ്‌ലോഡ് ചെയ്യുക, കോളങ്ങൾ മാപ്പ് ചെയ്യുക, ഒന്നും സേവ് ചെയ്യുന്നതിന് മുമ്പ് മാറ്റങ്ങൾ പരിശോധിക്കുക.',
+  'import.chooseFile': 'ഫയൽ തിരഞ്ഞെടുക്കുക',
+  'import.imported': '{file} ഇമ്പോർട്ട് ചെയ്തു. പ്രയോഗിച്ച മാറ്റങ്ങൾ: {count}.',
+  'import.mapColumns': '1. കോളങ്ങൾ മാപ്പ് ചെയ്യുക',
+  'import.fileSummary': '— {file}, {count} വരികൾ',
+  'import.notMapped': '— മാപ്പ് ചെയ്തിട്ടില്ല —',
+  'import.howToApply': '2. എങ്ങനെ പ്രയോഗിക്കണമെന്ന് തിരഞ്ഞെടുക്കുക',
+  'import.merge': 'ലയിപ്പിക്കുക — ഉൽപ്പന്നങ്ങൾ ചേർക്കുകയും പുതുക്കുകയും ചെയ്യുക, ബാക്കിയെല്ലാം നിലനിർത്തുക',
+  'import.replace': 'മാറ്റിസ്ഥാപിക്കുക — ഫയൽ മുഴുവൻ കാറ്റലോഗാകും; അതിലില്ലാത്ത ഉൽപ്പന്നങ്ങൾ ഇല്ലാതാക്കും',
+  'import.review': '3. പരിശോധിക്കുക (ഡ്രൈ റൺ)',
+  'import.problems': 'കണ്ടെത്തിയ പ്രശ്നങ്ങൾ: {count}. ഫയൽ ശരിയാക്കി വീണ്ടും അപ്‌ലോഡ് ചെയ്യുക.',
+  'import.row': 'വരി {row}',
+  'import.denied': 'നിങ്ങളുടെ റോളിന് ({role}) ഈ ഇമ്പോർട്ട് പ്രയോഗിക്കാനാവില്ല: ഇതിന് {permissions} ആവശ്യമാണ്.',
+  'import.noChanges': 'മാറ്റങ്ങളൊന്നുമില്ല — കാറ്റലോഗ് ഇതിനകം ഈ ഫയലുമായി പൊരുത്തപ്പെടുന്നു.',
+  'import.apply': 'ഇമ്പോർട്ട് പ്രയോഗിക്കുക',
+  'import.change.create': 'സൃഷ്ടിക്കുക',
+  'import.change.update': 'പുതുക്കുക',
+  'import.change.delete': 'ഇല്ലാതാക്കുക',
+  'import.field.id': 'ഉൽപ്പന്ന ID',
+  'import.field.sku': 'വേരിയന്റ് SKU',
+  'import.field.name': 'പേര്',
+  'import.field.description': 'വിവരണം',
+  'import.field.price': 'വില',
+  'import.field.stock': 'സ്റ്റോക്ക്',
+  'import.field.category': 'വിഭാഗം',
+  'import.field.brand': 'ബ്രാൻഡ്',
+  'import.field.imageUrls': 'ചിത്ര URL-കൾ',
+  'import.field.weightKg': 'ഭാരം (കി.ഗ്രാം)',
+  'assistant.open': 'ഞങ്ങളുടെ അസിസ്റ്റന്റിനോട് ചോദിക്കുക',
+  'assistant.title': 'ഷോപ്പിംഗ് അസിസ്റ്റന്റ്',
+  'assistant.greeting': 'ഹായ്! ഞങ്ങളുടെ ഉൽപ്പന്നങ്ങളെക്കുറിച്ച് ചോദിക്കൂ — ഒരു പാചകക്കുറിപ്പിന് എന്ത് ഉപയോഗിക്കണം, എന്താണ് സ്റ്റോക്കിലുള്ളത്, അല്ലെങ്കിൽ കാർട്ടിലേക്ക് എന്ത് ചേർക്കണമെന്ന് പറയൂ.',
+  'assistant.placeholder': 'ഒരു ഉൽപ്പന്നത്തെക്കുറിച്ച് ചോദിക്കുക…',
+  'assistant.send': 'അയയ്ക്കുക',
+  'assistant.clear': 'ചാറ്റ് മായ്ക്കുക',
+  'assistant.thinking': 'ആലോചിക്കുന്നു…',
+  'assistant.offline': 'AI മറുപടികൾ ഇപ്പോൾ ലഭ്യമല്ല, അതിനാൽ ഞാൻ നിങ്ങൾക്കായി കാറ്റലോഗിൽ തിരയാം.',
+  'assistant.suggestion1': 'ചപ്പാത്തിക്ക് ഏറ്റവും നല്ല മാവ് ഏതാണ്?',
+  'assistant.suggestion2': 'എന്റെ കാർട്ടിലേക്ക് 2 പാക്ക് റവ ചേർക്കുക',
+  'assistant.add': 'കാർട്ടിലേക്ക് ചേർക്കുക',
+  'assistant.added': 'നിങ്ങളുടെ കാർട്ടിലേക്ക് ചേർത്തു: {items}.',
+  'assistant.proposed': 'ഇവ നിങ്ങളുടെ കാർട്ടിൽ ചേർക്കട്ടെ: {items}?',
+  'assistant.confirmAdd': 'കാർട്ടിൽ ചേർക്കുക',
+  'assistant.declineAdd': 'വേണ്ട, നന്ദി',
+  'assistant.declined': 'നിങ്ങളുടെ കാർട്ടിൽ ഒന്നും ചേർത്തില്ല.',
+  'assistant.noneAdded': 'ഇവയൊന്നും ചേർക്കാനായില്ല; സ്റ്റോക്കിലില്ല.',
+  'assistant.error': 'ക്ഷമിക്കണം, അസിസ്റ്റന്റുമായി ബന്ധപ്പെടാനായില്ല.',
+  'assistant.fallback.matches': '“{query}” എന്നതിന് ഞാൻ കണ്ടെത്തിയത്:',
+  'assistant.fallback.none': '“{query}” എന്നതിന് ഞങ്ങളുടെ കാറ്റലോഗിൽ ഒന്നും കണ്ടെത്താനായില്ല. ഒരു ഉൽപ്പന്നത്തിന്റെ പേര്, ബ്രാൻഡ് അല്ലെങ്കിൽ വിഭാഗം പരീക്ഷിക്കുക.',
+  'recommendations.alsoBought': 'ഉപഭോക്താക്കൾ ഇതും വാങ്ങി',
+  'recommendations.similar': 'സമാനമായ ഉൽപ്പന്നങ്ങൾ',
+  'errors.couponInvalid': 'ഈ കൂപ്പൺ കോഡ് സാധുവല്ല.',
+  'errors.couponExpired': 'ഈ കൂപ്പണിന്റെ കാലാവധി കഴിഞ്ഞു.',
+  'errors.couponUsedUp': 'ഈ കൂപ്പൺ ഉപയോഗ പരിധിയിൽ എത്തി.',
+  'errors.couponMinOrder': 'ഈ കൂപ്പണിന് കുറഞ്ഞത് {amount} ന്റെ ഓർഡർ വേണം.',
+  'errors.tooShort': 'കുറഞ്ഞത് {min} അക്ഷരങ്ങൾ എഴുതുക.',
+  'errors.reviewNotPurchased': 'ഈ ഉൽപ്പന്നം ഉൾപ്പെട്ട ഓർഡർ ഡെലിവർ ചെയ്തതിന് ശേഷം മാത്രമേ അവലോകനം എഴുതാനാകൂ.',
+  'errors.reviewDuplicate': 'നിങ്ങൾ ഈ ഉൽപ്പന്നത്തിന് ഇതിനകം അവലോകനം എഴുതിയിട്ടുണ്ട്.',
+  'errors.reviewRating': '1 മുതൽ 5 വരെ സ്റ്റാർ റേറ്റിംഗ് തിരഞ്ഞെടുക്കുക.',
+  'errors.reviewTooLong': 'അവലോകനങ്ങൾ പരമാവധി {max} അക്ഷരങ്ങൾ വരെ.',
+  'errors.reviewNotFound': 'അവലോകനം {id} കണ്ടെത്തിയില്ല.',
+  'errors.emptyCart': 'ശൂന്യമായ കാർട്ടിൽ നിന്ന് ഓർഡർ നൽകാനാവില്ല.',
+  'errors.orderNotFound': 'ഓർഡർ {id} കണ്ടെത്തിയില്ല.',
+  'errors.orderTransition': 'ഓർഡർ {id} {from} ൽ നിന്ന് {to} ആക്കാനാവില്ല.',
+  'errors.orderNotInAccount': 'ആ ഓർഡർ നിങ്ങളുടെ അക്കൗണ്ടിൽ കണ്ടെത്തിയില്ല.',
+  'errors.orderShipped': 'ഈ ഓർഡർ ഇതിനകം അയച്ചതിനാൽ റദ്ദാക്കാനാവില്ല. ഡെലിവറി കഴിഞ്ഞ് റിട്ടേൺ അഭ്യർത്ഥിക്കാം.',
+  'errors.returnNotDelivered': 'ഡെലിവർ ചെയ്ത ഓർഡറുകൾക്ക് മാത്രമേ റിട്ടേൺ അഭ്യർത്ഥിക്കാനാകൂ.',
+  'errors.returnAlreadyRequested': 'ഈ ഓർഡറിന് ഇതിനകം റിട്ടേൺ അഭ്യർത്ഥിച്ചിട്ടുണ്ട്.',
+  'errors.returnWindowClosed': 'ഈ ഓർഡറിന്റെ {days} ദിവസത്തെ റിട്ടേൺ കാലാവധി കഴിഞ്ഞു.',
+  'errors.returnReason': 'ഈ ഓർഡർ തിരികെ നൽകുന്നത് എന്തുകൊണ്ടെന്ന് പറയുക.',
+  'errors.noOpenReturn': 'ഓർഡർ {id} ന് തുറന്ന റിട്ടേൺ അഭ്യർത്ഥനയില്ല.',
+  'errors.contactName': 'നിങ്ങളുടെ പേര് നൽകുക.',
+  'errors.contactEmail': 'സാധുവായ ഇമെയിൽ വിലാസം നൽകുക.',
+  'errors.contactTooLong': 'സന്ദേശങ്ങൾ പരമാവധി {max} അക്ഷരങ്ങൾ വരെ.',
+  'errors.contactRateLimit': 'നിങ്ങൾ അടുത്തിടെ നിരവധി സന്ദേശങ്ങൾ അയച്ചു. കുറച്ച് മിനിറ്റിന് ശേഷം വീണ്ടും ശ്രമിക്കുക.',
+  'errors.contactWait': 'അടുത്ത സന്ദേശം അയയ്ക്കുന്നതിന് മുമ്പ് അൽപം കാത്തിരിക്കുക.',
+  'errors.ticketNotFound': 'ടിക്കറ്റ് {id} കണ്ടെത്തിയില്ല.',
+  'errors.replyEmpty': 'മറുപടി ശൂന്യമാകരുത്.',
+  'errors.registerRequired': 'പേരും ഇമെയിലും ആവശ്യമാണ്.',
+  'errors.passwordLength': 'പാസ്‌വേഡിന് കുറഞ്ഞത് 8 അക്ഷരങ്ങൾ വേണം.',
+  'errors.emailTaken': 'ഈ ഇമെയിലിൽ ഇതിനകം ഒരു അക്കൗണ്ട് ഉണ്ട്.',
+  'errors.invalidLogin': 'ഇമെയിൽ അല്ലെങ്കിൽ പാസ്‌വേഡ് തെറ്റാണ്.',
+  'errors.accountBlocked': 'ഈ അക്കൗണ്ട് തടഞ്ഞിരിക്കുന്നു. സപ്പോർട്ടുമായി ബന്ധപ്പെടുക.',
+  'errors.bannerTitle': 'തലക്കെട്ട് ആവശ്യമാണ്.',
+  'errors.imageUrl': 'ഇമേജ് URL http:// അല്ലെങ്കിൽ https:// ൽ തുടങ്ങണം.',
+  'errors.bannerLink': 'ലിങ്ക് ഒരു പൂർണ്ണ URL അല്ലെങ്കിൽ ഈ സൈറ്റിലെ പാത്ത് ആയിരിക്കണം, ഉദാ. /?category=Flour.',
+  'errors.bannerDates': 'അവസാന തീയതി ആരംഭ തീയതിക്ക് ശേഷമായിരിക്കണം.',
+  'errors.exchangeRate': '{currency} ന്റെ വിനിമയ നിരക്ക് പൂജ്യത്തിൽ കൂടുതലായിരിക്കണം.',
+  'errors.outOfStock': '{name} സ്റ്റോക്കിലില്ല.',
+  'errors.lowStock': '{name} ന്റെ {available} എണ്ണം മാത്രമേ സ്റ്റോക്കിലുള്ളൂ (നിങ്ങൾ {requested} ആവശ്യപ്പെട്ടു).',
+  'errors.insufficientStock': 'ഉൽപ്പന്നം {product} ന് ആവശ്യത്തിന് സ്റ്റോക്കില്ല.',
+  'errors.importEmpty': 'ഫയൽ ശൂന്യമാണ്.',
+  'errors.importInvalidJson': 'ഫയൽ സാധുവായ JSON അല്ല.',
+  'errors.importNotArray': 'ഉൽപ്പന്ന ഒബ്ജക്റ്റുകളുടെ JSON array പ്രതീക്ഷിച്ചു.',
+  'errors.importInvalidValue': '{field} "{value}" സാധുവല്ല.',
+  'errors.importImageUrl': 'ഇമേജ് URL "{url}" http:// അല്ലെങ്കിൽ https:// ൽ തുടങ്ങണം.',
+  'errors.importVariants': 'ഓരോ വേരിയന്റിനും id, SKU, ഓപ്ഷനുകൾ, വില, പൂർണ്ണസംഖ്യ സ്റ്റോക്ക് എന്നിവ വേണം.',
+  'errors.importVariantOptions': 'ഓരോ വേരിയന്റ് ഓപ്ഷനും ഒരു പേരും മൂല്യങ്ങളുടെ പട്ടികയും വേണം.',
+  'errors.importUnknownSku': 'ഈ ഉൽപ്പന്നത്തിൽ SKU "{sku}" ഉള്ള വേരിയന്റില്ല.',
+  'errors.importSkuNeeded': 'ഈ ഉൽപ്പന്നത്തിന് വേരിയന്റുകളുള്ളതിനാൽ, വിലയും സ്റ്റോക്കും ഏത് വേരിയന്റിന്റേതാണെന്ന് പറയാൻ SKU വേണം.',
+  'errors.importRequired': '{field} ആവശ്യമാണ്.',
+  'errors.importPriceRequired': 'പുതിയ ഉൽപ്പന്നങ്ങൾക്ക് വില ആവശ്യമാണ്.',
+  'errors.importDuplicateSku': 'SKU "{sku}" ഒന്നിലധികം തവണയുണ്ട്.',
+  'errors.importDuplicateName': '"{name}" ഒന്നിലധികം തവണയുണ്ട്.',
+};
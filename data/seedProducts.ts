@@ -0,0 +1,157 @@
+import { Product } from '../types';
+
+// Offline catalog used when the local product source is selected. Keep ids
+// stable so carts, wishlists and orders survive a reload. For products with
+// variants, `price` and `stock` are recomputed from the variants on load.
+export const SEED_PRODUCTS: Product[] = [
+  {
+    id: 'seed-whole-wheat-atta',
+    name: 'Whole Wheat Chakki Atta',
+    description: 'Stone-ground whole wheat flour milled fresh from sharbati wheat. Soft, fluffy chapatis every time.',
+    price: 8.99,
+    rating: 4.7,
+    imageUrls: ['https://picsum.photos/seed/whole-wheat-atta/600/600'],
+    category: 'Flour',
+    brand: 'Amrah Mills',
+    stock: 120,
+    variantOptions: [{ name: 'Pack Size', values: ['1 kg', '5 kg', '25 kg'] }],
+    variants: [
+      { id: '1kg', sku: 'AM-ATTA-1', options: { 'Pack Size': '1 kg' }, price: 1.99, stock: 60, weightKg: 1 },
+      { id: '5kg', sku: 'AM-ATTA-5', options: { 'Pack Size': '5 kg' }, price: 8.99, stock: 45, weightKg: 5 },
+      { id: '25kg', sku: 'AM-ATTA-25', options: { 'Pack Size': '25 kg' }, price: 39.5, stock: 15, weightKg: 25, imageUrls: ['https://picsum.photos/seed/atta-sack/600/600'] },
+    ],
+  },
+  {
+    id: 'seed-multigrain-atta',
+    name: 'Multigrain Atta',
+    description: 'A blend of wheat, soya, channa, oats, maize and psyllium husk for high-fibre rotis.',
+    price: 11.49,
+    rating: 4.5,
+    imageUrls: ['https://picsum.photos/seed/multigrain-atta/600/600'],
+    category: 'Flour',
+    brand: 'Amrah Mills',
+    stock: 64,
+  },
+  {
+    id: 'seed-maida',
+    name: 'Refined Wheat Flour (Maida)',
+    description: 'Finely milled, bleach-free maida for parottas, cakes and bakery use.',
+    price: 5.49,
+    rating: 4.3,
+    imageUrls: ['https://picsum.photos/seed/maida/600/600'],
+    category: 'Flour',
+    brand: 'Amrah Mills',
+    stock: 90,
+  },
+  {
+    id: 'seed-besan',
+    name: 'Gram Flour (Besan)',
+    description: 'Pure chana dal flour, finely ground for pakoras, ladoos and batters.',
+    price: 6.25,
+    rating: 4.6,
+    imageUrls: ['https://picsum.photos/seed/besan/600/600'],
+    category: 'Flour',
+    brand: 'Golden Harvest',
+    stock: 48,
+  },
+  {
+    id: 'seed-rice-flour',
+    name: 'Roasted Rice Flour',
+    description: 'Lightly roasted rice powder for puttu, idiyappam and crisp appams.',
+    price: 4.99,
+    rating: 4.8,
+    imageUrls: ['https://picsum.photos/seed/rice-flour/600/600'],
+    category: 'Flour',
+    brand: 'Amrah Mills',
+    stock: 8,
+    variantOptions: [
+      { name: 'Pack Size', values: ['1 kg', '5 kg'] },
+      { name: 'Grind', values: ['Fine', 'Coarse'] },
+    ],
+    variants: [
+      { id: '1kg-fine', sku: 'AM-RICE-1F', options: { 'Pack Size': '1 kg', Grind: 'Fine' }, price: 1.49, stock: 4, weightKg: 1 },
+      { id: '1kg-coarse', sku: 'AM-RICE-1C', options: { 'Pack Size': '1 kg', Grind: 'Coarse' }, price: 1.49, stock: 0, weightKg: 1 },
+      { id: '5kg-fine', sku: 'AM-RICE-5F', options: { 'Pack Size': '5 kg', Grind: 'Fine' }, price: 4.99, stock: 2, weightKg: 5 },
+      { id: '5kg-coarse', sku: 'AM-RICE-5C', options: { 'Pack Size': '5 kg', Grind: 'Coarse' }, price: 4.99, stock: 2, weightKg: 5 },
+    ],
+  },
+  {
+    id: 'seed-ragi-flour',
+    name: 'Ragi (Finger Millet) Flour',
+    description: 'Calcium-rich sprouted ragi flour, ideal for porridge, dosa and baby food.',
+    price: 7.75,
+    rating: 4.4,
+    imageUrls: ['https://picsum.photos/seed/ragi-flour/600/600'],
+    category: 'Millets',
+    brand: 'Golden Harvest',
+    stock: 35,
+  },
+  {
+    id: 'seed-bajra-flour',
+    name: 'Pearl Millet (Bajra) Flour',
+    description: 'Coarse-ground bajra flour for rustic rotis and winter bhakri.',
+    price: 6.99,
+    rating: 4.1,
+    imageUrls: ['https://picsum.photos/seed/bajra-flour/600/600'],
+    category: 'Millets',
+    brand: 'Village Grain Co.',
+    stock: 22,
+  },
+  {
+    id: 'seed-semolina',
+    name: 'Bombay Rava (Semolina)',
+    description: 'Medium-coarse durum semolina for upma, kesari and halwa.',
+    price: 3.99,
+    rating: 4.5,
+    imageUrls: ['https://picsum.photos/seed/semolina/600/600'],
+    category: 'Rava & Semolina',
+    brand: 'Amrah Mills',
+    stock: 75,
+  },
+  {
+    id: 'seed-broken-wheat',
+    name: 'Broken Wheat (Dalia)',
+    description: 'Cracked whole wheat for khichdi, upma and sweet dalia porridge.',
+    price: 4.49,
+    rating: 4.2,
+    imageUrls: ['https://picsum.photos/seed/broken-wheat/600/600'],
+    category: 'Rava & Semolina',
+    brand: 'Village Grain Co.',
+    stock: 5,
+  },
+  {
+    id: 'seed-sharbati-wheat',
+    name: 'Sharbati Wheat Grain',
+    description: 'Cleaned, sorted premium sharbati wheat for home milling. Sold in bulk sacks.',
+    price: 32.0,
+    rating: 4.6,
+    imageUrls: ['https://picsum.photos/seed/sharbati-wheat/600/600'],
+    category: 'Whole Grains',
+    brand: 'Golden Harvest',
+    stock: 30,
+    weightKg: 25,
+  },
+  {
+    id: 'seed-matta-rice',
+    name: 'Kerala Matta Rice',
+    description: 'Parboiled red rice with a nutty taste, hand-picked from Palakkad farms.',
+    price: 24.5,
+    rating: 4.7,
+    imageUrls: ['https://picsum.photos/seed/matta-rice/600/600'],
+    category: 'Whole Grains',
+    brand: 'Village Grain Co.',
+    stock: 40,
+    weightKg: 10,
+  },
+  {
+    id: 'seed-chilli-powder',
+    name: 'Kashmiri Chilli Powder',
+    description: 'Mild, deep-red chilli powder ground in small batches for colour without the burn.',
+    price: 5.99,
+    rating: 4.4,
+    imageUrls: ['https://picsum.photos/seed/chilli-powder/600/600'],
+    category: 'Spices',
+    brand: 'Amrah Mills',
+    stock: 0,
+  },
+];
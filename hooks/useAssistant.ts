@@ -0,0 +1,52 @@
+import { useState, useCallback } from 'react';
+import { AssistantCartAction, AssistantMessage, Locale, Product } from '../types';
+import { askAssistant, generateMessageId } from '../services/assistantService';
+
+/**
+ * The storefront chat. The conversation lives only in memory. Cart lines the
+ * assistant proposes wait on the reply until the shopper confirms or declines them.
+ */
+export const useAssistant = (products: Product[], locale: Locale, onAddToCart: (action: AssistantCartAction) => number) => {
+  const [messages, setMessages] = useState<AssistantMessage[]>([]);
+  const [isThinking, setIsThinking] = useState(false);
+
+  const send = useCallback(async (question: string) => {
+    const text = question.trim();
+    if (!text || isThinking) return;
+    setMessages(prev => [...prev, { id: generateMessageId(), role: 'user', text }]);
+    setIsThinking(true);
+    try {
+      const reply = await askAssistant(text, messages, products, locale);
+      setMessages(prev => [...prev, {
+        id: generateMessageId(),
+        role: 'assistant',
+        text: reply.text,
+        productIds: reply.productIds,
+        cartActions: reply.cartActions,
+        cartActionStatus: reply.cartActions.length > 0 ? 'proposed' : undefined,
+      }]);
+    } finally {
+      setIsThinking(false);
+    }
+  }, [messages, products, locale, isThinking]);
+
+  // A product the shopper picked from a reply is offered the same way, so it too waits for a confirm.
+  const proposeCartAction = useCallback((action: AssistantCartAction) => {
+    setMessages(prev => [...prev, { id: generateMessageId(), role: 'assistant', text: '', cartActions: [action], cartActionStatus: 'proposed' }]);
+  }, []);
+
+  // Each proposal is answered once; a second click on an old message does nothing.
+  // Stock may cap a line, so the reply keeps what actually went in.
+  const answerCartActions = useCallback((messageId: string, confirm: boolean) => {
+    const message = messages.find(m => m.id === messageId);
+    if (message?.cartActionStatus !== 'proposed') return;
+    const addedActions = confirm
+      ? (message.cartActions ?? []).map(action => ({ ...action, quantity: onAddToCart(action) })).filter(action => action.quantity > 0)
+      : undefined;
+    setMessages(prev => prev.map(m => m.id === messageId ? { ...m, cartActionStatus: confirm ? 'added' : 'declined', addedActions } : m));
+  }, [messages, onAddToCart]);
+
+  const reset = useCallback(() => setMessages([]), []);
+
+  return { messages, isThinking, send, proposeCartAction, answerCartActions, reset };
+};
@@ -0,0 +1,13 @@
+import { useState, useCallback } from 'react';
+import { AuditEntry } from '../types';
+import { getAuditLog, NewAuditEntry, recordAudit } from '../services/auditService';
+
+export const useAuditLog = () => {
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>(() => getAuditLog());
+
+  const record = useCallback((entries: NewAuditEntry[]) => {
+    if (entries.length > 0) setAuditLog(recordAudit(entries));
+  }, []);
+
+  return { auditLog, record };
+};
@@ -0,0 +1,23 @@
+import { useState, useCallback } from 'react';
+import { Banner, BannerStats } from '../types';
+import { deleteBanner, getBannerStats, getBanners, recordClick, recordImpression, saveBanner } from '../services/bannerService';
+
+export const useBanners = () => {
+  const [banners, setBanners] = useState<Banner[]>(() => getBanners());
+  const [stats, setStats] = useState<Record<string, BannerStats>>(() => getBannerStats());
+
+  // Creates or replaces the banner; throws with a user-facing message if it's invalid.
+  const save = useCallback((banner: Banner) => {
+    setBanners(saveBanner(banner));
+  }, []);
+
+  const remove = useCallback((bannerId: string) => {
+    setBanners(deleteBanner(bannerId));
+  }, []);
+
+  const trackImpression = useCallback((bannerId: string) => setStats(recordImpression(bannerId)), []);
+
+  const trackClick = useCallback((bannerId: string) => setStats(recordClick(bannerId)), []);
+
+  return { banners, stats, save, remove, trackImpression, trackClick };
+};
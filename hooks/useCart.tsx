@@ -0,0 +1,190 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { CartItem, CartLine, CartNotice, Product, StoredCart } from '../types';
+import {
+  EMPTY_CART, getCartKey, getLineName, getLinePrice, getPriceChangeNotices, isSameCartLine,
+  loadCart, mergeCarts, reconcileCart, resolveCartLines, saveCart,
+} from '../services/cartService';
+import { getSessionUserId } from '../services/userService';
+import { getLineStock } from '../services/variantService';
+
+interface CartContextValue {
+  /** Cart lines priced from the current catalog. Empty until the catalog has loaded. */
+  cartItems: CartItem[];
+  /** Adds up to the stock this cart hasn't already reserved; returns how many units went in. */
+  addToCart: (product: Product, quantity?: number, variantId?: string) => number;
+  removeFromCart: (productId: string, variantId?: string) => void;
+  updateQuantity: (productId: string, quantity: number, variantId?: string) => void;
+  clearCart: () => void;
+  itemCount: number;
+  cartTotal: number;
+  savedItems: CartItem[];
+  saveForLater: (productId: string, variantId?: string) => void;
+  moveToCart: (productId: string, variantId?: string) => void;
+  removeSaved: (productId: string, variantId?: string) => void;
+  notices: CartNotice[];
+  dismissNotice: (noticeId: string) => void;
+  /** The cart prices itself against this catalog; App keeps it current. */
+  syncCatalog: (products: Product[]) => void;
+  /** Switches to a customer's cart (merging in the guest cart) or back to the guest cart. */
+  setCartOwner: (customerId: string | null) => void;
+}
+
+const CartContext = createContext<CartContextValue | undefined>(undefined);
+
+const withoutLine = (lines: CartLine[], productId: string, variantId?: string) =>
+  lines.filter(line => !isSameCartLine(line, productId, variantId));
+
+export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [state, setState] = useState<{ ownerId: string | null; cart: StoredCart }>(() => {
+    const ownerId = getSessionUserId();
+    return { ownerId, cart: loadCart(ownerId) };
+  });
+  const [catalog, setCatalog] = useState<Product[]>([]);
+  const [eventNotices, setEventNotices] = useState<CartNotice[]>([]);
+  const { ownerId, cart } = state;
+
+  // Signing in folds the guest cart into the customer's, so the guest copy is emptied.
+  const previousOwner = useRef(ownerId);
+  useEffect(() => {
+    if (previousOwner.current === null && ownerId !== null) saveCart(null, EMPTY_CART);
+    previousOwner.current = ownerId;
+    saveCart(ownerId, cart);
+  }, [ownerId, cart]);
+
+  // Another tab changed this cart; pick up its copy.
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === getCartKey(ownerId)) setState(prev => ({ ...prev, cart: loadCart(prev.ownerId) }));
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [ownerId]);
+
+  // Whenever the catalog or cart changes, drop or trim lines the catalog can no longer fill.
+  useEffect(() => {
+    if (catalog.length === 0) return;
+    const result = reconcileCart(cart, catalog);
+    if (result.cart === cart) return;
+    setState(prev => prev.cart === cart ? { ...prev, cart: result.cart } : prev);
+    setEventNotices(prev => [...prev.filter(n => !result.notices.some(r => r.id === n.id)), ...result.notices]);
+  }, [catalog, cart]);
+
+  // The cart with every update applied, including ones React hasn't rendered yet,
+  // so back-to-back adds in one event each see the units the others reserved.
+  const latestCart = useRef(cart);
+  useEffect(() => { latestCart.current = cart; }, [cart]);
+
+  const updateCart = useCallback((update: (cart: StoredCart) => StoredCart) => {
+    latestCart.current = update(latestCart.current);
+    setState(prev => ({ ...prev, cart: update(prev.cart) }));
+  }, []);
+
+  const cartItems = useMemo(() => resolveCartLines(cart.lines, catalog), [cart.lines, catalog]);
+
+  // Units already in the cart are reserved, so only the rest of the stock can be
+  // added; a shortfall leaves a notice saying why. Adding a line again also
+  // acknowledges its current price.
+  const addToCart = useCallback((product: Product, quantity = 1, variantId?: string) => {
+    const addable = (lines: CartLine[]) => {
+      const reserved = lines.find(line => isSameCartLine(line, product.id, variantId))?.quantity ?? 0;
+      return Math.min(quantity, Math.max(0, getLineStock(product, variantId) - reserved));
+    };
+    const added = addable(latestCart.current.lines);
+    if (added < quantity) {
+      const notice: CartNotice = { id: `stock_limit-${product.id}|${variantId ?? ''}`, type: 'stock_limit', productId: product.id, variantId, productName: getLineName(product, variantId), quantity: Math.max(0, added) };
+      setEventNotices(prev => [...prev.filter(n => n.id !== notice.id), notice]);
+    }
+    if (added <= 0) return 0;
+    updateCart(prev => {
+      const units = addable(prev.lines);
+      if (units <= 0) return prev;
+      const existing = prev.lines.find(line => isSameCartLine(line, product.id, variantId));
+      const line: CartLine = { productId: product.id, variantId, quantity: (existing?.quantity ?? 0) + units, priceSeen: getLinePrice(product, variantId) };
+      return {
+        lines: existing ? prev.lines.map(l => l === existing ? line : l) : [...prev.lines, line],
+        savedForLater: withoutLine(prev.savedForLater, product.id, variantId),
+      };
+    });
+    return added;
+  }, [updateCart]);
+
+  const removeFromCart = useCallback((productId: string, variantId?: string) => {
+    updateCart(prev => ({ ...prev, lines: withoutLine(prev.lines, productId, variantId) }));
+  }, [updateCart]);
+
+  const updateQuantity = useCallback((productId: string, quantity: number, variantId?: string) => {
+    const product = catalog.find(p => p.id === productId);
+    const stock = product ? getLineStock(product, variantId) : quantity;
+    updateCart(prev => ({
+      ...prev,
+      lines: quantity <= 0
+        ? withoutLine(prev.lines, productId, variantId)
+        : prev.lines.map(line => isSameCartLine(line, productId, variantId) ? { ...line, quantity: Math.min(quantity, stock) } : line),
+    }));
+  }, [catalog, updateCart]);
+
+  // Saved-for-later items stay put; only the lines being bought are cleared.
+  const clearCart = useCallback(() => updateCart(prev => ({ ...prev, lines: [] })), [updateCart]);
+
+  const saveForLater = useCallback((productId: string, variantId?: string) => {
+    updateCart(prev => {
+      const line = prev.lines.find(l => isSameCartLine(l, productId, variantId));
+      if (!line) return prev;
+      return { lines: withoutLine(prev.lines, productId, variantId), savedForLater: [...withoutLine(prev.savedForLater, productId, variantId), line] };
+    });
+  }, [updateCart]);
+
+  const moveToCart = useCallback((productId: string, variantId?: string) => {
+    const product = catalog.find(p => p.id === productId);
+    if (!product || getLineStock(product, variantId) <= 0) return;
+    const saved = cart.savedForLater.find(l => isSameCartLine(l, productId, variantId));
+    addToCart(product, saved?.quantity ?? 1, variantId);
+  }, [catalog, cart.savedForLater, addToCart]);
+
+  const removeSaved = useCallback((productId: string, variantId?: string) => {
+    updateCart(prev => ({ ...prev, savedForLater: withoutLine(prev.savedForLater, productId, variantId) }));
+  }, [updateCart]);
+
+  // Dismissing a price change accepts the new price for that line.
+  const dismissNotice = useCallback((noticeId: string) => {
+    const priceChange = getPriceChangeNotices(cart.lines, catalog).find(n => n.id === noticeId);
+    if (priceChange) {
+      updateCart(prev => ({
+        ...prev,
+        lines: prev.lines.map(line => isSameCartLine(line, priceChange.productId, priceChange.variantId) ? { ...line, priceSeen: priceChange.newPrice! } : line),
+      }));
+    }
+    setEventNotices(prev => prev.filter(n => n.id !== noticeId));
+  }, [cart.lines, catalog, updateCart]);
+
+  const setCartOwner = useCallback((customerId: string | null) => {
+    setState(prev => {
+      if (prev.ownerId === customerId) return prev;
+      const customerCart = loadCart(customerId);
+      return { ownerId: customerId, cart: customerId && prev.ownerId === null ? mergeCarts(prev.cart, customerCart) : customerCart };
+    });
+    setEventNotices([]);
+  }, []);
+
+  const savedItems = useMemo(() => resolveCartLines(cart.savedForLater, catalog), [cart.savedForLater, catalog]);
+  const notices = useMemo(() => [...getPriceChangeNotices(cart.lines, catalog), ...eventNotices], [cart.lines, catalog, eventNotices]);
+  const itemCount = useMemo(() => cart.lines.reduce((sum, line) => sum + line.quantity, 0), [cart.lines]);
+  const cartTotal = useMemo(() => cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0), [cartItems]);
+
+  const value = useMemo(() => ({
+    cartItems, addToCart, removeFromCart, updateQuantity, clearCart, itemCount, cartTotal,
+    savedItems, saveForLater, moveToCart, removeSaved, notices, dismissNotice,
+    syncCatalog: setCatalog, setCartOwner,
+  }), [cartItems, addToCart, removeFromCart, updateQuantity, clearCart, itemCount, cartTotal,
+    savedItems, saveForLater, moveToCart, removeSaved, notices, dismissNotice, setCartOwner]);
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
+};
+
+export const useCart = (): CartContextValue => {
+  const context = useContext(CartContext);
+  if (!context) {
+    throw new Error("useCart must be used within a CartProvider");
+  }
+  return context;
+};
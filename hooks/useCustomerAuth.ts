@@ -0,0 +1,38 @@
+import { useState, useCallback } from 'react';
+import { Credentials, Registration, User } from '../types';
+import { authenticateCustomer, getSessionUserId, getUserById, registerCustomer, saveSessionUserId } from '../services/userService';
+
+const restoreSession = (): User | null => {
+  const userId = getSessionUserId();
+  const user = userId ? getUserById(userId) : undefined;
+  return user && user.status === 'active' ? user : null;
+};
+
+export const useCustomerAuth = () => {
+  const [customer, setCustomer] = useState<User | null>(restoreSession);
+
+  const signIn = useCallback((user: User) => {
+    saveSessionUserId(user.id);
+    setCustomer(user);
+    return user;
+  }, []);
+
+  const login = useCallback(async (credentials: Credentials) => signIn(await authenticateCustomer(credentials)), [signIn]);
+
+  const register = useCallback(async (registration: Registration) => signIn(await registerCustomer(registration)), [signIn]);
+
+  const logout = useCallback(() => {
+    saveSessionUserId(null);
+    setCustomer(null);
+  }, []);
+
+  // Re-reads the stored account so a block issued after sign-in still takes effect.
+  const refreshCustomer = useCallback((): User | null => {
+    const latest = restoreSession();
+    setCustomer(latest);
+    if (!latest) saveSessionUserId(null);
+    return latest;
+  }, []);
+
+  return { customer, isSignedIn: customer !== null, login, register, logout, refreshCustomer };
+};
@@ -0,0 +1,96 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import { CurrencyCode, CurrencySettings, Locale } from '../types';
+import { MessageKey, MessageParams, getInitialLocale, getLocaleTag, saveLocale, translate } from '../services/i18nService';
+import { formatMoney, getCurrencySettings, getCurrencySymbol, getDisplayCurrencies, getDisplayRate, saveCurrencySettings } from '../services/currencyService';
+import { loadFromStorage, saveToStorage } from '../services/storage';
+
+const DISPLAY_CURRENCY_KEY = 'displayCurrency';
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (iso: string) => string;
+  formatDateTime: (iso: string) => string;
+  /** Shopper-facing: converts a store-currency amount into the shopper's display currency. */
+  formatPrice: (amount: number, options?: Intl.NumberFormatOptions) => string;
+  /** Amounts as actually charged, in the store currency; used by the admin area and at checkout. */
+  formatStorePrice: (amount: number, options?: Intl.NumberFormatOptions) => string;
+  /** Amounts in a given currency, e.g. a placed order in the currency it was charged in. */
+  formatCurrency: (amount: number, currency: CurrencyCode, options?: Intl.NumberFormatOptions) => string;
+  storeCurrencySymbol: string;
+  currencySettings: CurrencySettings;
+  /** Throws with a user-facing message if a rate is invalid. */
+  updateCurrencySettings: (settings: CurrencySettings) => void;
+  displayCurrency: CurrencyCode;
+  displayCurrencies: CurrencyCode[];
+  setDisplayCurrency: (currency: CurrencyCode) => void;
+  /** Units of the display currency per unit of the store currency. */
+  displayRate: number;
+}
+
+const I18nContext = createContext<I18nContextValue | undefined>(undefined);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(getInitialLocale);
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(getCurrencySettings);
+  const [preferredCurrency, setPreferredCurrency] = useState<CurrencyCode | null>(() => loadFromStorage<CurrencyCode | null>(DISPLAY_CURRENCY_KEY, null));
+
+  const tag = getLocaleTag(locale);
+  const displayCurrencies = useMemo(() => getDisplayCurrencies(currencySettings), [currencySettings]);
+  // A currency the store has stopped offering quietly falls back to the store currency.
+  const displayCurrency = preferredCurrency && displayCurrencies.includes(preferredCurrency) ? preferredCurrency : currencySettings.storeCurrency;
+  const displayRate = getDisplayRate(currencySettings, displayCurrency);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    saveLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  const setDisplayCurrency = useCallback((currency: CurrencyCode) => {
+    saveToStorage(DISPLAY_CURRENCY_KEY, currency);
+    setPreferredCurrency(currency);
+  }, []);
+
+  const updateCurrencySettings = useCallback((settings: CurrencySettings) => {
+    setCurrencySettings(saveCurrencySettings(settings));
+  }, []);
+
+  const value = useMemo<I18nContextValue>(() => {
+    const dateFormat = new Intl.DateTimeFormat(tag, { dateStyle: 'medium' });
+    const dateTimeFormat = new Intl.DateTimeFormat(tag, { dateStyle: 'medium', timeStyle: 'short' });
+    return {
+      locale,
+      setLocale,
+      t: (key, params) => translate(locale, key, params),
+      formatNumber: (n, options) => new Intl.NumberFormat(tag, options).format(n),
+      formatDate: iso => dateFormat.format(new Date(iso)),
+      formatDateTime: iso => dateTimeFormat.format(new Date(iso)),
+      formatPrice: (amount, options) => formatMoney(amount * displayRate, displayCurrency, tag, options),
+      formatStorePrice: (amount, options) => formatMoney(amount, currencySettings.storeCurrency, tag, options),
+      formatCurrency: (amount, currency, options) => formatMoney(amount, currency, tag, options),
+      storeCurrencySymbol: getCurrencySymbol(currencySettings.storeCurrency, tag),
+      currencySettings,
+      updateCurrencySettings,
+      displayCurrency,
+      displayCurrencies,
+      setDisplayCurrency,
+      displayRate,
+    };
+  }, [locale, tag, setLocale, displayRate, displayCurrency, displayCurrencies, currencySettings, updateCurrencySettings, setDisplayCurrency]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error("useI18n must be used within an I18nProvider");
+  }
+  return context;
+};
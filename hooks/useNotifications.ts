@@ -0,0 +1,49 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { NotificationPreferences, UserRole } from '../types';
+import {
+  NOTIFICATIONS_KEY, NotificationEvent, emitNotification, getNotificationPreferences, getNotifications,
+  getNotificationsForAdmin, getReadState, saveNotificationPreferences, updateReadState,
+} from '../services/notificationService';
+
+/** Events can be emitted by anyone; the list and read state belong to the signed-in admin, if any. */
+export const useNotifications = (adminId: string | null, role: UserRole | null) => {
+  const [stored, setStored] = useState(() => getNotifications());
+  const [readState, setReadState] = useState(() => adminId ? getReadState(adminId) : {});
+  const [preferences, setPreferences] = useState<NotificationPreferences>(() => getNotificationPreferences());
+
+  useEffect(() => {
+    setReadState(adminId ? getReadState(adminId) : {});
+  }, [adminId]);
+
+  // Orders placed in another tab show up without a reload.
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === NOTIFICATIONS_KEY) setStored(getNotifications());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const notifications = useMemo(
+    () => adminId && role ? getNotificationsForAdmin(stored, readState, role, preferences) : [],
+    [adminId, role, stored, readState, preferences]
+  );
+  const unreadCount = useMemo(() => notifications.filter(n => !n.isRead).length, [notifications]);
+
+  const emit = useCallback((event: NotificationEvent) => setStored(emitNotification(event)), []);
+
+  const markRead = useCallback((ids: string[]) => {
+    if (adminId) setReadState(updateReadState(adminId, ids, { readAt: new Date().toISOString() }));
+  }, [adminId]);
+
+  const dismiss = useCallback((id: string) => {
+    if (adminId) setReadState(updateReadState(adminId, [id], { dismissedAt: new Date().toISOString() }));
+  }, [adminId]);
+
+  const updatePreferences = useCallback((next: NotificationPreferences) => {
+    saveNotificationPreferences(next);
+    setPreferences(next);
+  }, []);
+
+  return { notifications, unreadCount, emit, markRead, dismiss, preferences, updatePreferences };
+};
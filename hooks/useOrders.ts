@@ -0,0 +1,33 @@
+import { useState, useCallback } from 'react';
+import { CartItem, CheckoutDetails, Order, OrderStatus, PriceBreakdown } from '../types';
+import { buildOrder, cancelCustomerOrder, getOrders, requestReturn as saveReturnRequest, resolveReturn as saveReturnResolution, saveOrder, updateOrderStatus } from '../services/orderService';
+
+export const useOrders = () => {
+  const [orders, setOrders] = useState<Order[]>(() => getOrders());
+
+  const placeOrder = useCallback((cartItems: CartItem[], details: CheckoutDetails, breakdown?: PriceBreakdown): Order => {
+    const order = buildOrder(cartItems, details, breakdown);
+    setOrders(saveOrder(order));
+    return order;
+  }, []);
+
+  // Throws if the transition isn't allowed, leaving stored orders untouched.
+  const changeOrderStatus = useCallback((orderId: string, status: OrderStatus, changedBy?: string) => {
+    setOrders(updateOrderStatus(orderId, status, changedBy));
+  }, []);
+
+  // The customer-facing actions below also throw, with a message meant for the customer.
+  const cancelOrder = useCallback((orderId: string, customerId: string) => {
+    setOrders(cancelCustomerOrder(orderId, customerId));
+  }, []);
+
+  const requestReturn = useCallback((orderId: string, customerId: string, reason: string) => {
+    setOrders(saveReturnRequest(orderId, customerId, reason));
+  }, []);
+
+  const resolveReturn = useCallback((orderId: string, approve: boolean, resolvedBy: string) => {
+    setOrders(saveReturnResolution(orderId, approve, resolvedBy));
+  }, []);
+
+  return { orders, placeOrder, changeOrderStatus, cancelOrder, requestReturn, resolveReturn };
+};
@@ -0,0 +1,33 @@
+import { useState, useCallback } from 'react';
+import { Coupon, PricingSettings } from '../types';
+import { getCoupons, getPricingSettings, normalizeCouponCode, redeemCoupon, saveCoupons, savePricingSettings } from '../services/pricingService';
+
+export const usePricing = () => {
+  const [settings, setSettings] = useState<PricingSettings>(() => getPricingSettings());
+  const [coupons, setCoupons] = useState<Coupon[]>(() => getCoupons());
+
+  const updateSettings = useCallback((next: PricingSettings) => {
+    savePricingSettings(next);
+    setSettings(next);
+  }, []);
+
+  // Creates the coupon, or replaces the one with the same code; passing
+  // `previousCode` replaces that coupon instead, so an edit can rename it.
+  const saveCoupon = useCallback((coupon: Coupon, previousCode?: string) => {
+    const normalized = { ...coupon, code: normalizeCouponCode(coupon.code) };
+    const replaced = new Set([normalized.code, normalizeCouponCode(previousCode ?? normalized.code)]);
+    const next = [...getCoupons().filter(c => !replaced.has(c.code)), normalized];
+    saveCoupons(next);
+    setCoupons(next);
+  }, []);
+
+  const deleteCoupon = useCallback((code: string) => {
+    const next = getCoupons().filter(c => c.code !== code);
+    saveCoupons(next);
+    setCoupons(next);
+  }, []);
+
+  const redeem = useCallback((code: string) => setCoupons(redeemCoupon(code)), []);
+
+  return { settings, updateSettings, coupons, saveCoupon, deleteCoupon, redeem };
+};
@@ -0,0 +1,39 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Locale, Product } from '../types';
+import { applyProductCopy, canGenerateProductCopy, findMissingCopy, generateProductCopy, getCachedProductCopy, sourceOf } from '../services/productCopyService';
+
+/**
+ * The catalog with names and descriptions in the shopper's language. Cached
+ * copy shows straight away; anything missing is requested in the background
+ * and the English text is shown until it arrives.
+ */
+export const useProductCopy = (products: Product[], locale: Locale) => {
+  const [copy, setCopy] = useState(() => getCachedProductCopy(locale));
+  const [requestsInFlight, setRequestsInFlight] = useState(0);
+  // Each product text is requested once per language, so a failed or partial
+  // answer isn't retried every time the catalog is rebuilt; edited text is.
+  const attempted = useRef(new Set<string>());
+  const currentLocale = useRef(locale);
+  currentLocale.current = locale;
+
+  useEffect(() => {
+    setCopy(getCachedProductCopy(locale));
+  }, [locale]);
+
+  useEffect(() => {
+    if (locale === 'en' || !canGenerateProductCopy()) return;
+    const attemptKey = (product: Product) => `${locale}|${product.id}|${sourceOf(product)}`;
+    const pending = findMissingCopy(products, copy).filter(p => !attempted.current.has(attemptKey(p)));
+    if (pending.length === 0) return;
+    pending.forEach(p => attempted.current.add(attemptKey(p)));
+    setRequestsInFlight(n => n + 1);
+    generateProductCopy(pending, locale)
+      .then(next => { if (currentLocale.current === locale) setCopy(prev => ({ ...prev, ...next })); })
+      .catch(err => console.error(`Failed to generate ${locale} product copy`, err))
+      .finally(() => setRequestsInFlight(n => n - 1));
+  }, [products, copy, locale]);
+
+  const localizedProducts = useMemo(() => locale === 'en' ? products : applyProductCopy(products, copy), [products, copy, locale]);
+
+  return { localizedProducts, isTranslating: requestsInFlight > 0 };
+};
@@ -0,0 +1,20 @@
+import { useState, useCallback } from 'react';
+import { Order, ProductReview, ReviewInput, ReviewStatus } from '../types';
+import { getReviews, setReviewStatus, submitReview } from '../services/reviewService';
+
+export const useReviews = () => {
+  const [reviews, setReviews] = useState<ProductReview[]>(() => getReviews());
+
+  // Throws with a user-facing message when the customer isn't eligible or the review is invalid.
+  const submit = useCallback((input: ReviewInput, customer: { id: string; name: string }, orders: Order[]) => {
+    const review = submitReview(input, customer, orders);
+    setReviews(getReviews());
+    return review;
+  }, []);
+
+  const moderate = useCallback((reviewId: string, status: ReviewStatus, moderatedBy: string) => {
+    setReviews(setReviewStatus(reviewId, status, moderatedBy));
+  }, []);
+
+  return { reviews, submit, moderate };
+};
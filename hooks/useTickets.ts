@@ -0,0 +1,24 @@
+import { useState, useCallback } from 'react';
+import { ContactSubmission, SupportTicket, TicketStatus } from '../types';
+import { getTickets, replyToTicket, setTicketStatus, submitContactForm } from '../services/ticketService';
+
+export const useTickets = () => {
+  const [tickets, setTickets] = useState<SupportTicket[]>(() => getTickets());
+
+  // Throws with a user-facing message when validation or the rate limit fails.
+  const submit = useCallback((submission: ContactSubmission, customerId?: string) => {
+    const ticket = submitContactForm(submission, customerId);
+    setTickets(getTickets());
+    return ticket;
+  }, []);
+
+  const reply = useCallback((ticketId: string, author: string, message: string) => {
+    setTickets(replyToTicket(ticketId, author, message));
+  }, []);
+
+  const changeStatus = useCallback((ticketId: string, status: TicketStatus) => {
+    setTickets(setTicketStatus(ticketId, status));
+  }, []);
+
+  return { tickets, submit, reply, changeStatus };
+};
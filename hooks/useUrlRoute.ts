@@ -0,0 +1,30 @@
+import { useEffect, useRef } from 'react';
+import { AppRoute, buildRouteSearch, parseRoute } from '../services/routeService';
+
+/**
+ * Mirrors the app route into the address bar. Changing view or product pushes a
+ * history entry so back/forward work; filter tweaks replace the current entry.
+ */
+export const useUrlRoute = (route: AppRoute, onRouteChange: (route: AppRoute) => void) => {
+  const onRouteChangeRef = useRef(onRouteChange);
+  onRouteChangeRef.current = onRouteChange;
+
+  const search = buildRouteSearch(route);
+
+  useEffect(() => {
+    if (search === window.location.search) return;
+    const current = parseRoute(window.location.search);
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (current.view !== route.view || current.productId !== route.productId) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+  }, [search]); // `search` already encodes everything in `route`.
+
+  useEffect(() => {
+    const handlePopState = () => onRouteChangeRef.current(parseRoute(window.location.search));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+};
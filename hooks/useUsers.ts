@@ -0,0 +1,19 @@
+import { useState, useCallback } from 'react';
+import { User, UserStatus } from '../types';
+import { getUsers, incrementOrderCount, setUserStatus } from '../services/userService';
+
+export const useUsers = () => {
+  const [users, setUsers] = useState<User[]>(() => getUsers());
+
+  const reloadUsers = useCallback(() => setUsers(getUsers()), []);
+
+  const changeUserStatus = useCallback((userId: string, status: UserStatus) => {
+    setUsers(setUserStatus(userId, status));
+  }, []);
+
+  const recordOrder = useCallback((userId: string) => {
+    setUsers(incrementOrderCount(userId));
+  }, []);
+
+  return { users, reloadUsers, changeUserStatus, recordOrder };
+};
@@ -0,0 +1,31 @@
+import { useState, useEffect, useCallback } from 'react';
+import { loadFromStorage, saveToStorage } from '../services/storage';
+
+// Guests share the browser-level list; signed-in customers get their own.
+const wishlistKey = (ownerId: string | null) => ownerId ? `wishlist:${ownerId}` : 'wishlist';
+
+export const useWishlist = (ownerId: string | null = null) => {
+  const key = wishlistKey(ownerId);
+  const [wishlist, setWishlist] = useState<Set<string>>(() => new Set(loadFromStorage<string[]>(key, [])));
+
+  useEffect(() => {
+    setWishlist(new Set(loadFromStorage<string[]>(key, [])));
+  }, [key]);
+
+  const toggleWishlist = useCallback((productId: string) => {
+    setWishlist(prev => {
+      const next = new Set(prev);
+      if (next.has(productId)) {
+        next.delete(productId);
+      } else {
+        next.add(productId);
+      }
+      saveToStorage(key, Array.from(next));
+      return next;
+    });
+  }, [key]);
+
+  const isWishlisted = useCallback((productId: string) => wishlist.has(productId), [wishlist]);
+
+  return { wishlist, toggleWishlist, isWishlisted };
+};
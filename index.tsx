@@ -2,6 +2,7 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { CartProvider } from './hooks/useCart';
+import { I18nProvider } from './hooks/useI18n';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -11,8 +12,10 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <CartProvider>
-      <App />
-    </CartProvider>
+    <I18nProvider>
+      <CartProvider>
+        <App />
+      </CartProvider>
+    </I18nProvider>
   </React.StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,158 @@
+import { Order, OrderStatus, Product, SalesAnalytics, User } from '../types';
+import { CsvCell, toCsv } from './csvService';
+
+/** Inclusive calendar range as local `YYYY-MM-DD` dates. */
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface AnalyticsComparison {
+  current: SalesAnalytics;
+  previous: SalesAnalytics;
+  /** Percentage change per metric; null when the previous period was zero. */
+  change: Record<'totalRevenue' | 'totalOrders' | 'totalCustomers' | 'newCustomers', number | null>;
+}
+
+// Cancelled and refunded orders never count as sales.
+const NON_REVENUE_STATUSES: OrderStatus[] = ['cancelled', 'refunded'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDay = (day: string) => {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const formatDay = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const rangeBounds = ({ from, to }: DateRange): [number, number] => [parseDay(from).getTime(), parseDay(to).getTime() + DAY_MS - 1];
+
+const inRange = (iso: string, [start, end]: [number, number]) => {
+  const time = new Date(iso).getTime();
+  return time >= start && time <= end;
+};
+
+export const listDays = (range: DateRange): string[] => {
+  const days: string[] = [];
+  for (let d = parseDay(range.from); d <= parseDay(range.to); d = new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1)) {
+    days.push(formatDay(d));
+  }
+  return days;
+};
+
+export const lastNDays = (days: number, today = new Date()): DateRange => ({
+  from: formatDay(new Date(today.getFullYear(), today.getMonth(), today.getDate() - (days - 1))),
+  to: formatDay(today),
+});
+
+/** The range of equal length that ends the day before `range` starts. */
+export const previousPeriod = (range: DateRange): DateRange => {
+  const length = listDays(range).length;
+  const start = parseDay(range.from);
+  return {
+    from: formatDay(new Date(start.getFullYear(), start.getMonth(), start.getDate() - length)),
+    to: formatDay(new Date(start.getFullYear(), start.getMonth(), start.getDate() - 1)),
+  };
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const sumBy = <T,>(items: T[], keyOf: (item: T) => string, amountOf: (item: T) => number) => {
+  const totals = new Map<string, number>();
+  items.forEach(item => totals.set(keyOf(item), (totals.get(keyOf(item)) ?? 0) + amountOf(item)));
+  return Array.from(totals.entries()).sort((a, b) => b[1] - a[1]);
+};
+
+export const getRevenueOrders = (orders: Order[], range: DateRange): Order[] => {
+  const bounds = rangeBounds(range);
+  return orders.filter(o => !NON_REVENUE_STATUSES.includes(o.status) && inRange(o.date, bounds));
+};
+
+export const computeSalesAnalytics = (orders: Order[], users: User[], products: Product[], range: DateRange): SalesAnalytics => {
+  const bounds = rangeBounds(range);
+  const revenueOrders = getRevenueOrders(orders, range);
+  const categoryById = new Map(products.map(p => [p.id, p.category]));
+  const lines = revenueOrders.flatMap(o => o.itemsList);
+
+  const revenueByDay = new Map<string, number>();
+  revenueOrders.forEach(o => {
+    const day = formatDay(new Date(o.date));
+    revenueByDay.set(day, (revenueByDay.get(day) ?? 0) + o.total);
+  });
+
+  return {
+    totalRevenue: roundCurrency(revenueOrders.reduce((sum, o) => sum + o.total, 0)),
+    totalOrders: revenueOrders.length,
+    totalCustomers: users.filter(u => new Date(u.joinDate).getTime() <= bounds[1]).length,
+    newCustomers: users.filter(u => inRange(u.joinDate, bounds)).length,
+    salesByDay: listDays(range).map(day => roundCurrency(revenueByDay.get(day) ?? 0)),
+    topProducts: sumBy(lines, l => l.productName, l => l.price * l.quantity)
+      .slice(0, 10)
+      .map(([name, sales]) => ({ name, sales: roundCurrency(sales) })),
+    salesByCategory: sumBy(lines, l => categoryById.get(l.productId) ?? 'Uncategorized', l => l.price * l.quantity)
+      .map(([category, sales]) => ({ category, sales: roundCurrency(sales) })),
+  };
+};
+
+const percentChange = (current: number, previous: number) =>
+  previous === 0 ? null : Math.round(((current - previous) / previous) * 1000) / 10;
+
+export const compareWithPreviousPeriod = (orders: Order[], users: User[], products: Product[], range: DateRange): AnalyticsComparison => {
+  const current = computeSalesAnalytics(orders, users, products, range);
+  const previous = computeSalesAnalytics(orders, users, products, previousPeriod(range));
+  return {
+    current,
+    previous,
+    change: {
+      totalRevenue: percentChange(current.totalRevenue, previous.totalRevenue),
+      totalOrders: percentChange(current.totalOrders, previous.totalOrders),
+      totalCustomers: percentChange(current.totalCustomers, previous.totalCustomers),
+      newCustomers: percentChange(current.newCustomers, previous.newCustomers),
+    },
+  };
+};
+
+// Revenue is what customers paid; product and category figures are item sales only.
+const SUMMARY_LABELS: Record<'totalRevenue' | 'totalOrders' | 'totalCustomers' | 'newCustomers', string> = {
+  totalRevenue: 'Revenue (incl. tax and shipping)',
+  totalOrders: 'Orders',
+  totalCustomers: 'Customers',
+  newCustomers: 'New customers',
+};
+
+export type AnalyticsReport = 'summary' | 'daily' | 'products' | 'categories' | 'orders';
+
+/** Builds the CSV for one report. The orders report lists every order line for reconciliation. */
+export const buildAnalyticsCsv = (report: AnalyticsReport, comparison: AnalyticsComparison, orders: Order[], range: DateRange): string => {
+  const { current, previous, change } = comparison;
+  let rows: CsvCell[][];
+  switch (report) {
+    case 'summary':
+      rows = [
+        ['Metric', `${range.from} to ${range.to}`, 'Previous period', 'Change %'],
+        ...(['totalRevenue', 'totalOrders', 'totalCustomers', 'newCustomers'] as const).map(key => [SUMMARY_LABELS[key], current[key], previous[key], change[key]]),
+      ];
+      break;
+    case 'daily':
+      rows = [['Date', 'Revenue (incl. tax and shipping)'], ...listDays(range).map((day, i) => [day, current.salesByDay[i]])];
+      break;
+    case 'products':
+      rows = [['Product', 'Item sales (before discounts, tax and shipping)'], ...current.topProducts.map(p => [p.name, p.sales])];
+      break;
+    case 'categories':
+      rows = [['Category', 'Item sales (before discounts, tax and shipping)'], ...current.salesByCategory.map(c => [c.category, c.sales])];
+      break;
+    case 'orders': {
+      const bounds = rangeBounds(range);
+      rows = [
+        ['Order ID', 'Date', 'Customer', 'Status', 'Product ID', 'Product', 'Quantity', 'Unit Price', 'Line Total', 'Order Total'],
+        ...orders.filter(o => inRange(o.date, bounds)).flatMap(o => o.itemsList.map(item => [
+          o.id, o.date, o.customerName, o.status, item.productId, item.productName, item.quantity, item.price, roundCurrency(item.price * item.quantity), o.total,
+        ])),
+      ];
+      break;
+    }
+  }
+  return toCsv(rows);
+};
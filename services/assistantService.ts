@@ -0,0 +1,167 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { AssistantCartAction, AssistantMessage, Locale, Product } from '../types';
+import { LOCALES, translate } from './i18nService';
+import { hasGeminiKey } from './productSource';
+import { buildSearchIndex, searchProducts, tokenize } from './searchService';
+import { getDefaultVariant, getLineStock, getPriceRange, getVariant, getVariantLabel, hasVariants, isInStock } from './variantService';
+
+export interface AssistantReply {
+  text: string;
+  productIds: string[];
+  cartActions: AssistantCartAction[];
+}
+
+const MAX_SUGGESTIONS = 4;
+// Enough earlier turns for follow-ups like "add two of those" without resending the whole chat.
+const HISTORY_MESSAGES = 10;
+
+// Question words that say nothing about which product is meant.
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'any', 'are', 'best', 'buy', 'can', 'cart', 'do', 'does', 'for', 'good', 'have', 'i', 'in', 'is', 'it',
+  'me', 'my', 'need', 'of', 'on', 'or', 'please', 'put', 'recommend', 'should', 'show', 'some', 'the', 'to', 'want',
+  'what', 'which', 'with', 'you', 'add', 'order', 'making', 'make', 'used', 'use',
+]);
+
+const ADD_INTENT = /\b(add|buy|order|put)\b|जोड़|खरीद|ചേർക്ക|വാങ്ങ/i;
+
+// A number followed by a unit ("5kg", "500 ml") is a pack size, not how many to add.
+const UNIT_AFTER_NUMBER = /^\s*(?:kgs?|g|gms?|grams?|l|ltrs?|lit(?:re|er)s?|ml|lbs?|oz|किलो|ग्राम|लीटर|मिली|കിലോ|ഗ്രാം|ലിറ്റർ|മില്ലി)(?![\p{L}\p{M}])/iu;
+
+/** The first whole number in the question that isn't a pack size, else 1. */
+export const parseQuantity = (question: string): number => {
+  for (const match of question.matchAll(/\d+(?:\.\d+)?/g)) {
+    const rest = question.slice(match.index! + match[0].length);
+    if (!UNIT_AFTER_NUMBER.test(rest) && Number.isInteger(Number(match[0]))) return Number(match[0]);
+  }
+  return 1;
+};
+
+export const canUseAiAssistant = (): boolean => hasGeminiKey();
+
+export const generateMessageId = () => `MSG-${Date.now()}-${Math.random().toString(36).substr(2, 5).toUpperCase()}`;
+
+/**
+ * Turns "add this" into a line the cart can take: products with variants get
+ * the requested variant or their default one. Returns null when nothing is in stock.
+ */
+export const resolveCartAction = (products: Product[], productId: string, variantId?: string, quantity = 1): AssistantCartAction | null => {
+  const product = products.find(p => p.id === productId);
+  if (!product) return null;
+  const variant = hasVariants(product) ? getVariant(product, variantId) ?? getDefaultVariant(product) : undefined;
+  if (hasVariants(product) && !variant) return null;
+  if (getLineStock(product, variant?.id) <= 0) return null;
+  return { productId, variantId: variant?.id, quantity: Math.max(1, Math.floor(quantity) || 1) };
+};
+
+/**
+ * The offline answer: a loose catalog search where products matching more of
+ * the question's words rank higher. Used when Gemini isn't configured or fails.
+ */
+export const answerFromCatalog = (question: string, products: Product[], locale: Locale): AssistantReply => {
+  const query = question.trim();
+  const terms = tokenize(query).filter(term => !STOP_WORDS.has(term) && !/^\d+$/.test(term));
+  const index = buildSearchIndex(products);
+  const matches = new Map<string, { terms: number; score: number }>();
+  terms.forEach(term => searchProducts(index, term)?.forEach(result => {
+    const match = matches.get(result.productId) ?? { terms: 0, score: 0 };
+    matches.set(result.productId, { terms: match.terms + 1, score: match.score + result.score });
+  }));
+
+  const ranked = products
+    .filter(p => matches.has(p.id))
+    .sort((a, b) => {
+      const ma = matches.get(a.id)!;
+      const mb = matches.get(b.id)!;
+      return mb.terms - ma.terms || Number(isInStock(b)) - Number(isInStock(a)) || mb.score - ma.score;
+    })
+    .slice(0, MAX_SUGGESTIONS);
+
+  if (ranked.length === 0) {
+    return { text: translate(locale, 'assistant.fallback.none', { query }), productIds: [], cartActions: [] };
+  }
+  const action = ADD_INTENT.test(query) ? resolveCartAction(products, ranked[0].id, undefined, parseQuantity(query)) : null;
+  return {
+    text: translate(locale, 'assistant.fallback.matches', { query }),
+    productIds: ranked.map(p => p.id),
+    cartActions: action ? [action] : [],
+  };
+};
+
+const catalogContext = (products: Product[]) => products.map(p => ({
+  id: p.id,
+  name: p.name,
+  brand: p.brand,
+  category: p.category,
+  priceRange: getPriceRange(p),
+  inStock: isInStock(p),
+  description: p.description.slice(0, 200),
+  variants: p.variants?.map(v => ({ id: v.id, label: getVariantLabel(p, v), inStock: v.stock > 0 })),
+}));
+
+const requestReply = async (question: string, history: AssistantMessage[], products: Product[], locale: Locale) => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const languageName = LOCALES.find(l => l.code === locale)!.languageName;
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: [
+      ...history.slice(-HISTORY_MESSAGES).map(m => ({ role: m.role === 'user' ? 'user' : 'model', parts: [{ text: m.text }] })),
+      { role: 'user', parts: [{ text: question }] },
+    ],
+    config: {
+      systemInstruction: [
+        `You are the shopping assistant for an Indian grocery store. Reply in ${languageName}, briefly and helpfully.`,
+        'Only recommend products from the catalog below, by id, and never invent products. If nothing fits, say so.',
+        "Don't quote prices; the store shows them next to your recommendations.",
+        'Only fill addToCart when the shopper explicitly asks to add or buy something, using a variant id where the product has variants.',
+        "The shopper confirms addToCart lines before anything goes in the cart, so never say you've added them; offer them instead.",
+        `Catalog: ${JSON.stringify(catalogContext(products))}`,
+      ].join('\n'),
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          reply: { type: Type.STRING },
+          productIds: { type: Type.ARRAY, items: { type: Type.STRING } },
+          addToCart: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                productId: { type: Type.STRING },
+                variantId: { type: Type.STRING },
+                quantity: { type: Type.INTEGER },
+              },
+              required: ['productId', 'quantity'],
+            },
+          },
+        },
+        required: ['reply', 'productIds', 'addToCart'],
+      },
+    },
+  });
+  return JSON.parse(response.text ?? '{}') as { reply?: string; productIds?: string[]; addToCart?: { productId: string; variantId?: string; quantity: number }[] };
+};
+
+/**
+ * Answers a shopper's question from the catalog. Gemini is used when a key is
+ * configured; anything it returns is checked against the catalog, so unknown
+ * ids and out-of-stock cart lines are dropped. Never throws.
+ */
+export const askAssistant = async (question: string, history: AssistantMessage[], products: Product[], locale: Locale): Promise<AssistantReply> => {
+  if (!canUseAiAssistant()) return answerFromCatalog(question, products, locale);
+  try {
+    const result = await requestReply(question, history, products, locale);
+    const known = new Set(products.map(p => p.id));
+    return {
+      text: result.reply?.trim() || translate(locale, 'assistant.fallback.none', { query: question.trim() }),
+      productIds: Array.from(new Set(result.productIds ?? [])).filter(id => known.has(id)).slice(0, MAX_SUGGESTIONS),
+      cartActions: (result.addToCart ?? [])
+        .map(line => resolveCartAction(products, line.productId, line.variantId, line.quantity))
+        .filter((action): action is AssistantCartAction => action !== null),
+    };
+  } catch (err) {
+    console.error('Shopping assistant request failed', err);
+    const fallback = answerFromCatalog(question, products, locale);
+    return { ...fallback, text: `${translate(locale, 'assistant.error')} ${fallback.text}` };
+  }
+};
@@ -0,0 +1,18 @@
+import { AuditEntry } from '../types';
+import { loadFromStorage, saveToStorage } from './storage';
+
+const AUDIT_KEY = 'auditLog';
+const MAX_ENTRIES = 1000;
+
+export type NewAuditEntry = Omit<AuditEntry, 'id' | 'date'>;
+
+export const getAuditLog = (): AuditEntry[] => loadFromStorage<AuditEntry[]>(AUDIT_KEY, []);
+
+/** Prepends entries (newest first), keeping the log bounded so storage doesn't grow forever. */
+export const recordAudit = (entries: NewAuditEntry[]): AuditEntry[] => {
+  const date = new Date().toISOString();
+  const stamped = entries.map((entry, i) => ({ ...entry, id: `AUD-${Date.now()}-${i}-${Math.random().toString(36).substr(2, 5)}`, date }));
+  const log = [...stamped, ...getAuditLog()].slice(0, MAX_ENTRIES);
+  saveToStorage(AUDIT_KEY, log);
+  return log;
+};
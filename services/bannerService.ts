@@ -0,0 +1,87 @@
+import { Banner, BannerPlacement, BannerStats } from '../types';
+import { localize } from './i18nService';
+import { loadFromStorage, saveToStorage } from './storage';
+
+const BANNERS_KEY = 'banners';
+const STATS_KEY = 'bannerStats';
+
+export type BannerStatus = 'inactive' | 'scheduled' | 'live' | 'ended';
+
+export const BANNER_PLACEMENTS: { id: BannerPlacement; label: string }[] = [
+  { id: 'store_header', label: 'Store header' },
+  { id: 'category', label: 'Category pages' },
+  { id: 'checkout', label: 'Checkout' },
+];
+
+export const getBanners = (): Banner[] => loadFromStorage<Banner[]>(BANNERS_KEY, []);
+
+export const getBannerStats = (): Record<string, BannerStats> => loadFromStorage<Record<string, BannerStats>>(STATS_KEY, {});
+
+export const generateBannerId = () => `BNR-${Date.now()}-${Math.random().toString(36).substr(2, 5).toUpperCase()}`;
+
+const isValidLink = (link: string) => /^https?:\/\/\S+$/i.test(link) || /^[/?#]/.test(link);
+
+/** Returns the first problem with a banner, or null if it can be saved. */
+export const validateBanner = (banner: Banner): string | null => {
+  if (!banner.title.trim()) return localize('errors.bannerTitle');
+  if (!/^https?:\/\/\S+$/i.test(banner.imageUrl)) return localize('errors.imageUrl');
+  if (!isValidLink(banner.link)) return localize('errors.bannerLink');
+  if (banner.startsAt && banner.endsAt && new Date(banner.endsAt) <= new Date(banner.startsAt)) return localize('errors.bannerDates');
+  return null;
+};
+
+export const saveBanner = (banner: Banner): Banner[] => {
+  const error = validateBanner(banner);
+  if (error) throw new Error(error);
+  const banners = getBanners();
+  const updated = banners.some(b => b.id === banner.id)
+    ? banners.map(b => b.id === banner.id ? banner : b)
+    : [...banners, banner];
+  saveToStorage(BANNERS_KEY, updated);
+  return updated;
+};
+
+export const deleteBanner = (bannerId: string): Banner[] => {
+  const updated = getBanners().filter(b => b.id !== bannerId);
+  saveToStorage(BANNERS_KEY, updated);
+  return updated;
+};
+
+export const getBannerStatus = (banner: Banner, now = new Date()): BannerStatus => {
+  if (!banner.isActive) return 'inactive';
+  if (banner.startsAt && new Date(banner.startsAt) > now) return 'scheduled';
+  if (banner.endsAt && new Date(banner.endsAt) <= now) return 'ended';
+  return 'live';
+};
+
+/**
+ * Picks the live banners for a slot, highest priority first. Banners that
+ * target categories only show when the shopper is looking at one of them
+ * (the selected filters, or what's in the cart at checkout).
+ */
+export const selectBanners = (
+  banners: Banner[],
+  context: { placement: BannerPlacement; categories: string[] },
+  now = new Date(),
+): Banner[] =>
+  banners
+    .filter(b => getBannerStatus(b, now) === 'live')
+    .filter(b => (b.placement ?? 'store_header') === context.placement)
+    .filter(b => !b.categories?.length || b.categories.some(c => context.categories.includes(c)))
+    .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+
+const incrementStat = (bannerId: string, stat: keyof BannerStats): Record<string, BannerStats> => {
+  const stats = getBannerStats();
+  const current = stats[bannerId] ?? { impressions: 0, clicks: 0 };
+  const updated = { ...stats, [bannerId]: { ...current, [stat]: current[stat] + 1 } };
+  saveToStorage(STATS_KEY, updated);
+  return updated;
+};
+
+export const recordImpression = (bannerId: string) => incrementStat(bannerId, 'impressions');
+
+export const recordClick = (bannerId: string) => incrementStat(bannerId, 'clicks');
+
+/** Click-through rate as a percentage, or null before the banner has been seen. */
+export const getClickThroughRate = (stats: BannerStats | undefined): number | null =>
+  stats && stats.impressions > 0 ? stats.clicks / stats.impressions * 100 : null;
@@ -0,0 +1,123 @@
+import { CartItem, CartLine, CartNotice, Product, StoredCart } from '../types';
+import { loadFromStorage, saveToStorage } from './storage';
+import { getLineStock, getVariant, getVariantLabel, toCartItem } from './variantService';
+
+const CART_KEY = 'cart';
+
+export const EMPTY_CART: StoredCart = { lines: [], savedForLater: [] };
+
+/** Guests share one cart per browser; each customer's cart is kept under their id. */
+export const getCartKey = (ownerId: string | null) => ownerId ? `${CART_KEY}:${ownerId}` : CART_KEY;
+
+// Carts saved before lines were stored by reference hold whole CartItem snapshots.
+const migrateCart = (stored: StoredCart | CartItem[]): StoredCart => Array.isArray(stored)
+  ? { lines: stored.map(item => ({ productId: item.id, variantId: item.variantId, quantity: item.quantity, priceSeen: item.price })), savedForLater: [] }
+  : stored;
+
+export const loadCart = (ownerId: string | null): StoredCart =>
+  migrateCart(loadFromStorage<StoredCart | CartItem[]>(getCartKey(ownerId), EMPTY_CART));
+
+export const saveCart = (ownerId: string | null, cart: StoredCart) => saveToStorage(getCartKey(ownerId), cart);
+
+export const isSameCartLine = (line: Pick<CartLine, 'productId' | 'variantId'>, productId: string, variantId?: string) =>
+  line.productId === productId && (line.variantId ?? null) === (variantId ?? null);
+
+const lineKey = (line: Pick<CartLine, 'productId' | 'variantId'>) => `${line.productId}|${line.variantId ?? ''}`;
+
+export const getLinePrice = (product: Product, variantId?: string): number =>
+  getVariant(product, variantId)?.price ?? product.price;
+
+const findLineProduct = (catalog: Product[], line: CartLine): Product | undefined => {
+  const product = catalog.find(p => p.id === line.productId);
+  return product && (!line.variantId || getVariant(product, line.variantId)) ? product : undefined;
+};
+
+export const getLineName = (product: Product, variantId?: string) => {
+  const variant = getVariant(product, variantId);
+  return variant ? `${product.name} (${getVariantLabel(product, variant)})` : product.name;
+};
+
+/** Builds cart items from the current catalog, so price, stock and images are never stale. */
+export const resolveCartLines = (lines: CartLine[], catalog: Product[]): CartItem[] =>
+  lines.flatMap(line => {
+    const product = findLineProduct(catalog, line);
+    return product ? [toCartItem(product, line.quantity, line.variantId)] : [];
+  });
+
+/**
+ * Lines whose price moved since the shopper last saw it. These are derived
+ * rather than stored, so they survive a reload until acknowledged.
+ */
+export const getPriceChangeNotices = (lines: CartLine[], catalog: Product[]): CartNotice[] =>
+  lines.flatMap(line => {
+    const product = findLineProduct(catalog, line);
+    if (!product) return [];
+    const newPrice = getLinePrice(product, line.variantId);
+    if (Math.abs(newPrice - line.priceSeen) < 0.005) return [];
+    return [{
+      id: `price_changed-${lineKey(line)}`,
+      type: 'price_changed' as const,
+      productId: line.productId,
+      variantId: line.variantId,
+      productName: getLineName(product, line.variantId),
+      oldPrice: line.priceSeen,
+      newPrice,
+    }];
+  });
+
+/**
+ * Checks every line against the catalog: lines for products that no longer
+ * exist are dropped, sold-out lines move to saved for later, and quantities
+ * are trimmed to what's in stock. Returns the same cart object when nothing
+ * needed fixing.
+ */
+export const reconcileCart = (cart: StoredCart, catalog: Product[]): { cart: StoredCart; notices: CartNotice[] } => {
+  const notices: CartNotice[] = [];
+  const lines: CartLine[] = [];
+  const movedToSaved: CartLine[] = [];
+  let changed = false;
+
+  cart.lines.forEach(line => {
+    const product = findLineProduct(catalog, line);
+    const base = { productId: line.productId, variantId: line.variantId };
+    if (!product) {
+      changed = true;
+      notices.push({ ...base, id: `unavailable-${lineKey(line)}`, type: 'unavailable', productName: '' });
+      return;
+    }
+    const productName = getLineName(product, line.variantId);
+    const stock = getLineStock(product, line.variantId);
+    if (stock <= 0) {
+      changed = true;
+      movedToSaved.push(line);
+      notices.push({ ...base, id: `out_of_stock-${lineKey(line)}`, type: 'out_of_stock', productName });
+    } else if (line.quantity > stock) {
+      changed = true;
+      lines.push({ ...line, quantity: stock });
+      notices.push({ ...base, id: `quantity_reduced-${lineKey(line)}`, type: 'quantity_reduced', productName, quantity: stock });
+    } else {
+      lines.push(line);
+    }
+  });
+
+  if (!changed) return { cart, notices };
+  const savedKeys = new Set(cart.savedForLater.map(lineKey));
+  return {
+    cart: { lines, savedForLater: [...cart.savedForLater, ...movedToSaved.filter(line => !savedKeys.has(lineKey(line)))] },
+    notices,
+  };
+};
+
+/** Folds a guest cart into a customer's cart when they sign in; matching lines add up. */
+export const mergeCarts = (guest: StoredCart, customer: StoredCart): StoredCart => {
+  const lines = [...customer.lines];
+  guest.lines.forEach(line => {
+    const index = lines.findIndex(l => isSameCartLine(l, line.productId, line.variantId));
+    if (index === -1) lines.push(line);
+    else lines[index] = { ...lines[index], quantity: lines[index].quantity + line.quantity };
+  });
+  const lineKeys = new Set(lines.map(lineKey));
+  const savedForLater = [...customer.savedForLater, ...guest.savedForLater]
+    .filter((line, i, all) => !lineKeys.has(lineKey(line)) && all.findIndex(l => lineKey(l) === lineKey(line)) === i);
+  return { lines, savedForLater };
+};
@@ -0,0 +1,238 @@
+import { Product, ProductVariant, VariantOption } from '../types';
+import { parseCsv, toCsv } from './csvService';
+import { localize } from './i18nService';
+import { ProductChange, diffProducts } from './permissions';
+import { hasVariants, syncVariantTotals } from './variantService';
+
+export type CatalogFormat = 'csv' | 'json';
+
+/** `merge` leaves products missing from the file alone; `replace` deletes them. */
+export type ImportMode = 'merge' | 'replace';
+
+export type ImportField = 'id' | 'sku' | 'name' | 'description' | 'price' | 'stock' | 'category' | 'brand' | 'imageUrls' | 'weightKg';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; aliases: string[] }[] = [
+  { field: 'id', label: 'Product ID', aliases: ['id', 'product id'] },
+  { field: 'sku', label: 'Variant SKU', aliases: ['sku', 'variant sku', 'item code'] },
+  { field: 'name', label: 'Name', aliases: ['name', 'product', 'product name', 'title'] },
+  { field: 'description', label: 'Description', aliases: ['description', 'details'] },
+  { field: 'price', label: 'Price', aliases: ['price', 'unit price', 'mrp'] },
+  { field: 'stock', label: 'Stock', aliases: ['stock', 'qty', 'quantity', 'on hand', 'inventory'] },
+  { field: 'category', label: 'Category', aliases: ['category'] },
+  { field: 'brand', label: 'Brand', aliases: ['brand', 'manufacturer'] },
+  { field: 'imageUrls', label: 'Image URLs', aliases: ['image urls', 'images', 'image', 'image url'] },
+  { field: 'weightKg', label: 'Weight (kg)', aliases: ['weight kg', 'weight', 'weight (kg)'] },
+];
+
+/** Which source column feeds each product field; unmapped fields are left untouched on update. */
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportSource {
+  format: CatalogFormat;
+  columns: string[];
+  records: Record<string, unknown>[];
+}
+
+export interface ImportRowError {
+  row: number;
+  field?: ImportField;
+  message: string;
+}
+
+export interface ImportPlan {
+  next: Product[];
+  changes: ProductChange[];
+  errors: ImportRowError[];
+}
+
+// Spreadsheet exports are one row per variant, so images are joined on a
+// character that can't appear unescaped in a URL.
+const IMAGE_SEPARATOR = '|';
+
+const EXPORT_COLUMNS: ImportField[] = ['id', 'sku', 'name', 'description', 'price', 'stock', 'category', 'brand', 'imageUrls', 'weightKg'];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const detectFormat = (filename: string, text: string): CatalogFormat =>
+  /\.json$/i.test(filename) || /^\s*[[{]/.test(text) ? 'json' : 'csv';
+
+export const parseImportSource = (text: string, format: CatalogFormat): ImportSource => {
+  if (format === 'csv') {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) throw new Error(localize('errors.importEmpty'));
+    const columns = header.map(h => h.trim());
+    return { format, columns, records: rows.map(row => Object.fromEntries(columns.map((c, i) => [c, row[i] ?? '']))) };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error(localize('errors.importInvalidJson'));
+  }
+  const items = Array.isArray(parsed) ? parsed : (parsed as { products?: unknown })?.products;
+  if (!Array.isArray(items) || items.some(item => typeof item !== 'object' || item === null || Array.isArray(item))) {
+    throw new Error(localize('errors.importNotArray'));
+  }
+  const columns = Array.from(new Set(items.flatMap(item => Object.keys(item))));
+  return { format, columns, records: items as Record<string, unknown>[] };
+};
+
+/** Guesses the mapping from column headers, so our own exports round-trip without any edits. */
+export const suggestMapping = (columns: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const candidates = [field.toLowerCase(), ...aliases];
+    const match = columns.find(c => {
+      const header = normalizeHeader(c);
+      return candidates.some(alias => alias === header || alias.replace(/ /g, '') === header.replace(/ /g, ''));
+    });
+    if (match) mapping[field] = match;
+  });
+  return mapping;
+};
+
+const generateProductId = () => `PROD-${Date.now()}-${Math.random().toString(36).substr(2, 5).toUpperCase()}`;
+
+const fieldLabel = (field: ImportField) => localize(`import.field.${field}` as const);
+
+const isBlank = (value: unknown) => value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+// Accepts spreadsheet-formatted numbers such as "₹1,299.00" or "$ 4.50".
+const parseNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const cleaned = String(value).replace(/[\s,$₹]/g, '');
+  if (cleaned === '') return null;
+  const number = Number(cleaned);
+  return Number.isFinite(number) ? number : null;
+};
+
+const isValidImageUrl = (url: string) => /^https?:\/\/[^\s]+$/i.test(url) || /^data:image\//i.test(url);
+
+const parseImageUrls = (value: unknown): string[] =>
+  (Array.isArray(value) ? value.map(String) : String(value).split(/[|\n]/)).map(url => url.trim()).filter(Boolean);
+
+const isVariant = (value: unknown): value is ProductVariant => {
+  const v = value as ProductVariant;
+  return typeof v === 'object' && v !== null
+    && typeof v.id === 'string' && typeof v.sku === 'string'
+    && typeof v.options === 'object' && v.options !== null
+    && typeof v.price === 'number' && v.price >= 0
+    && Number.isInteger(v.stock) && v.stock >= 0;
+};
+
+const isVariantOption = (value: unknown): value is VariantOption => {
+  const o = value as VariantOption;
+  return typeof o === 'object' && o !== null && typeof o.name === 'string' && Array.isArray(o.values);
+};
+
+/**
+ * Validates every row and works out the catalog the import would produce,
+ * without saving anything. Rows are matched to existing products by id, or by
+ * name when the file has no id column. A row with a SKU updates that variant's
+ * price and stock; several rows can therefore describe the same product.
+ */
+export const planImport = (catalog: Product[], source: ImportSource, mapping: ColumnMapping, mode: ImportMode): ImportPlan => {
+  const errors: ImportRowError[] = [];
+  const catalogById = new Map(catalog.map(p => [p.id, p]));
+  const catalogByName = new Map(catalog.map(p => [p.name.trim().toLowerCase(), p]));
+  const imported = new Map<string, Product>();
+  const seenLines = new Set<string>();
+
+  source.records.forEach((record, index) => {
+    // CSV rows are numbered as a spreadsheet shows them, below the header row.
+    const row = source.format === 'csv' ? index + 2 : index + 1;
+    const rowErrors: ImportRowError[] = [];
+    const fail = (message: string, field?: ImportField) => rowErrors.push({ row, field, message });
+    const value = (field: ImportField) => mapping[field] !== undefined ? record[mapping[field]!] : undefined;
+    const text = (field: ImportField) => isBlank(value(field)) ? '' : String(value(field)).trim();
+    const number = (field: ImportField, isValid: (n: number) => boolean): number | undefined => {
+      if (isBlank(value(field))) return undefined;
+      const parsed = parseNumber(value(field));
+      if (parsed === null || !isValid(parsed)) {
+        fail(localize('errors.importInvalidValue', { field: fieldLabel(field), value: String(value(field)) }), field);
+        return undefined;
+      }
+      return parsed;
+    };
+
+    const id = text('id');
+    const name = text('name');
+    const importedByName = Array.from(imported.values()).find(p => p.name.trim().toLowerCase() === name.toLowerCase());
+    const existing = id
+      ? imported.get(id) ?? catalogById.get(id)
+      : name ? importedByName ?? catalogByName.get(name.toLowerCase()) : undefined;
+    const product: Product = existing
+      ? { ...existing }
+      : { id: id || generateProductId(), name: '', description: '', price: 0, rating: 0, imageUrls: [], category: '', brand: '', stock: 0 };
+
+    (['name', 'description', 'category', 'brand'] as const).forEach(field => {
+      if (text(field)) product[field] = text(field);
+    });
+
+    const price = number('price', n => n >= 0);
+    const stock = number('stock', n => Number.isInteger(n) && n >= 0);
+    const weightKg = number('weightKg', n => n > 0);
+    if (weightKg !== undefined) product.weightKg = weightKg;
+
+    if (!isBlank(value('imageUrls'))) {
+      const urls = parseImageUrls(value('imageUrls'));
+      const invalid = urls.filter(url => !isValidImageUrl(url));
+      if (invalid.length > 0) fail(localize('errors.importImageUrl', { url: invalid[0] }), 'imageUrls');
+      else product.imageUrls = urls;
+    }
+
+    // JSON exports carry full variant data; it replaces the product's variants wholesale.
+    if (source.format === 'json' && record.variants !== undefined) {
+      if (!Array.isArray(record.variants) || !record.variants.every(isVariant)) fail(localize('errors.importVariants'));
+      else if (record.variantOptions !== undefined && !(Array.isArray(record.variantOptions) && record.variantOptions.every(isVariantOption))) fail(localize('errors.importVariantOptions'));
+      else {
+        product.variants = record.variants;
+        if (record.variantOptions !== undefined) product.variantOptions = record.variantOptions as VariantOption[];
+      }
+    }
+
+    const sku = text('sku');
+    if (sku) {
+      const variant = product.variants?.find(v => v.sku === sku);
+      if (!variant) fail(localize('errors.importUnknownSku', { sku }), 'sku');
+      else product.variants = product.variants!.map(v => v === variant ? { ...v, price: price ?? v.price, stock: stock ?? v.stock } : v);
+    } else if (hasVariants(product) && source.format === 'csv' && (price !== undefined || stock !== undefined)) {
+      fail(localize('errors.importSkuNeeded'), 'sku');
+    } else {
+      if (price !== undefined) product.price = price;
+      if (stock !== undefined) product.stock = stock;
+    }
+
+    (['name', 'category', 'brand'] as const).forEach(field => {
+      if (!product[field]) fail(localize('errors.importRequired', { field: fieldLabel(field) }), field);
+    });
+    if (!existing && isBlank(value('price')) && !hasVariants(product)) fail(localize('errors.importPriceRequired'), 'price');
+
+    const lineKey = `${product.id}|${sku}`;
+    if (seenLines.has(lineKey)) fail(sku ? localize('errors.importDuplicateSku', { sku }) : localize('errors.importDuplicateName', { name: product.name }));
+    seenLines.add(lineKey);
+
+    if (rowErrors.length > 0) errors.push(...rowErrors);
+    else imported.set(product.id, syncVariantTotals(product));
+  });
+
+  const next = mode === 'replace'
+    ? Array.from(imported.values())
+    : [...catalog.map(p => imported.get(p.id) ?? p), ...Array.from(imported.values()).filter(p => !catalogById.has(p.id))];
+  return { next, changes: diffProducts(catalog, next), errors };
+};
+
+/** One row per product, or per variant for products with variants, using the same columns the importer maps. */
+export const exportCatalogCsv = (products: Product[]): string => {
+  const rows = products.flatMap(p => {
+    const shared = { id: p.id, name: p.name, description: p.description, category: p.category, brand: p.brand, imageUrls: p.imageUrls.join(IMAGE_SEPARATOR), weightKg: p.weightKg };
+    const lines = hasVariants(p)
+      ? p.variants!.map(v => ({ ...shared, sku: v.sku, price: v.price, stock: v.stock }))
+      : [{ ...shared, sku: '', price: p.price, stock: p.stock }];
+    return lines.map(line => EXPORT_COLUMNS.map(column => line[column]));
+  });
+  return toCsv([EXPORT_COLUMNS, ...rows]);
+};
+
+export const exportCatalogJson = (products: Product[]): string => JSON.stringify(products, null, 2);
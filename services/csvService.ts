@@ -0,0 +1,66 @@
+export type CsvCell = string | number | boolean | null | undefined;
+
+// Spreadsheets run text starting with these as a formula, so customer-entered
+// text such as "=HYPERLINK(...)" would execute when the export is opened.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (cell: CsvCell): string => {
+  const raw = cell === null || cell === undefined ? '' : String(cell);
+  const value = typeof cell === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const toCsv = (rows: CsvCell[][]): string => rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+/** Parses RFC 4180 CSV: quoted cells may contain commas, newlines and doubled quotes. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else cell += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Spreadsheet exports often end with blank lines. Cells this module guarded
+  // against formulas lose the guard, so an export imports back unchanged.
+  return rows
+    .filter(r => r.some(c => c.trim() !== ''))
+    .map(r => r.map(c => /^'[=+\-@\t\r]/.test(c) ? c.slice(1) : c));
+};
+
+export const downloadFile = (filename: string, content: BlobPart[], type: string) => {
+  const blob = new Blob(content, { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking straight away can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Leading BOM so Excel reads the file as UTF-8.
+export const downloadCsv = (filename: string, csv: string) => downloadFile(filename, ['\uFEFF', csv], 'text/csv;charset=utf-8');
@@ -0,0 +1,51 @@
+import { CurrencyCode, CurrencySettings } from '../types';
+import { localize } from './i18nService';
+import { loadFromStorage, saveToStorage } from './storage';
+
+const CURRENCY_SETTINGS_KEY = 'currencySettings';
+
+export const CURRENCIES: { code: CurrencyCode; name: string }[] = [
+  { code: 'INR', name: 'Indian Rupee' },
+  { code: 'USD', name: 'US Dollar' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'British Pound' },
+  { code: 'AED', name: 'UAE Dirham' },
+];
+
+// The seed catalog is priced in dollars; rupees are offered as a display currency until the store switches over.
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  storeCurrency: 'USD',
+  displayRates: { INR: 83 },
+};
+
+export const getCurrencySettings = (): CurrencySettings =>
+  ({ ...DEFAULT_CURRENCY_SETTINGS, ...loadFromStorage<Partial<CurrencySettings>>(CURRENCY_SETTINGS_KEY, {}) });
+
+export const validateCurrencySettings = (settings: CurrencySettings): string | null => {
+  const invalid = Object.entries(settings.displayRates).find(([, rate]) => !(typeof rate === 'number' && Number.isFinite(rate) && rate > 0));
+  return invalid ? localize('errors.exchangeRate', { currency: invalid[0] }) : null;
+};
+
+export const saveCurrencySettings = (settings: CurrencySettings): CurrencySettings => {
+  const error = validateCurrencySettings(settings);
+  if (error) throw new Error(error);
+  // The store currency always converts at 1:1, so it never needs a rate of its own.
+  const displayRates = Object.fromEntries(Object.entries(settings.displayRates).filter(([code]) => code !== settings.storeCurrency));
+  const next = { ...settings, displayRates };
+  saveToStorage(CURRENCY_SETTINGS_KEY, next);
+  return next;
+};
+
+/** The store currency first, then every currency with a display rate. */
+export const getDisplayCurrencies = (settings: CurrencySettings): CurrencyCode[] =>
+  [settings.storeCurrency, ...(Object.keys(settings.displayRates) as CurrencyCode[]).filter(c => c !== settings.storeCurrency)];
+
+/** Units of `currency` per one unit of the store currency. */
+export const getDisplayRate = (settings: CurrencySettings, currency: CurrencyCode): number =>
+  currency === settings.storeCurrency ? 1 : settings.displayRates[currency] ?? 1;
+
+export const formatMoney = (amount: number, currency: CurrencyCode, localeTag: string, options: Intl.NumberFormatOptions = {}): string =>
+  new Intl.NumberFormat(localeTag, { style: 'currency', currency, ...options }).format(amount);
+
+export const getCurrencySymbol = (currency: CurrencyCode, localeTag: string): string =>
+  new Intl.NumberFormat(localeTag, { style: 'currency', currency }).formatToParts(0).find(part => part.type === 'currency')?.value ?? currency;
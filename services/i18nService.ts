@@ -0,0 +1,55 @@
+import { Locale } from '../types';
+import { MessageKey, Messages, en } from '../data/locales/en';
+import { ml } from '../data/locales/ml';
+import { hi } from '../data/locales/hi';
+import { loadFromStorage, saveToStorage } from './storage';
+
+export type { MessageKey };
+export type MessageParams = Record<string, string | number>;
+
+const LOCALE_KEY = 'locale';
+
+/** `tag` is the BCP 47 tag handed to Intl for number, currency and date formatting. */
+export const LOCALES: { code: Locale; label: string; tag: string; languageName: string }[] = [
+  { code: 'en', label: 'English', tag: 'en-IN', languageName: 'English' },
+  { code: 'ml', label: 'മലയാളം', tag: 'ml-IN', languageName: 'Malayalam' },
+  { code: 'hi', label: 'हिन्दी', tag: 'hi-IN', languageName: 'Hindi' },
+];
+
+const MESSAGES: Record<Locale, Partial<Messages>> = { en, ml, hi };
+
+export const getLocaleTag = (locale: Locale): string => LOCALES.find(l => l.code === locale)!.tag;
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.code === value);
+
+/** A saved choice wins; otherwise the browser's language if we have it, else English. */
+export const getInitialLocale = (): Locale => {
+  const saved = loadFromStorage<string | null>(LOCALE_KEY, null);
+  if (isLocale(saved)) return saved;
+  const browser = (navigator.languages ?? [navigator.language]).map(l => l.slice(0, 2)).find(isLocale);
+  return browser ?? 'en';
+};
+
+export const saveLocale = (locale: Locale) => saveToStorage(LOCALE_KEY, locale);
+
+/**
+ * Looks the key up in the locale, falling back to English, and fills `{name}`
+ * placeholders. Numeric params are formatted for the locale.
+ */
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+  const template = MESSAGES[locale][key] ?? en[key] ?? key;
+  const numberFormat = new Intl.NumberFormat(getLocaleTag(locale));
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? numberFormat.format(value) : value;
+  });
+};
+
+export const isMessageKey = (key: string): key is MessageKey => key in en;
+
+/**
+ * Translates into the shopper's chosen (or browser) language, for messages
+ * built outside React such as service validation errors.
+ */
+export const localize = (key: MessageKey, params?: MessageParams): string => translate(getInitialLocale(), key, params);
@@ -0,0 +1,120 @@
+import { CartItem, OrderItem, Product } from '../types';
+import { localize } from './i18nService';
+import { adjustVariantStock, getLineStock, getVariant, getVariantLabel, hasVariants, isSameLine } from './variantService';
+
+export const LOW_STOCK_THRESHOLD = 10;
+
+export interface StockIssue {
+  productId: string;
+  variantId?: string;
+  productName: string;
+  requested: number;
+  available: number;
+  message: string;
+}
+
+type StockLine = Pick<OrderItem, 'productId' | 'quantity' | 'variantId'>;
+
+const lineKey = (productId: string, variantId?: string) => `${productId}::${variantId ?? ''}`;
+
+export const getReservedQuantity = (cartItems: CartItem[], productId: string, variantId?: string): number =>
+  cartItems.filter(item => isSameLine(item, productId, variantId)).reduce((sum, item) => sum + item.quantity, 0);
+
+/** Units still free to add to the cart once the current cart's reservation is taken out. */
+export const getAvailableStock = (product: Product, cartItems: CartItem[], variantId?: string): number =>
+  Math.max(0, getLineStock(product, variantId) - getReservedQuantity(cartItems, product.id, variantId));
+
+export const validateCartStock = (cartItems: CartItem[], products: Product[]): StockIssue[] =>
+  cartItems.flatMap(item => {
+    const product = products.find(p => p.id === item.id);
+    const variantMissing = !!product && !!item.variantId && !getVariant(product, item.variantId);
+    const available = product && !variantMissing ? getLineStock(product, item.variantId) : 0;
+    if (product && !variantMissing && item.quantity <= available) return [];
+    const name = item.variantLabel ? `${item.name} (${item.variantLabel})` : item.name;
+    return [{
+      productId: item.id,
+      variantId: item.variantId,
+      productName: name,
+      requested: item.quantity,
+      available,
+      message: available === 0
+        ? localize('errors.outOfStock', { name })
+        : localize('errors.lowStock', { available, name, requested: item.quantity }),
+    }];
+  });
+
+const groupLines = (lines: StockLine[]) => {
+  const grouped = new Map<string, StockLine>();
+  lines.forEach(line => {
+    const key = lineKey(line.productId, line.variantId);
+    const existing = grouped.get(key);
+    grouped.set(key, existing ? { ...existing, quantity: existing.quantity + line.quantity } : { ...line });
+  });
+  return Array.from(grouped.values());
+};
+
+/**
+ * A line that no longer matches the catalog: the product is gone, or the line's
+ * variant (or lack of one) no longer fits the product. Its stock has nowhere to go.
+ */
+const isUnmatched = (products: Product[], line: StockLine) => {
+  const product = products.find(p => p.id === line.productId);
+  return !product || (line.variantId ? !getVariant(product, line.variantId) : hasVariants(product));
+};
+
+const lineName = (products: Product[], line: StockLine) => {
+  const product = products.find(p => p.id === line.productId);
+  if (!product) return line.productId;
+  const variant = getVariant(product, line.variantId);
+  return variant ? `${product.name} (${getVariantLabel(product, variant)})` : product.name;
+};
+
+const adjustStock = (products: Product[], lines: StockLine[], direction: 1 | -1): Product[] =>
+  groupLines(lines).filter(line => !isUnmatched(products, line)).reduce((current, line) => current.map(p => {
+    if (p.id !== line.productId) return p;
+    const delta = line.quantity * direction;
+    return line.variantId ? adjustVariantStock(p, line.variantId, delta) : { ...p, stock: p.stock + delta };
+  }), products);
+
+/**
+ * Takes every line out of stock in one pass. Throws without touching the
+ * catalog if any line can't be covered, so a partial decrement never happens.
+ */
+export const decrementStock = (products: Product[], lines: StockLine[]): Product[] => {
+  const short = groupLines(lines).find(line =>
+    isUnmatched(products, line) || getLineStock(products.find(p => p.id === line.productId)!, line.variantId) < line.quantity);
+  if (short) {
+    throw new Error(localize('errors.insufficientStock', { product: lineName(products, short) }));
+  }
+  return adjustStock(products, lines, -1);
+};
+
+/** Lines `restock` leaves out because the product or variant they name is gone. */
+export const findUnrestockableLines = (products: Product[], lines: OrderItem[]): OrderItem[] =>
+  lines.filter(line => isUnmatched(products, line));
+
+export const restock = (products: Product[], lines: StockLine[]): Product[] => adjustStock(products, lines, 1);
+
+export interface LowStockLine {
+  key: string;
+  name: string;
+  stock: number;
+}
+
+const stockLines = (products: Product[]): LowStockLine[] =>
+  products.flatMap(p => hasVariants(p)
+    ? p.variants!.map(v => ({ key: `${p.id}-${v.id}`, name: `${p.name} (${getVariantLabel(p, v)})`, stock: v.stock }))
+    : [{ key: p.id, name: p.name, stock: p.stock }]);
+
+/**
+ * Lines that dropped to the low-stock threshold (or sold out) in this change,
+ * so an alert fires once when it happens rather than on every later sale.
+ */
+export const findNewLowStock = (before: Product[], after: Product[], threshold = LOW_STOCK_THRESHOLD): LowStockLine[] => {
+  const previous = new Map(stockLines(before).map(line => [line.key, line.stock]));
+  return stockLines(after).filter(line => {
+    const was = previous.get(line.key);
+    if (was === undefined || line.stock >= was) return false;
+    return (line.stock <= threshold && was > threshold) || (line.stock === 0 && was > 0);
+  });
+};
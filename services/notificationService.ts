@@ -0,0 +1,99 @@
+import { AdminNotification, NotificationPreferences, NotificationReadState, NotificationType, StoredNotification, UserRole } from '../types';
+import { Permission, can } from './permissions';
+import { loadFromStorage, saveToStorage } from './storage';
+
+export const NOTIFICATIONS_KEY = 'notifications';
+const PREFERENCES_KEY = 'notificationPreferences';
+const readStateKey = (adminId: string) => `notificationState:${adminId}`;
+
+const MAX_NOTIFICATIONS = 200;
+const MAX_EVENTS_PER_GROUP = 50;
+// Repeats more than a day apart start a fresh notification instead of growing an old one.
+const GROUP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export const NOTIFICATION_TYPES: { type: NotificationType; label: string }[] = [
+  { type: 'order', label: 'New orders' },
+  { type: 'stock', label: 'Low stock' },
+  { type: 'review', label: 'Reviews awaiting moderation' },
+  { type: 'message', label: 'Customer messages' },
+];
+
+// Staff only hear about events they're able to act on.
+export const NOTIFICATION_PERMISSIONS: Record<NotificationType, Permission> = {
+  order: 'order:view',
+  stock: 'product:edit-stock',
+  review: 'review:moderate',
+  message: 'ticket:manage',
+};
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  admin: ['order', 'stock', 'review', 'message'],
+  manager: ['order', 'stock', 'review', 'message'],
+  editor: ['review'],
+};
+
+export interface NotificationEvent {
+  type: NotificationType;
+  groupKey: string;
+  /** English text, kept for anything that can't translate the key. */
+  message: string;
+  /** Lets each admin read the notification in their own language. */
+  messageKey?: string;
+  messageParams?: Record<string, string | number>;
+  link?: string;
+}
+
+export const getNotifications = (): StoredNotification[] => loadFromStorage<StoredNotification[]>(NOTIFICATIONS_KEY, []);
+
+export const emitNotification = (event: NotificationEvent, now = new Date()): StoredNotification[] => {
+  const notifications = getNotifications();
+  const date = now.toISOString();
+  const group = notifications.find(n => n.groupKey === event.groupKey && now.getTime() - new Date(n.date).getTime() < GROUP_WINDOW_MS);
+  const updated = group
+    ? { ...group, message: event.message, messageKey: event.messageKey, messageParams: event.messageParams, date, link: event.link ?? group.link, eventDates: [...group.eventDates, date].slice(-MAX_EVENTS_PER_GROUP) }
+    : {
+      id: `NTF-${Date.now()}-${Math.random().toString(36).substr(2, 5).toUpperCase()}`,
+      ...event,
+      date,
+      eventDates: [date],
+    };
+  const next = [updated, ...notifications.filter(n => n.id !== updated.id)].slice(0, MAX_NOTIFICATIONS);
+  saveToStorage(NOTIFICATIONS_KEY, next);
+  return next;
+};
+
+export const getReadState = (adminId: string): Record<string, NotificationReadState> =>
+  loadFromStorage<Record<string, NotificationReadState>>(readStateKey(adminId), {});
+
+export const updateReadState = (adminId: string, ids: string[], change: NotificationReadState): Record<string, NotificationReadState> => {
+  const state = getReadState(adminId);
+  const next = { ...state, ...Object.fromEntries(ids.map(id => [id, { ...state[id], ...change }])) };
+  saveToStorage(readStateKey(adminId), next);
+  return next;
+};
+
+export const getNotificationPreferences = (): NotificationPreferences =>
+  ({ ...DEFAULT_NOTIFICATION_PREFERENCES, ...loadFromStorage<Partial<NotificationPreferences>>(PREFERENCES_KEY, {}) });
+
+export const saveNotificationPreferences = (preferences: NotificationPreferences) => saveToStorage(PREFERENCES_KEY, preferences);
+
+export const isSubscribed = (role: UserRole, type: NotificationType, preferences: NotificationPreferences): boolean =>
+  can(role, NOTIFICATION_PERMISSIONS[type]) && preferences[role].includes(type);
+
+/** What one admin sees: their subscriptions only, minus dismissed items, newest first. */
+export const getNotificationsForAdmin = (
+  notifications: StoredNotification[],
+  readState: Record<string, NotificationReadState>,
+  role: UserRole,
+  preferences: NotificationPreferences,
+): AdminNotification[] =>
+  notifications
+    .filter(n => isSubscribed(role, n.type, preferences))
+    .filter(n => { const dismissedAt = readState[n.id]?.dismissedAt; return !dismissedAt || dismissedAt < n.date; })
+    .map(n => {
+      const readAt = readState[n.id]?.readAt;
+      const isRead = !!readAt && readAt >= n.date;
+      const count = isRead ? n.eventDates.length : n.eventDates.filter(d => !readAt || d > readAt).length;
+      return { id: n.id, type: n.type, message: n.message, messageKey: n.messageKey, messageParams: n.messageParams, date: n.date, isRead, count, link: n.link };
+    })
+    .sort((a, b) => b.date.localeCompare(a.date));
@@ -0,0 +1,182 @@
+import { CartItem, CheckoutDetails, CurrencyCode, Order, OrderItem, OrderStatus, PriceBreakdown, Product } from '../types';
+import { DEFAULT_CURRENCY_SETTINGS, getCurrencySettings } from './currencyService';
+import { localize } from './i18nService';
+import { getAvailableStock } from './inventoryService';
+import { loadFromStorage, saveToStorage } from './storage';
+import { getVariant } from './variantService';
+
+const ORDERS_KEY = 'orders';
+
+const statusLabel = (status: OrderStatus) => localize(`orderStatus.${status}` as const);
+
+// Allowed status moves. Cancelled and refunded are terminal, and refunds are
+// only issued once an order has actually been delivered.
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: ['refunded'],
+  cancelled: [],
+  refunded: [],
+};
+
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean => ORDER_TRANSITIONS[from].includes(to);
+
+/** The happy path a customer sees as a timeline; cancelled and refunded branch off it. */
+export const ORDER_PROGRESS: OrderStatus[] = ['pending', 'shipped', 'delivered'];
+
+export const RETURN_WINDOW_DAYS = 30;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export const generateOrderId = () => `ORD-${Date.now()}-${Math.random().toString(36).substr(2, 5).toUpperCase()}`;
+
+const generateTrackingNumber = () => `TRK${Date.now().toString().slice(-8)}${Math.random().toString(36).substr(2, 4).toUpperCase()}`;
+
+/**
+ * Snapshots the cart into an order so later catalog edits don't rewrite history.
+ * With a price breakdown the order total includes discount, shipping and tax.
+ */
+export const buildOrder = (cartItems: CartItem[], details: CheckoutDetails, breakdown?: PriceBreakdown): Order => {
+  if (cartItems.length === 0) {
+    throw new Error(localize('errors.emptyCart'));
+  }
+  const itemsList: OrderItem[] = cartItems.map(item => ({
+    productId: item.id,
+    productName: item.variantLabel ? `${item.name} (${item.variantLabel})` : item.name,
+    quantity: item.quantity,
+    price: item.price,
+    variantId: item.variantId,
+    sku: item.variantId ? item.variants?.find(v => v.id === item.variantId)?.sku : undefined,
+  }));
+  const date = new Date().toISOString();
+  const subtotal = roundCurrency(itemsList.reduce((sum, item) => sum + item.price * item.quantity, 0));
+  return {
+    id: generateOrderId(),
+    customerName: details.customerName,
+    date,
+    total: breakdown?.total ?? subtotal,
+    status: 'pending',
+    itemsList,
+    shippingAddress: details.shippingAddress,
+    statusHistory: [{ status: 'pending', date }],
+    customerId: details.customerId,
+    breakdown,
+    currency: getCurrencySettings().storeCurrency,
+  };
+};
+
+/** Orders placed before the store currency could be changed were all charged in the default one. */
+export const getOrderCurrency = (order: Order): CurrencyCode => order.currency ?? DEFAULT_CURRENCY_SETTINGS.storeCurrency;
+
+export const getOrders = (): Order[] => loadFromStorage<Order[]>(ORDERS_KEY, []);
+
+export const getOrderById = (orderId: string): Order | undefined => getOrders().find(o => o.id === orderId);
+
+export const saveOrder = (order: Order): Order[] => {
+  const orders = [order, ...getOrders()];
+  saveToStorage(ORDERS_KEY, orders);
+  return orders;
+};
+
+const saveOrderChange = (orderId: string, change: (order: Order) => Order): Order[] => {
+  const orders = getOrders();
+  if (!orders.some(o => o.id === orderId)) {
+    throw new Error(localize('errors.orderNotFound', { id: orderId }));
+  }
+  const updated = orders.map(o => o.id === orderId ? change(o) : o);
+  saveToStorage(ORDERS_KEY, updated);
+  return updated;
+};
+
+/**
+ * A refund settles any open return request as approved, so refunding from the
+ * status menu can't leave a request behind to be approved (and refunded) again.
+ */
+export const updateOrderStatus = (orderId: string, status: OrderStatus, changedBy?: string): Order[] => {
+  const order = getOrders().find(o => o.id === orderId);
+  if (order && !canTransition(order.status, status)) {
+    throw new Error(localize('errors.orderTransition', { id: orderId, from: statusLabel(order.status), to: statusLabel(status) }));
+  }
+  const date = new Date().toISOString();
+  return saveOrderChange(orderId, o => ({
+    ...o,
+    status,
+    statusHistory: [...(o.statusHistory ?? []), { status, date }],
+    trackingNumber: status === 'shipped' ? o.trackingNumber ?? generateTrackingNumber() : o.trackingNumber,
+    returnRequest: status === 'refunded' && o.returnRequest?.status === 'requested'
+      ? { ...o.returnRequest, status: 'approved', resolvedAt: date, resolvedBy: changedBy }
+      : o.returnRequest,
+  }));
+};
+
+/** When the order reached a status, if it has. */
+export const getStatusDate = (order: Order, status: OrderStatus): string | undefined =>
+  status === 'pending' ? order.date : order.statusHistory?.find(change => change.status === status)?.date;
+
+const getOwnOrder = (orderId: string, customerId: string): Order => {
+  const order = getOrderById(orderId);
+  if (!order || order.customerId !== customerId) {
+    throw new Error(localize('errors.orderNotInAccount'));
+  }
+  return order;
+};
+
+/** Customers can cancel their own orders until they ship. */
+export const cancelCustomerOrder = (orderId: string, customerId: string): Order[] => {
+  const order = getOwnOrder(orderId, customerId);
+  if (order.status !== 'pending') {
+    throw new Error(localize('errors.orderShipped'));
+  }
+  return updateOrderStatus(orderId, 'cancelled');
+};
+
+/** A return can be requested once, within RETURN_WINDOW_DAYS of delivery. */
+export const getReturnError = (order: Order, now = new Date()): string | null => {
+  if (order.status !== 'delivered') return localize('errors.returnNotDelivered');
+  if (order.returnRequest) return localize('errors.returnAlreadyRequested');
+  const deliveredAt = getStatusDate(order, 'delivered');
+  if (deliveredAt && now.getTime() - new Date(deliveredAt).getTime() > RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+    return localize('errors.returnWindowClosed', { days: RETURN_WINDOW_DAYS });
+  }
+  return null;
+};
+
+export const requestReturn = (orderId: string, customerId: string, reason: string): Order[] => {
+  const order = getOwnOrder(orderId, customerId);
+  const error = getReturnError(order);
+  if (error) throw new Error(error);
+  if (!reason.trim()) throw new Error(localize('errors.returnReason'));
+  return saveOrderChange(orderId, o => ({ ...o, returnRequest: { reason: reason.trim(), status: 'requested', requestedAt: new Date().toISOString() } }));
+};
+
+/** Approving a return refunds the order; rejecting it leaves the order delivered. */
+export const resolveReturn = (orderId: string, approve: boolean, resolvedBy: string): Order[] => {
+  const order = getOrderById(orderId);
+  if (order?.returnRequest?.status !== 'requested') {
+    throw new Error(localize('errors.noOpenReturn', { id: orderId }));
+  }
+  if (approve) return updateOrderStatus(orderId, 'refunded', resolvedBy);
+  return saveOrderChange(orderId, o => ({
+    ...o,
+    returnRequest: { ...o.returnRequest!, status: 'rejected', resolvedAt: new Date().toISOString(), resolvedBy },
+  }));
+};
+
+export interface ReorderPlan {
+  lines: { product: Product; variantId?: string; quantity: number }[];
+  /** Names of items that are no longer sold or are out of stock. */
+  unavailable: string[];
+}
+
+/**
+ * Matches an old order against today's catalog. Items come back at their
+ * current price, capped at what's in stock once the cart's own lines are counted.
+ */
+export const planReorder = (order: Order, products: Product[], cartItems: CartItem[]): ReorderPlan =>
+  order.itemsList.reduce<ReorderPlan>((plan, item) => {
+    const product = products.find(p => p.id === item.productId);
+    const variantMissing = !!product && !!item.variantId && !getVariant(product, item.variantId);
+    const available = product && !variantMissing ? getAvailableStock(product, cartItems, item.variantId) : 0;
+    if (!product || available === 0) return { ...plan, unavailable: [...plan.unavailable, item.productName] };
+    return { ...plan, lines: [...plan.lines, { product, variantId: item.variantId, quantity: Math.min(item.quantity, available) }] };
+  }, { lines: [], unavailable: [] });
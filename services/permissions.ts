@@ -0,0 +1,111 @@
+import { Product, UserRole } from '../types';
+import { localize } from './i18nService';
+
+export type Permission =
+  | 'product:create'
+  | 'product:delete'
+  | 'product:edit-copy'
+  | 'product:edit-price'
+  | 'product:edit-stock'
+  | 'banner:manage'
+  | 'order:view'
+  | 'order:update'
+  | 'user:view'
+  | 'user:manage'
+  | 'role:manage'
+  | 'audit:view'
+  | 'analytics:view'
+  | 'ticket:manage'
+  | 'pricing:manage'
+  | 'review:moderate'
+  // Held by no role: guards fields the store computes rather than anyone edits.
+  | 'product:edit-derived';
+
+const EDITOR_PERMISSIONS: Permission[] = ['product:edit-copy', 'banner:manage', 'review:moderate'];
+
+const MANAGER_PERMISSIONS: Permission[] = [
+  ...EDITOR_PERMISSIONS,
+  'product:create',
+  'product:edit-price',
+  'product:edit-stock',
+  'order:view',
+  'order:update',
+  'user:view',
+  'audit:view',
+  'analytics:view',
+  'ticket:manage',
+  'pricing:manage',
+];
+
+// Each role inherits everything from the role below it.
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  editor: EDITOR_PERMISSIONS,
+  manager: MANAGER_PERMISSIONS,
+  admin: [...MANAGER_PERMISSIONS, 'product:delete', 'user:manage', 'role:manage'],
+};
+
+export const can = (role: UserRole | null | undefined, permission: Permission): boolean =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+export const assertCan = (role: UserRole | null | undefined, permission: Permission) => {
+  if (!can(role, permission)) {
+    throw new Error(localize('admin.notAllowed', { role: role ?? 'guest', permission }));
+  }
+};
+
+/**
+ * The permissions needed to change each product field. Typing this as a Record
+ * means a new Product field doesn't compile until someone decides who may edit it.
+ */
+const FIELD_PERMISSIONS: Record<keyof Product, Permission[]> = {
+  id: [], // an update never changes the id; a new id is a create
+  name: ['product:edit-copy'],
+  description: ['product:edit-copy'],
+  imageUrls: ['product:edit-copy'],
+  category: ['product:edit-copy'],
+  brand: ['product:edit-copy'],
+  // Worked out from approved reviews, so no edit may set them by hand.
+  rating: ['product:edit-derived'],
+  reviewCount: ['product:edit-derived'],
+  weightKg: ['product:edit-copy'],
+  variantOptions: ['product:edit-copy'],
+  price: ['product:edit-price'],
+  stock: ['product:edit-stock'],
+  // Variants carry their own price and stock, so editing them needs both.
+  variants: ['product:edit-price', 'product:edit-stock'],
+};
+
+// Fields the type doesn't know about (e.g. from an imported file) get the strictest check.
+const UNMAPPED_FIELD_PERMISSIONS: Permission[] = ['product:edit-price', 'product:edit-stock'];
+
+export interface ProductChange {
+  type: 'create' | 'update' | 'delete';
+  product: Product;
+  changedFields: (keyof Product)[];
+}
+
+export const diffProducts = (before: Product[], after: Product[]): ProductChange[] => {
+  const beforeById = new Map(before.map(p => [p.id, p]));
+  const afterIds = new Set(after.map(p => p.id));
+  const changes: ProductChange[] = [];
+  after.forEach(product => {
+    const previous = beforeById.get(product.id);
+    if (!previous) {
+      changes.push({ type: 'create', product, changedFields: [] });
+      return;
+    }
+    // Keys from both sides, so removing a field (e.g. all variants) counts as changing it.
+    const changedFields = (Array.from(new Set([...Object.keys(previous), ...Object.keys(product)])) as (keyof Product)[])
+      .filter(key => JSON.stringify(product[key]) !== JSON.stringify(previous[key]));
+    if (changedFields.length > 0) changes.push({ type: 'update', product, changedFields });
+  });
+  before.filter(p => !afterIds.has(p.id)).forEach(product => changes.push({ type: 'delete', product, changedFields: [] }));
+  return changes;
+};
+
+/** Maps a catalog edit onto the permissions it needs, field by field. */
+export const permissionsForProductChange = ({ type, changedFields }: ProductChange): Permission[] => {
+  if (type === 'create') return ['product:create'];
+  if (type === 'delete') return ['product:delete'];
+  return Array.from(new Set(changedFields.flatMap(field => FIELD_PERMISSIONS[field] ?? UNMAPPED_FIELD_PERMISSIONS)));
+};
@@ -0,0 +1,59 @@
+export interface PriceBand {
+  min: number;
+  max: number; // Infinity for the open-ended top band
+}
+
+export interface HistogramBin {
+  min: number;
+  max: number;
+  count: number;
+}
+
+// Rounds to the nearest 1/2/5 × 10^n so band edges read naturally (5, 20, 50...).
+const niceRound = (value: number): number => {
+  if (value <= 0) return 0;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const normalized = value / magnitude;
+  const step = normalized < 1.5 ? 1 : normalized < 3 ? 2 : normalized < 7 ? 5 : 10;
+  return step * magnitude;
+};
+
+const quantile = (sorted: number[], q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+
+/**
+ * Splits the catalog into roughly equal-sized price bands. Edges come from the
+ * price quantiles, so a catalog of mostly cheap items still gets useful buckets.
+ */
+export const computePriceBands = (prices: number[], bandCount = 4): PriceBand[] => {
+  if (prices.length === 0) return [];
+  const sorted = [...prices].sort((a, b) => a - b);
+  const edges = Array.from(new Set(
+    Array.from({ length: bandCount - 1 }, (_, i) => niceRound(quantile(sorted, (i + 1) / bandCount)))
+  )).filter(edge => edge > sorted[0] && edge < sorted[sorted.length - 1]);
+
+  if (edges.length === 0) return [];
+  return [0, ...edges].map((min, i) => ({ min, max: i < edges.length ? edges[i] : Infinity }));
+};
+
+/**
+ * Bands are half-open: a price on an edge belongs to the band above it, so band
+ * counts never overlap. The top band's Infinity keeps it open-ended.
+ */
+export const isInPriceBand = (price: number, { min, max }: PriceBand): boolean => price >= min && price < max;
+
+/** A shopper's own range includes both ends, so "up to 50" shows the 50 items. */
+export const isInPriceRange = (price: number, [min, max]: [number, number]): boolean => price >= min && price <= max;
+
+export const getPriceBounds = (prices: number[]): [number, number] =>
+  prices.length === 0 ? [0, 0] : [Math.floor(Math.min(...prices)), Math.ceil(Math.max(...prices))];
+
+export const buildPriceHistogram = (prices: number[], [min, max]: [number, number], binCount = 12): HistogramBin[] => {
+  if (max <= min) return [];
+  const width = (max - min) / binCount;
+  const bins = Array.from({ length: binCount }, (_, i) => ({ min: min + i * width, max: min + (i + 1) * width, count: 0 }));
+  prices.forEach(price => {
+    const index = Math.min(binCount - 1, Math.max(0, Math.floor((price - min) / width)));
+    bins[index].count++;
+  });
+  return bins;
+};
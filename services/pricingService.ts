@@ -0,0 +1,117 @@
+import { CartItem, Coupon, PriceBreakdown, PricingSettings } from '../types';
+import { formatMoney, getCurrencySettings } from './currencyService';
+import { getInitialLocale, getLocaleTag, localize } from './i18nService';
+import { loadFromStorage, saveToStorage } from './storage';
+
+const SETTINGS_KEY = 'pricingSettings';
+const COUPONS_KEY = 'coupons';
+
+// Used for items with no recorded weight so they still count towards shipping.
+export const DEFAULT_ITEM_WEIGHT_KG = 1;
+
+export const DEFAULT_PRICING_SETTINGS: PricingSettings = {
+  taxRates: [
+    { region: 'Kerala', rate: 0.05 },
+    { region: 'Tamil Nadu', rate: 0.05 },
+    { region: 'Karnataka', rate: 0.05 },
+    { region: 'Outside India', rate: 0 },
+  ],
+  defaultTaxRate: 0.05,
+  shippingRates: [
+    { maxWeightKg: 5, cost: 4.99 },
+    { maxWeightKg: 25, cost: 9.99 },
+    { maxWeightKg: 50, cost: 14.99 },
+  ],
+  extraCostPerKg: 0.35,
+  freeShippingThreshold: 75,
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export const getPricingSettings = (): PricingSettings => loadFromStorage<PricingSettings>(SETTINGS_KEY, DEFAULT_PRICING_SETTINGS);
+
+export const savePricingSettings = (settings: PricingSettings) => saveToStorage(SETTINGS_KEY, settings);
+
+export const getCoupons = (): Coupon[] => loadFromStorage<Coupon[]>(COUPONS_KEY, []);
+
+export const saveCoupons = (coupons: Coupon[]) => saveToStorage(COUPONS_KEY, coupons);
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+export const findCoupon = (coupons: Coupon[], code: string): Coupon | undefined =>
+  coupons.find(c => c.code === normalizeCouponCode(code));
+
+/** Matches a region by name inside a free-text shipping address. */
+export const detectRegion = (settings: PricingSettings, shippingAddress: string): string | undefined => {
+  const address = shippingAddress.toLowerCase();
+  return settings.taxRates.find(t => address.includes(t.region.toLowerCase()))?.region;
+};
+
+export const getCartWeight = (cartItems: CartItem[]): number =>
+  cartItems.reduce((sum, item) => sum + (item.weightKg ?? DEFAULT_ITEM_WEIGHT_KG) * item.quantity, 0);
+
+export const getShippingCost = (settings: PricingSettings, weightKg: number): number => {
+  if (weightKg <= 0) return 0;
+  const tiers = [...settings.shippingRates].sort((a, b) => a.maxWeightKg - b.maxWeightKg);
+  const tier = tiers.find(t => weightKg <= t.maxWeightKg);
+  if (tier) return tier.cost;
+  const heaviest = tiers[tiers.length - 1];
+  if (!heaviest) return roundCurrency(weightKg * settings.extraCostPerKg);
+  return roundCurrency(heaviest.cost + (weightKg - heaviest.maxWeightKg) * settings.extraCostPerKg);
+};
+
+/** Returns why a coupon can't be used on this order, or null if it can. */
+export const getCouponError = (coupon: Coupon | undefined, subtotal: number, now = new Date()): string | null => {
+  if (!coupon || !coupon.isActive) return localize('errors.couponInvalid');
+  if (coupon.expiresAt && new Date(coupon.expiresAt) < now) return localize('errors.couponExpired');
+  if (coupon.usageLimit !== undefined && coupon.usageCount >= coupon.usageLimit) return localize('errors.couponUsedUp');
+  if (coupon.minOrder !== undefined && subtotal < coupon.minOrder) {
+    return localize('errors.couponMinOrder', { amount: formatMoney(coupon.minOrder, getCurrencySettings().storeCurrency, getLocaleTag(getInitialLocale())) });
+  }
+  return null;
+};
+
+/**
+ * Prices the cart: discount comes off the subtotal, shipping is by weight, and
+ * tax is charged on the discounted subtotal at the shipping region's rate.
+ * Pass only a coupon that has already passed `getCouponError`.
+ */
+export const calculatePriceBreakdown = (
+  cartItems: CartItem[],
+  settings: PricingSettings,
+  options: { region?: string; coupon?: Coupon } = {},
+): PriceBreakdown => {
+  const { region, coupon } = options;
+  const subtotal = roundCurrency(cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0));
+  const weightKg = Math.round(getCartWeight(cartItems) * 1000) / 1000;
+
+  let discount = 0;
+  if (coupon?.type === 'percentage') discount = subtotal * Math.min(100, coupon.value) / 100;
+  if (coupon?.type === 'fixed') discount = Math.min(subtotal, coupon.value);
+  discount = roundCurrency(discount);
+
+  const qualifiesForFreeShipping = coupon?.type === 'free_shipping'
+    || (settings.freeShippingThreshold !== undefined && subtotal - discount >= settings.freeShippingThreshold);
+  const shipping = qualifiesForFreeShipping ? 0 : getShippingCost(settings, weightKg);
+
+  const taxRate = settings.taxRates.find(t => t.region === region)?.rate ?? settings.defaultTaxRate;
+  const tax = roundCurrency((subtotal - discount) * taxRate);
+
+  return {
+    subtotal,
+    discount,
+    shipping,
+    tax,
+    total: roundCurrency(subtotal - discount + shipping + tax),
+    taxRate,
+    taxRegion: region,
+    weightKg,
+    couponCode: coupon?.code,
+  };
+};
+
+export const redeemCoupon = (code: string): Coupon[] => {
+  const coupons = getCoupons().map(c => c.code === normalizeCouponCode(code) ? { ...c, usageCount: c.usageCount + 1 } : c);
+  saveCoupons(coupons);
+  return coupons;
+};
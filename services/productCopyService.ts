@@ -0,0 +1,85 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { Locale, Product } from '../types';
+import { LOCALES } from './i18nService';
+import { hasGeminiKey } from './productSource';
+import { loadFromStorage, saveToStorage } from './storage';
+
+export interface ProductCopy {
+  name: string;
+  description: string;
+  /** The English name and description this was written from; an edit to either makes it stale. */
+  source: string;
+}
+
+const copyKey = (locale: Locale) => `productCopy:${locale}`;
+
+// Keeps each request comfortably inside the model's output limit.
+const BATCH_SIZE = 20;
+
+export const sourceOf = (product: Product) => `${product.name}\n${product.description}`;
+
+export const canGenerateProductCopy = (): boolean => hasGeminiKey();
+
+export const getCachedProductCopy = (locale: Locale): Record<string, ProductCopy> =>
+  loadFromStorage<Record<string, ProductCopy>>(copyKey(locale), {});
+
+/** Products with no copy in this locale yet, or whose copy was written from an older name or description. */
+export const findMissingCopy = (products: Product[], copy: Record<string, ProductCopy>): Product[] =>
+  products.filter(p => copy[p.id]?.source !== sourceOf(p));
+
+/** Swaps in localized names and descriptions where we have up-to-date copy; everything else stays as-is. */
+export const applyProductCopy = (products: Product[], copy: Record<string, ProductCopy>): Product[] =>
+  products.map(p => {
+    const localized = copy[p.id];
+    return localized && localized.source === sourceOf(p) ? { ...p, name: localized.name, description: localized.description } : p;
+  });
+
+const requestCopy = async (ai: GoogleGenAI, products: Product[], languageName: string): Promise<{ id: string; name: string; description: string }[]> => {
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: `Write storefront copy in ${languageName} for these products. Translate each name and description naturally for shoppers in India, keeping brand names, model numbers and units as they are. Return one entry per product with the same id.\n\n${JSON.stringify(products.map(p => ({ id: p.id, name: p.name, brand: p.brand, description: p.description })))}`,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            id: { type: Type.STRING },
+            name: { type: Type.STRING },
+            description: { type: Type.STRING },
+          },
+          required: ['id', 'name', 'description'],
+        },
+      },
+    },
+  });
+  return JSON.parse(response.text ?? '[]');
+};
+
+/**
+ * Asks Gemini for copy in the locale for every product that lacks it, caching
+ * the results per locale. English is the catalog's own language, so it never
+ * needs generating.
+ */
+export const generateProductCopy = async (products: Product[], locale: Locale): Promise<Record<string, ProductCopy>> => {
+  const cached = getCachedProductCopy(locale);
+  const missing = findMissingCopy(products, cached);
+  if (locale === 'en' || missing.length === 0 || !canGenerateProductCopy()) return cached;
+
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const languageName = LOCALES.find(l => l.code === locale)!.languageName;
+  const byId = new Map(missing.map(p => [p.id, p]));
+  const next = { ...cached };
+  for (let i = 0; i < missing.length; i += BATCH_SIZE) {
+    const results = await requestCopy(ai, missing.slice(i, i + BATCH_SIZE), languageName);
+    results.forEach(result => {
+      const product = byId.get(result.id);
+      if (product && result.name.trim()) {
+        next[product.id] = { name: result.name.trim(), description: result.description.trim(), source: sourceOf(product) };
+      }
+    });
+    saveToStorage(copyKey(locale), next);
+  }
+  return next;
+};
@@ -0,0 +1,79 @@
+import { Product } from '../types';
+import { generateProducts } from './geminiService';
+import { SEED_PRODUCTS } from '../data/seedProducts';
+import { loadFromStorage, saveToStorage } from './storage';
+import { syncVariantTotals } from './variantService';
+
+export type ProductSourceId = 'gemini' | 'local';
+
+export interface ProductSource {
+  id: ProductSourceId;
+  label: string;
+  /** Bumped when the source's products change shape or content, so older cached copies are dropped. */
+  version: string;
+  loadProducts: () => Promise<Product[]>;
+}
+
+interface CachedCatalog {
+  savedAt: string; // ISO 8601 string
+  version?: string; // missing on catalogs cached before versioning
+  products: Product[];
+}
+
+const catalogKey = (sourceId: ProductSourceId) => `catalog:${sourceId}`;
+
+// A short content hash, so editing the seed file invalidates every browser's cached copy.
+const fingerprint = (text: string) => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+};
+
+export const geminiProductSource: ProductSource = {
+  id: 'gemini',
+  label: 'Gemini (AI-generated)',
+  version: '1',
+  loadProducts: () => generateProducts(),
+};
+
+export const localProductSource: ProductSource = {
+  id: 'local',
+  label: 'Local seed catalog',
+  version: `seed-${fingerprint(JSON.stringify(SEED_PRODUCTS))}`,
+  loadProducts: async () => SEED_PRODUCTS.map(p => syncVariantTotals({ ...p, imageUrls: [...p.imageUrls] })),
+};
+
+export const hasGeminiKey = () => Boolean(process.env.GEMINI_API_KEY) && process.env.GEMINI_API_KEY !== 'PLACEHOLDER_API_KEY';
+
+/**
+ * Picks the catalog source from PRODUCT_SOURCE in the env file. Without an
+ * explicit choice we only use Gemini when a real API key is configured.
+ */
+export const getProductSource = (): ProductSource => {
+  switch (process.env.PRODUCT_SOURCE) {
+    case 'gemini': return geminiProductSource;
+    case 'local': return localProductSource;
+    default: return hasGeminiKey() ? geminiProductSource : localProductSource;
+  }
+};
+
+/**
+ * The cached catalog keeps stock and admin edits across reloads. A copy cached
+ * from an older version of the source is ignored.
+ */
+export const getCachedCatalog = (source: ProductSource): Product[] | null => {
+  const cached = loadFromStorage<CachedCatalog | null>(catalogKey(source.id), null);
+  return cached?.version === source.version ? cached.products : null;
+};
+
+export const saveCatalog = (source: ProductSource, products: Product[]) =>
+  saveToStorage<CachedCatalog>(catalogKey(source.id), { savedAt: new Date().toISOString(), version: source.version, products });
+
+/** Returns the cached catalog for the source if there is one, otherwise loads and caches it. */
+export const loadCatalog = async (source: ProductSource): Promise<Product[]> => {
+  const cached = getCachedCatalog(source);
+  if (cached && cached.length > 0) return cached;
+  const products = await source.loadProducts();
+  saveCatalog(source, products);
+  return products;
+};
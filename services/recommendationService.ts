@@ -0,0 +1,45 @@
+import { Order, Product } from '../types';
+import { getPriceRange, isInStock } from './variantService';
+
+const DEFAULT_LIMIT = 4;
+
+// Orders that never went through don't say anything about what people buy together.
+const countsTowardsHistory = (order: Order) => order.status !== 'cancelled';
+
+// Out-of-stock items sink to the end rather than disappearing, so a sparse catalog still has suggestions.
+const rank = (scores: Map<string, number>, products: Product[], limit: number): Product[] =>
+  products
+    .filter(p => (scores.get(p.id) ?? 0) > 0)
+    .sort((a, b) => Number(isInStock(b)) - Number(isInStock(a)) || scores.get(b.id)! - scores.get(a.id)!)
+    .slice(0, limit);
+
+/** Products that appear in the same orders as this one, most frequent first. */
+export const getAlsoBought = (productId: string, orders: Order[], products: Product[], limit = DEFAULT_LIMIT): Product[] => {
+  const counts = new Map<string, number>();
+  orders.filter(countsTowardsHistory).forEach(order => {
+    const ids = new Set(order.itemsList.map(item => item.productId));
+    if (!ids.has(productId)) return;
+    ids.forEach(id => { if (id !== productId) counts.set(id, (counts.get(id) ?? 0) + 1); });
+  });
+  return rank(counts, products, limit);
+};
+
+/**
+ * Products like this one: the same category counts most, then the same brand,
+ * with a nudge towards similar prices.
+ */
+export const getSimilarProducts = (product: Product, products: Product[], limit = DEFAULT_LIMIT): Product[] => {
+  const [min, max] = getPriceRange(product);
+  const midpoint = (min + max) / 2;
+  const scores = new Map<string, number>();
+  products.forEach(p => {
+    if (p.id === product.id) return;
+    const sameCategory = p.category === product.category;
+    const sameBrand = p.brand === product.brand;
+    if (!sameCategory && !sameBrand) return;
+    const [pMin, pMax] = getPriceRange(p);
+    const priceGap = Math.abs((pMin + pMax) / 2 - midpoint) / Math.max(midpoint, 1);
+    scores.set(p.id, (sameCategory ? 3 : 0) + (sameBrand ? 1 : 0) + Math.max(0, 1 - priceGap));
+  });
+  return rank(scores, products, limit);
+};
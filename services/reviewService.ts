@@ -0,0 +1,104 @@
+import { Order, Product, ProductReview, ReviewInput, ReviewStatus } from '../types';
+import { localize } from './i18nService';
+import { loadFromStorage, saveToStorage } from './storage';
+
+const REVIEWS_KEY = 'reviews';
+
+const COMMENT_MIN_LENGTH = 10;
+const COMMENT_MAX_LENGTH = 1000;
+
+export interface RatingSummary {
+  average: number;
+  count: number;
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+export const getReviews = (): ProductReview[] => loadFromStorage<ProductReview[]>(REVIEWS_KEY, []);
+
+export const getApprovedReviews = (reviews: ProductReview[], productId: string): ProductReview[] =>
+  reviews.filter(r => r.productId === productId && r.status === 'approved');
+
+/** Only a delivered order counts, so nobody reviews a product they haven't received. */
+export const hasPurchased = (orders: Order[], customerId: string, productId: string): boolean =>
+  orders.some(o =>
+    o.customerId === customerId
+    && o.status === 'delivered'
+    && o.itemsList.some(item => item.productId === productId));
+
+/** Returns why this customer can't review the product, or null if they can. */
+export const getReviewEligibilityError = (
+  reviews: ProductReview[],
+  orders: Order[],
+  customerId: string | null | undefined,
+  productId: string,
+): string | null => {
+  if (!customerId) return localize('reviews.signInRequired');
+  if (!hasPurchased(orders, customerId, productId)) return localize('errors.reviewNotPurchased');
+  if (reviews.some(r => r.productId === productId && r.customerId === customerId && r.status !== 'rejected')) {
+    return localize('errors.reviewDuplicate');
+  }
+  return null;
+};
+
+export const submitReview = (input: ReviewInput, customer: { id: string; name: string }, orders: Order[]): ProductReview => {
+  const reviews = getReviews();
+  const eligibilityError = getReviewEligibilityError(reviews, orders, customer.id, input.productId);
+  if (eligibilityError) throw new Error(eligibilityError);
+  if (!Number.isInteger(input.rating) || input.rating < 1 || input.rating > 5) {
+    throw new Error(localize('errors.reviewRating'));
+  }
+  const comment = input.comment.trim();
+  if (comment.length < COMMENT_MIN_LENGTH) throw new Error(localize('errors.tooShort', { min: COMMENT_MIN_LENGTH }));
+  if (comment.length > COMMENT_MAX_LENGTH) throw new Error(localize('errors.reviewTooLong', { max: COMMENT_MAX_LENGTH }));
+
+  const review: ProductReview = {
+    id: `REV-${Date.now()}-${Math.random().toString(36).substr(2, 5).toUpperCase()}`,
+    productId: input.productId,
+    customerId: customer.id,
+    username: customer.name,
+    rating: input.rating,
+    comment,
+    date: new Date().toISOString(),
+    status: 'pending',
+  };
+  saveToStorage(REVIEWS_KEY, [review, ...reviews]);
+  return review;
+};
+
+export const setReviewStatus = (reviewId: string, status: ReviewStatus, moderatedBy: string): ProductReview[] => {
+  const reviews = getReviews();
+  if (!reviews.some(r => r.id === reviewId)) {
+    throw new Error(localize('errors.reviewNotFound', { id: reviewId }));
+  }
+  const updated = reviews.map(r => r.id === reviewId ? { ...r, status, moderatedBy, moderatedAt: new Date().toISOString() } : r);
+  saveToStorage(REVIEWS_KEY, updated);
+  return updated;
+};
+
+export const summarizeRatings = (reviews: ProductReview[]): RatingSummary => {
+  const distribution: RatingSummary['distribution'] = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  reviews.forEach(r => { distribution[r.rating as 1 | 2 | 3 | 4 | 5] += 1; });
+  const total = reviews.reduce((sum, r) => sum + r.rating, 0);
+  return {
+    average: reviews.length ? Math.round(total / reviews.length * 10) / 10 : 0,
+    count: reviews.length,
+    distribution,
+  };
+};
+
+/**
+ * Replaces each product's rating with the average of its approved reviews.
+ * Products nobody has reviewed yet keep their catalog rating.
+ */
+export const applyReviewRatings = (products: Product[], reviews: ProductReview[]): Product[] => {
+  const approvedByProduct = new Map<string, ProductReview[]>();
+  reviews.filter(r => r.status === 'approved').forEach(r => {
+    approvedByProduct.set(r.productId, [...(approvedByProduct.get(r.productId) ?? []), r]);
+  });
+  return products.map(p => {
+    const approved = approvedByProduct.get(p.id);
+    if (!approved) return { ...p, reviewCount: 0 };
+    const { average, count } = summarizeRatings(approved);
+    return { ...p, rating: average, reviewCount: count };
+  });
+};
@@ -0,0 +1,73 @@
+import { StoreFilters } from '../types';
+
+export type View = 'store' | 'admin' | 'dashboard' | 'checkout' | 'confirmation' | 'contact';
+
+const VIEWS: View[] = ['store', 'admin', 'dashboard', 'checkout', 'confirmation', 'contact'];
+
+export const SORT_OPTIONS = ['relevance', 'price_asc', 'price_desc', 'rating_desc'];
+
+export interface AppRoute {
+  view: View;
+  filters: StoreFilters;
+  productId: string | null;
+  orderId: string | null;
+}
+
+export const DEFAULT_FILTERS: StoreFilters = {
+  searchTerm: '',
+  selectedCategories: [],
+  selectedBrands: [],
+  priceRange: [0, Infinity],
+  minRating: 0,
+  sortBy: 'relevance',
+  inStockOnly: false,
+};
+
+// Lists are repeated params ("category=A&category=B"), so names may contain commas.
+const parseList = (params: URLSearchParams, key: string) => params.getAll(key).filter(Boolean);
+
+// Prices are written as "min-max"; an open upper bound is left empty ("50-").
+const parsePriceRange = (value: string | null): [number, number] => {
+  const match = value?.match(/^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)?$/);
+  if (!match) return DEFAULT_FILTERS.priceRange;
+  return [Number(match[1]), match[2] !== undefined ? Number(match[2]) : Infinity];
+};
+
+export const parseRoute = (search: string): AppRoute => {
+  const params = new URLSearchParams(search);
+  const view = params.get('view') as View | null;
+  const minRating = Number(params.get('rating'));
+  const sortBy = params.get('sort');
+  return {
+    view: view && VIEWS.includes(view) ? view : 'store',
+    filters: {
+      searchTerm: params.get('q') ?? '',
+      selectedCategories: parseList(params, 'category'),
+      selectedBrands: parseList(params, 'brand'),
+      priceRange: parsePriceRange(params.get('price')),
+      minRating: Number.isFinite(minRating) ? minRating : 0,
+      sortBy: sortBy && SORT_OPTIONS.includes(sortBy) ? sortBy : DEFAULT_FILTERS.sortBy,
+      inStockOnly: params.get('stock') === 'in',
+    },
+    productId: params.get('product'),
+    orderId: params.get('order'),
+  };
+};
+
+/** Serializes a route to a query string, leaving out anything still at its default. */
+export const buildRouteSearch = ({ view, filters, productId, orderId }: AppRoute): string => {
+  const params = new URLSearchParams();
+  if (view !== 'store') params.set('view', view);
+  if (filters.searchTerm) params.set('q', filters.searchTerm);
+  filters.selectedCategories.forEach(category => params.append('category', category));
+  filters.selectedBrands.forEach(brand => params.append('brand', brand));
+  const [min, max] = filters.priceRange;
+  if (min > 0 || max !== Infinity) params.set('price', `${min}-${max === Infinity ? '' : max}`);
+  if (filters.minRating > 0) params.set('rating', String(filters.minRating));
+  if (filters.sortBy !== DEFAULT_FILTERS.sortBy) params.set('sort', filters.sortBy);
+  if (filters.inStockOnly) params.set('stock', 'in');
+  if (productId) params.set('product', productId);
+  if (orderId && (view === 'confirmation' || view === 'dashboard')) params.set('order', orderId);
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
@@ -0,0 +1,127 @@
+import { Product } from '../types';
+
+type SearchField = 'name' | 'brand' | 'category' | 'description';
+
+// Name hits matter most; a word buried in the description is a weak signal.
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 5,
+  brand: 3,
+  category: 2,
+  description: 1,
+};
+
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.8;
+const FUZZY_MATCH = 0.5;
+
+interface IndexedProduct {
+  productId: string;
+  fields: Record<SearchField, string[]>;
+}
+
+export type SearchIndex = IndexedProduct[];
+
+export interface SearchResult {
+  productId: string;
+  score: number;
+  /** Product tokens that matched the query, for highlighting. */
+  matchedTerms: string[];
+}
+
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(Boolean);
+
+const levenshtein = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, curr[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+// Short words must be spelled right; longer ones tolerate one or two typos.
+const allowedTypos = (term: string) => term.length <= 3 ? 0 : term.length <= 6 ? 1 : 2;
+
+const matchQuality = (queryTerm: string, token: string): number => {
+  if (token === queryTerm) return EXACT_MATCH;
+  if (queryTerm.length >= 2 && token.startsWith(queryTerm)) return PREFIX_MATCH;
+  const typos = allowedTypos(queryTerm);
+  return typos > 0 && levenshtein(queryTerm, token, typos) <= typos ? FUZZY_MATCH : 0;
+};
+
+export const buildSearchIndex = (products: Product[]): SearchIndex =>
+  products.map(p => ({
+    productId: p.id,
+    fields: {
+      name: tokenize(p.name),
+      brand: tokenize(p.brand),
+      category: tokenize(p.category),
+      description: tokenize(p.description),
+    },
+  }));
+
+/**
+ * Scores every product against the query. Each query term has to match at
+ * least one field; products missing a term are left out of the results.
+ * Returns null when the query has no searchable words (e.g. "!!!"), meaning
+ * "no search" rather than "nothing matches".
+ */
+export const searchProducts = (index: SearchIndex, query: string): Map<string, SearchResult> | null => {
+  const queryTerms = tokenize(query);
+  if (queryTerms.length === 0) return null;
+  const results = new Map<string, SearchResult>();
+
+  index.forEach(entry => {
+    let score = 0;
+    const matchedTerms = new Set<string>();
+    const allTermsMatch = queryTerms.every(term => {
+      let best = 0;
+      (Object.keys(FIELD_WEIGHTS) as SearchField[]).forEach(field => {
+        entry.fields[field].forEach(token => {
+          const quality = matchQuality(term, token);
+          if (quality > 0) {
+            matchedTerms.add(token);
+            best = Math.max(best, quality * FIELD_WEIGHTS[field]);
+          }
+        });
+      });
+      score += best;
+      return best > 0;
+    });
+    if (allTermsMatch) {
+      results.set(entry.productId, { productId: entry.productId, score, matchedTerms: Array.from(matchedTerms) });
+    }
+  });
+  return results;
+};
+
+/**
+ * Where matched tokens occur in the original text. Each word is normalized the
+ * way the index normalizes it, so "Café" is found for the token "cafe".
+ */
+export const findMatchSpans = (text: string, tokens: string[]): [number, number][] => {
+  const wanted = new Set(tokens);
+  return Array.from(text.matchAll(/[\p{L}\p{M}\p{N}]+/gu))
+    .filter(match => tokenize(match[0]).some(token => wanted.has(token)))
+    .map(match => [match.index!, match.index! + match[0].length]);
+};
+
+/** Counts how many products fall under each value of a facet such as category or brand. */
+export const countFacet = (products: Product[], key: 'category' | 'brand'): Map<string, number> => {
+  const counts = new Map<string, number>();
+  products.forEach(p => counts.set(p[key], (counts.get(p[key]) ?? 0) + 1));
+  return counts;
+};
@@ -0,0 +1,20 @@
+// Thin JSON wrappers around localStorage. Reads fall back to a default value
+// when the key is missing or unparsable so callers never have to guard.
+
+export const loadFromStorage = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (err) {
+    console.error(`Failed to read "${key}" from storage`, err);
+    return fallback;
+  }
+};
+
+export const saveToStorage = <T,>(key: string, value: T): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.error(`Failed to write "${key}" to storage`, err);
+  }
+};
@@ -0,0 +1,94 @@
+import { ContactSubmission, SupportTicket, TicketStatus } from '../types';
+import { localize } from './i18nService';
+import { loadFromStorage, saveToStorage } from './storage';
+
+const TICKETS_KEY = 'supportTickets';
+const SUBMISSION_LOG_KEY = 'contactSubmissions';
+
+const RATE_LIMIT_WINDOW_MS = 10 * 60 * 1000;
+const RATE_LIMIT_MAX = 3;
+const MIN_INTERVAL_MS = 30 * 1000;
+const MESSAGE_MIN_LENGTH = 10;
+const MESSAGE_MAX_LENGTH = 2000;
+
+export type ContactFieldErrors = Partial<Record<keyof ContactSubmission, string>>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const isValidEmail = (email: string): boolean => EMAIL_PATTERN.test(email.trim());
+
+export const validateContactSubmission = ({ name, email, message }: ContactSubmission): ContactFieldErrors => {
+  const errors: ContactFieldErrors = {};
+  if (!name.trim()) errors.name = localize('errors.contactName');
+  if (!isValidEmail(email)) errors.email = localize('errors.contactEmail');
+  if (message.trim().length < MESSAGE_MIN_LENGTH) errors.message = localize('errors.tooShort', { min: MESSAGE_MIN_LENGTH });
+  else if (message.length > MESSAGE_MAX_LENGTH) errors.message = localize('errors.contactTooLong', { max: MESSAGE_MAX_LENGTH });
+  return errors;
+};
+
+/** Returns a message explaining why the sender has to wait, or null if they may submit now. */
+export const checkRateLimit = (now = Date.now()): string | null => {
+  const recent = loadFromStorage<number[]>(SUBMISSION_LOG_KEY, []).filter(t => now - t < RATE_LIMIT_WINDOW_MS);
+  if (recent.length >= RATE_LIMIT_MAX) return localize('errors.contactRateLimit');
+  if (recent.length > 0 && now - Math.max(...recent) < MIN_INTERVAL_MS) return localize('errors.contactWait');
+  return null;
+};
+
+const logSubmission = (now: number) => {
+  const recent = loadFromStorage<number[]>(SUBMISSION_LOG_KEY, []).filter(t => now - t < RATE_LIMIT_WINDOW_MS);
+  saveToStorage(SUBMISSION_LOG_KEY, [...recent, now]);
+};
+
+export const getTickets = (): SupportTicket[] => loadFromStorage<SupportTicket[]>(TICKETS_KEY, []);
+
+/**
+ * Validates and stores a contact form submission as an open ticket. Bot
+ * submissions (honeypot filled) are swallowed and return null so the bot
+ * sees the same success response as a person would.
+ */
+export const submitContactForm = (submission: ContactSubmission, customerId?: string): SupportTicket | null => {
+  const errors = validateContactSubmission(submission);
+  const firstError = Object.values(errors)[0];
+  if (firstError) throw new Error(firstError);
+  const rateLimitMessage = checkRateLimit();
+  if (rateLimitMessage) throw new Error(rateLimitMessage);
+
+  const now = Date.now();
+  logSubmission(now);
+  if (submission.website) return null;
+
+  const ticket: SupportTicket = {
+    id: `TKT-${now}-${Math.random().toString(36).substr(2, 5).toUpperCase()}`,
+    name: submission.name.trim(),
+    email: submission.email.trim(),
+    message: submission.message.trim(),
+    status: 'open',
+    date: new Date(now).toISOString(),
+    replies: [],
+    customerId,
+  };
+  saveToStorage(TICKETS_KEY, [ticket, ...getTickets()]);
+  return ticket;
+};
+
+const updateTicket = (ticketId: string, update: (ticket: SupportTicket) => SupportTicket): SupportTicket[] => {
+  const tickets = getTickets();
+  if (!tickets.some(t => t.id === ticketId)) {
+    throw new Error(localize('errors.ticketNotFound', { id: ticketId }));
+  }
+  const updated = tickets.map(t => t.id === ticketId ? update(t) : t);
+  saveToStorage(TICKETS_KEY, updated);
+  return updated;
+};
+
+export const replyToTicket = (ticketId: string, author: string, message: string): SupportTicket[] => {
+  if (!message.trim()) throw new Error(localize('errors.replyEmpty'));
+  return updateTicket(ticketId, t => ({
+    ...t,
+    status: 'answered',
+    replies: [...t.replies, { author, message: message.trim(), date: new Date().toISOString() }],
+  }));
+};
+
+export const setTicketStatus = (ticketId: string, status: TicketStatus): SupportTicket[] =>
+  updateTicket(ticketId, t => ({ ...t, status }));
@@ -0,0 +1,97 @@
+import { Credentials, Registration, User, UserStatus } from '../types';
+import { localize } from './i18nService';
+import { loadFromStorage, saveToStorage } from './storage';
+import { isValidEmail } from './ticketService';
+
+const USERS_KEY = 'users';
+const SESSION_KEY = 'customerSession';
+const PBKDF2_ITERATIONS = 100_000;
+
+interface StoredUser extends User {
+  passwordHash: string;
+  salt: string;
+}
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array(hex.match(/.{2}/g)!.map(byte => parseInt(byte, 16)));
+
+const hashPassword = async (password: string, saltHex: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt: fromHex(saltHex), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' }, key, 256);
+  return toHex(bits);
+};
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const loadStoredUsers = () => loadFromStorage<StoredUser[]>(USERS_KEY, []);
+
+// Credentials never leave this module.
+const toPublicUser = ({ passwordHash, salt, ...user }: StoredUser): User => user;
+
+export const getUsers = (): User[] => loadStoredUsers().map(toPublicUser);
+
+export const getUserById = (userId: string): User | undefined => getUsers().find(u => u.id === userId);
+
+export const registerCustomer = async ({ name, email, password }: Registration): Promise<User> => {
+  const users = loadStoredUsers();
+  const normalizedEmail = normalizeEmail(email);
+  if (!name.trim() || !normalizedEmail) {
+    throw new Error(localize('errors.registerRequired'));
+  }
+  if (!isValidEmail(normalizedEmail)) {
+    throw new Error(localize('errors.contactEmail'));
+  }
+  if (password.length < 8) {
+    throw new Error(localize('errors.passwordLength'));
+  }
+  if (users.some(u => u.email === normalizedEmail)) {
+    throw new Error(localize('errors.emailTaken'));
+  }
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  const user: StoredUser = {
+    id: `USR-${Date.now()}-${Math.random().toString(36).substr(2, 5).toUpperCase()}`,
+    name: name.trim(),
+    email: normalizedEmail,
+    joinDate: new Date().toISOString(),
+    status: 'active',
+    orderCount: 0,
+    avatar: `https://i.pravatar.cc/150?u=${encodeURIComponent(normalizedEmail)}`,
+    passwordHash: await hashPassword(password, salt),
+    salt,
+  };
+  saveToStorage(USERS_KEY, [...users, user]);
+  return toPublicUser(user);
+};
+
+export const authenticateCustomer = async ({ email, password }: Credentials): Promise<User> => {
+  const user = loadStoredUsers().find(u => u.email === normalizeEmail(email));
+  if (!user || (await hashPassword(password, user.salt)) !== user.passwordHash) {
+    throw new Error(localize('errors.invalidLogin'));
+  }
+  if (user.status === 'blocked') {
+    throw new Error(localize('errors.accountBlocked'));
+  }
+  return toPublicUser(user);
+};
+
+const updateStoredUser = (userId: string, update: (user: StoredUser) => StoredUser): User[] => {
+  const users = loadStoredUsers().map(u => u.id === userId ? update(u) : u);
+  saveToStorage(USERS_KEY, users);
+  return users.map(toPublicUser);
+};
+
+export const setUserStatus = (userId: string, status: UserStatus): User[] => updateStoredUser(userId, u => ({ ...u, status }));
+
+export const incrementOrderCount = (userId: string): User[] => updateStoredUser(userId, u => ({ ...u, orderCount: u.orderCount + 1 }));
+
+export const getSessionUserId = (): string | null => loadFromStorage<string | null>(SESSION_KEY, null);
+
+export const saveSessionUserId = (userId: string | null) => {
+  if (userId) {
+    saveToStorage(SESSION_KEY, userId);
+  } else {
+    localStorage.removeItem(SESSION_KEY);
+  }
+};
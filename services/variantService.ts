@@ -0,0 +1,78 @@
+import { CartItem, Product, ProductVariant } from '../types';
+
+export const hasVariants = (product: Product): boolean => (product.variants?.length ?? 0) > 0;
+
+export const getVariant = (product: Product, variantId?: string): ProductVariant | undefined =>
+  variantId ? product.variants?.find(v => v.id === variantId) : undefined;
+
+/** "5 kg · Coarse" — option values in the order the product declares its axes. */
+export const getVariantLabel = (product: Product, variant: ProductVariant): string =>
+  (product.variantOptions ?? []).map(option => variant.options[option.name]).filter(Boolean).join(' · ');
+
+export const findVariant = (product: Product, selection: Record<string, string>): ProductVariant | undefined =>
+  product.variants?.find(v => Object.entries(selection).every(([name, value]) => v.options[name] === value));
+
+/** Prefers the cheapest variant that is in stock so the picker opens on something buyable. */
+export const getDefaultVariant = (product: Product): ProductVariant | undefined => {
+  const variants = product.variants ?? [];
+  const inStock = variants.filter(v => v.stock > 0);
+  return [...(inStock.length > 0 ? inStock : variants)].sort((a, b) => a.price - b.price)[0];
+};
+
+export const getPriceRange = (product: Product): [number, number] => {
+  if (!hasVariants(product)) return [product.price, product.price];
+  const prices = product.variants!.map(v => v.price);
+  return [Math.min(...prices), Math.max(...prices)];
+};
+
+/** Prices a shopper could actually pay, i.e. ignoring sold-out variants when anything is in stock. */
+export const getPurchasablePrices = (product: Product): number[] => {
+  if (!hasVariants(product)) return [product.price];
+  const inStock = product.variants!.filter(v => v.stock > 0);
+  return (inStock.length > 0 ? inStock : product.variants!).map(v => v.price);
+};
+
+export const isInStock = (product: Product): boolean =>
+  hasVariants(product) ? product.variants!.some(v => v.stock > 0) : product.stock > 0;
+
+/** Stock for a cart/order line, which is the variant's stock when the line names one. */
+export const getLineStock = (product: Product, variantId?: string): number =>
+  getVariant(product, variantId)?.stock ?? product.stock;
+
+/**
+ * Keeps the flat `price` (lowest variant price) and `stock` (sum of variants)
+ * in step with the variants, so code that ignores variants still sees sane values.
+ */
+export const syncVariantTotals = (product: Product): Product => {
+  if (!hasVariants(product)) return product;
+  return {
+    ...product,
+    price: getPriceRange(product)[0],
+    stock: product.variants!.reduce((sum, v) => sum + v.stock, 0),
+  };
+};
+
+export const adjustVariantStock = (product: Product, variantId: string, delta: number): Product =>
+  syncVariantTotals({
+    ...product,
+    variants: product.variants!.map(v => v.id === variantId ? { ...v, stock: v.stock + delta } : v),
+  });
+
+/** Builds the cart line for a product, taking price, stock and images from the chosen variant. */
+export const toCartItem = (product: Product, quantity: number, variantId?: string): CartItem => {
+  const variant = getVariant(product, variantId);
+  if (!variant) return { ...product, quantity };
+  return {
+    ...product,
+    price: variant.price,
+    stock: variant.stock,
+    imageUrls: variant.imageUrls?.length ? variant.imageUrls : product.imageUrls,
+    weightKg: variant.weightKg ?? product.weightKg,
+    quantity,
+    variantId: variant.id,
+    variantLabel: getVariantLabel(product, variant),
+  };
+};
+
+export const isSameLine = (item: Pick<CartItem, 'id' | 'variantId'>, productId: string, variantId?: string) =>
+  item.id === productId && (item.variantId ?? null) === (variantId ?? null);
@@ -3,15 +3,76 @@ export interface Product {
   name: string;
   description: string;
   price: number;
-  rating: number;
+  rating: number; // average of approved reviews once the product has any
+  reviewCount?: number;
   imageUrls: string[];
   category: string;
   brand: string;
+  stock: number; // for products with variants: total across variants
+  weightKg?: number; // shipping weight per unit
+  variantOptions?: VariantOption[];
+  variants?: ProductVariant[];
+}
+
+/** One axis a product varies along, e.g. "Pack Size" with "1 kg", "5 kg", "25 kg". */
+export interface VariantOption {
+  name: string;
+  values: string[];
+}
+
+export interface ProductVariant {
+  id: string;
+  sku: string;
+  options: Record<string, string>; // option name -> chosen value
+  price: number;
   stock: number;
+  imageUrls?: string[];
+  weightKg?: number;
 }
 
 export interface CartItem extends Product {
   quantity: number;
+  variantId?: string;
+  variantLabel?: string;
+}
+
+/**
+ * What the cart actually stores: a reference to a catalog line, never a copy
+ * of the product, so prices and stock are always read fresh from the catalog.
+ */
+export interface CartLine {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  priceSeen: number; // unit price the shopper last saw, to spot price changes
+}
+
+export interface StoredCart {
+  lines: CartLine[];
+  savedForLater: CartLine[];
+}
+
+export type CartNoticeType = 'price_changed' | 'quantity_reduced' | 'out_of_stock' | 'unavailable' | 'stock_limit';
+
+export interface CartNotice {
+  id: string;
+  type: CartNoticeType;
+  productId: string;
+  variantId?: string;
+  productName: string;
+  oldPrice?: number;
+  newPrice?: number;
+  quantity?: number; // for 'quantity_reduced': what's left in the cart; for 'stock_limit': how many could be added
+}
+
+export interface StoreFilters {
+  searchTerm: string;
+  selectedCategories: string[];
+  selectedBrands: string[];
+  priceRange: [number, number];
+  minRating: number;
+  sortBy: string;
+  inStockOnly: boolean;
 }
 
 export interface Review {
@@ -20,6 +81,21 @@ export interface Review {
   comment: string;
 }
 
+export type ReviewStatus = 'pending' | 'approved' | 'rejected' | 'flagged';
+
+/** A review written by a customer who bought the product; only approved ones are shown or counted. */
+export interface ProductReview extends Review {
+  id: string;
+  productId: string;
+  customerId: string;
+  date: string; // ISO 8601 string
+  status: ReviewStatus;
+  moderatedBy?: string;
+  moderatedAt?: string;
+}
+
+export type ReviewInput = Pick<ProductReview, 'productId' | 'rating' | 'comment'>;
+
 export type UserStatus = 'active' | 'blocked';
 export type UserRole = 'admin' | 'manager' | 'editor';
 
@@ -33,13 +109,39 @@ export interface User {
   avatar: string;
 }
 
+export interface Credentials {
+  email: string;
+  password: string;
+}
+
+export interface Registration extends Credentials {
+  name: string;
+}
+
 export type OrderStatus = 'pending' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
 
+export interface OrderStatusChange {
+    status: OrderStatus;
+    date: string; // ISO 8601 string
+}
+
+export type ReturnRequestStatus = 'requested' | 'approved' | 'rejected';
+
+export interface ReturnRequest {
+    reason: string;
+    status: ReturnRequestStatus;
+    requestedAt: string; // ISO 8601 string
+    resolvedAt?: string;
+    resolvedBy?: string;
+}
+
 export interface OrderItem {
     productId: string;
     productName: string;
     quantity: number;
     price: number;
+    variantId?: string;
+    sku?: string;
 }
 
 export interface Order {
@@ -50,6 +152,74 @@ export interface Order {
   status: OrderStatus;
   itemsList: OrderItem[];
   shippingAddress: string;
+  statusHistory?: OrderStatusChange[];
+  customerId?: string; // absent for guest checkouts
+  breakdown?: PriceBreakdown;
+  trackingNumber?: string; // assigned when the order ships
+  returnRequest?: ReturnRequest;
+  currency?: CurrencyCode; // what it was charged in; absent on orders from before the store currency could change
+}
+
+export interface CheckoutDetails {
+    customerName: string;
+    shippingAddress: string;
+    customerId?: string;
+    region?: string;
+}
+
+export type CouponType = 'percentage' | 'fixed' | 'free_shipping';
+
+export interface Coupon {
+    code: string;
+    type: CouponType;
+    value: number; // percent for 'percentage', currency amount for 'fixed', unused for 'free_shipping'
+    minOrder?: number;
+    expiresAt?: string; // ISO 8601 string
+    usageLimit?: number;
+    usageCount: number;
+    isActive: boolean;
+}
+
+export interface TaxRate {
+    region: string;
+    rate: number; // 0.05 = 5%
+}
+
+export interface ShippingRate {
+    maxWeightKg: number;
+    cost: number;
+}
+
+export interface PricingSettings {
+    taxRates: TaxRate[];
+    defaultTaxRate: number;
+    shippingRates: ShippingRate[];
+    /** Charged per kg beyond the heaviest shipping tier. */
+    extraCostPerKg: number;
+    freeShippingThreshold?: number;
+}
+
+export type Locale = 'en' | 'ml' | 'hi';
+
+export type CurrencyCode = 'INR' | 'USD' | 'EUR' | 'GBP' | 'AED';
+
+export interface CurrencySettings {
+    /** Catalog prices, coupons, shipping and order totals are all in this currency. */
+    storeCurrency: CurrencyCode;
+    /** Extra currencies shoppers may view prices in, as units per one unit of the store currency. */
+    displayRates: Partial<Record<CurrencyCode, number>>;
+}
+
+export interface PriceBreakdown {
+    subtotal: number;
+    discount: number;
+    shipping: number;
+    tax: number;
+    total: number;
+    taxRate: number;
+    taxRegion?: string;
+    weightKg: number;
+    couponCode?: string;
 }
 
 export interface SalesAnalytics {
@@ -62,15 +232,68 @@ export interface SalesAnalytics {
   salesByCategory: { category: string; sales: number }[];
 }
 
+export type BannerPlacement = 'store_header' | 'category' | 'checkout';
+
 export interface Banner {
     id: string;
     title: string;
     link: string;
     imageUrl: string;
     isActive: boolean;
+    subtitle?: string;
+    placement?: BannerPlacement; // defaults to 'store_header'
+    startsAt?: string; // ISO 8601 string; no start means live as soon as it's active
+    endsAt?: string; // ISO 8601 string; no end means it runs until switched off
+    categories?: string[]; // only shown alongside these categories; empty targets everyone
+    priority?: number; // higher shows first, defaults to 0
+}
+
+export interface BannerStats {
+    impressions: number;
+    clicks: number;
 }
 
-export type NotificationType = 'order' | 'stock' | 'review';
+export type AuditEntityType = 'product' | 'order' | 'user' | 'pricing' | 'review' | 'banner' | 'ticket';
+
+export interface AuditEntry {
+    id: string;
+    actor: string;
+    role: UserRole;
+    entityType: AuditEntityType;
+    entityId: string;
+    action: string;
+    details: string;
+    date: string; // ISO 8601 string
+}
+
+export type TicketStatus = 'open' | 'answered' | 'closed';
+
+export interface TicketReply {
+    author: string;
+    message: string;
+    date: string; // ISO 8601 string
+}
+
+export interface SupportTicket {
+    id: string;
+    name: string;
+    email: string;
+    message: string;
+    status: TicketStatus;
+    date: string; // ISO 8601 string
+    replies: TicketReply[];
+    customerId?: string;
+}
+
+export interface ContactSubmission {
+    name: string;
+    email: string;
+    message: string;
+    /** Honeypot field; hidden from people, so anything in it came from a bot. */
+    website?: string;
+}
+
+export type NotificationType = 'order' | 'stock' | 'review' | 'message';
 
 export interface AdminNotification {
     id: string;
@@ -78,4 +301,49 @@ export interface AdminNotification {
     message: string;
     date: string; // ISO 8601 string
     isRead: boolean;
-}
\ No newline at end of file
+    count?: number; // grouped events this admin hasn't read yet (or all of them once read)
+    link?: string; // admin section that deals with it
+    messageKey?: string; // translation key for `message`, so each admin reads it in their own language
+    messageParams?: Record<string, string | number>;
+}
+
+/**
+ * A notification as stored, shared by all staff. Repeats of the same event
+ * (same `groupKey`) are folded into one row rather than adding new ones.
+ */
+export interface StoredNotification {
+    id: string;
+    type: NotificationType;
+    groupKey: string;
+    message: string; // describes the latest event
+    date: string; // ISO 8601 string of the latest event
+    eventDates: string[]; // oldest first, capped
+    link?: string;
+    messageKey?: string; // absent on notifications stored before translations existed
+    messageParams?: Record<string, string | number>;
+}
+
+/** One admin's view of a notification; a newer event makes it unread (and undismissed) again. */
+export interface NotificationReadState {
+    readAt?: string;
+    dismissedAt?: string;
+}
+
+export type NotificationPreferences = Record<UserRole, NotificationType[]>;
+
+/** A cart line the shopping assistant offers to add; nothing is added until the shopper confirms. */
+export interface AssistantCartAction {
+    productId: string;
+    variantId?: string;
+    quantity: number;
+}
+
+export interface AssistantMessage {
+    id: string;
+    role: 'user' | 'assistant';
+    text: string;
+    productIds?: string[]; // products the reply recommends, shown as cards
+    cartActions?: AssistantCartAction[];
+    cartActionStatus?: 'proposed' | 'added' | 'declined';
+    addedActions?: AssistantCartAction[]; // what actually went in once confirmed, capped by stock
+}